@@ -1,11 +1,29 @@
 import mongoose from 'mongoose';
 
+// Indexes from older schemas that would reject valid documents today
+const LEGACY_INDEXES = [
+  { collection: 'quizattempts', name: 'quizId_1_studentId_1' }, // One attempt per student, before retakes
+];
+
+const dropLegacyIndexes = async (connection) => {
+  for (const { collection, name } of LEGACY_INDEXES) {
+    try {
+      await connection.collection(collection).dropIndex(name);
+      console.log(`Dropped legacy index ${collection}.${name}`);
+    } catch (error) {
+      // 26: collection missing, 27: index already gone
+      if (![26, 27].includes(error.code)) throw error;
+    }
+  }
+};
+
 const connectDB = async () => {
   try {
     const conn = await mongoose.connect(process.env.MONGO_URI, {
       dbName: 'quizdash',
     });
     console.log(`MongoDB Connected: ${conn.connection.host}`);
+    await dropLegacyIndexes(conn.connection);
   } catch (error) {
     console.error(`Error: ${error.message}`);
     process.exit(1);
@@ -0,0 +1,155 @@
+import Accommodation from '../models/Accommodation.js';
+import Class from '../models/Class.js';
+import Quiz from '../models/Quiz.js';
+import User from '../models/User.js';
+import { validationResult } from 'express-validator';
+
+// Accommodations are only visible to and managed by the class's teacher
+const ownsClass = (cls, user) => cls && cls.teacherId.toString() === user._id.toString();
+
+// @desc    Get the student accommodations of a class
+// @route   GET /api/accommodations/class/:classId
+// @access  Private (Teacher only)
+export const getAccommodationsByClass = async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const cls = await Class.findById(req.params.classId).lean();
+    if (!cls) {
+      return res.status(404).json({
+        success: false,
+        message: 'Class not found'
+      });
+    }
+    if (!ownsClass(cls, req.user)) {
+      return res.status(403).json({
+        success: false,
+        message: 'Not authorized to manage this class'
+      });
+    }
+
+    const accommodations = await Accommodation.find({ classId: cls._id }).sort({ createdAt: 1 });
+
+    res.json({ success: true, accommodations });
+  } catch (error) {
+    console.error('Get accommodations error:', error);
+    res.status(500).json({
+      success: false,
+      message: process.env.NODE_ENV === 'production' ? 'Server error' : error.message
+    });
+  }
+};
+
+// @desc    Create or replace a student's accommodation for a class or one of its quizzes
+// @route   PUT /api/accommodations
+// @access  Private (Teacher only)
+export const saveAccommodation = async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const { classId, studentId, timeMultiplier, extraMinutes, fullscreenExempt, tabSwitchThreshold, note } = req.body;
+    const quizId = req.body.quizId || null;
+
+    const cls = await Class.findById(classId).lean();
+    if (!cls) {
+      return res.status(404).json({
+        success: false,
+        message: 'Class not found'
+      });
+    }
+    if (!ownsClass(cls, req.user)) {
+      return res.status(403).json({
+        success: false,
+        message: 'Not authorized to manage this class'
+      });
+    }
+
+    const student = await User.findOne({ _id: studentId, role: 'student', classIds: cls._id }).select('_id').lean();
+    if (!student) {
+      return res.status(400).json({
+        success: false,
+        message: 'Student is not a member of this class'
+      });
+    }
+
+    if (quizId) {
+      const quiz = await Quiz.findOne({ _id: quizId, classId: cls._id }).select('_id').lean();
+      if (!quiz) {
+        return res.status(400).json({
+          success: false,
+          message: 'Quiz does not belong to this class'
+        });
+      }
+    }
+
+    const accommodation = await Accommodation.findOneAndUpdate(
+      { classId, studentId, quizId },
+      {
+        $set: {
+          timeMultiplier: timeMultiplier ?? 1,
+          extraMinutes: extraMinutes ?? 0,
+          fullscreenExempt: fullscreenExempt ?? false,
+          tabSwitchThreshold: tabSwitchThreshold ?? null,
+          note: note ?? '',
+          createdBy: req.user._id,
+        }
+      },
+      { new: true, upsert: true, runValidators: true, setDefaultsOnInsert: true }
+    );
+
+    res.json({ success: true, accommodation });
+  } catch (error) {
+    console.error('Save accommodation error:', error);
+    res.status(500).json({
+      success: false,
+      message: process.env.NODE_ENV === 'production' ? 'Server error' : error.message
+    });
+  }
+};
+
+// @desc    Remove a student accommodation
+// @route   DELETE /api/accommodations/:id
+// @access  Private (Teacher only)
+export const deleteAccommodation = async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const accommodation = await Accommodation.findById(req.params.id).lean();
+    if (!accommodation) {
+      return res.status(404).json({
+        success: false,
+        message: 'Accommodation not found'
+      });
+    }
+
+    const cls = await Class.findById(accommodation.classId).lean();
+    if (!ownsClass(cls, req.user)) {
+      return res.status(403).json({
+        success: false,
+        message: 'Not authorized to manage this class'
+      });
+    }
+
+    await Accommodation.findByIdAndDelete(accommodation._id);
+
+    res.json({
+      success: true,
+      message: 'Accommodation removed'
+    });
+  } catch (error) {
+    console.error('Delete accommodation error:', error);
+    res.status(500).json({
+      success: false,
+      message: process.env.NODE_ENV === 'production' ? 'Server error' : error.message
+    });
+  }
+};
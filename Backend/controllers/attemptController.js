@@ -2,9 +2,103 @@ import mongoose from 'mongoose';
 import QuizAttempt from '../models/QuizAttempt.js';
 import Quiz from '../models/Quiz.js';
 import Question from '../models/Question.js';
+import Class from '../models/Class.js';
+import User from '../models/User.js';
 import { validationResult } from 'express-validator';
+import { gradeAttempt, gradeQuestion, summarizeResults, statusFor } from '../utils/grading.js';
+import { sanitizeQuestion, canViewAnswerKeys, withoutQuestionResults, ANSWER_KEY_FIELDS } from '../utils/sanitizeQuestion.js';
+import { drawQuestionIds } from '../utils/questionPool.js';
+import { buildOptionOrders, SHUFFLED_OPTION_TYPES } from '../utils/optionOrder.js';
+import { quizWindowError, attemptDeadline, SUBMISSION_GRACE_MS, OFFLINE_REPLAY_WINDOW_MS } from '../utils/quizWindow.js';
+import { applyScorePolicy } from '../utils/scorePolicy.js';
+import { findAccommodation, accommodatedDuration, proctoringSettings } from '../utils/accommodations.js';
+import { MAX_EVENTS_PER_ATTEMPT, EVENT_GRACE_MS, QUESTION_EVENT_TYPES, VIOLATION_EVENT_TYPES } from '../utils/proctoring.js';
+import { assessIntegrity, medianDuration } from '../utils/integrity.js';
+import { MAX_ANSWER_HISTORY, latestAnswerChanges } from '../utils/answerHistory.js';
+import { findSimilarAttempts } from '../utils/similarity.js';
+import { publishToQuiz, subscribeToQuiz, monitorRow, questionNumber, HEARTBEAT_MS } from '../utils/liveEvents.js';
+import { TIMED_ATTEMPT_ACTIONS, UNGRADED_FIELDS } from '../utils/attemptActions.js';
+import { queueCodeGrading } from '../utils/codeGrading.js';
 
-// @desc    Get attempt by quiz and student with detailed info
+// The only fields of an attempt a client sets. Marks, timing, questions and logs all
+// come from the server; the routes reject any other field.
+const pickClientFields = ({ answers, tabSwitches, submitted }) => {
+  const fields = {};
+  if (answers !== undefined) fields.answers = answers;
+  if (tabSwitches !== undefined) fields.tabSwitches = tabSwitches;
+  if (submitted !== undefined) fields.submitted = submitted;
+  return fields;
+};
+
+// Past the deadline plus grace, answers are no longer accepted: saves are rejected, and a
+// late submission is graded on the answers saved in time and flagged. Returns an error or null.
+// Changes replayed from a client's offline outbox that claim to have been captured in time are
+// kept as late answers, as long as they arrive within the replay window. The claim can't be
+// checked, so they are only graded once the teacher accepts them.
+const enforceDeadline = (quiz, attempt, updates, capturedAt) => {
+  if (quiz.mode === 'practice') return null;
+  const deadline = attempt.deadline ?? attemptDeadline(quiz, attempt.startTime, attempt.durationMinutes);
+  const now = Date.now();
+  if (now <= deadline + SUBMISSION_GRACE_MS) return null;
+
+  const isReplay = capturedAt && capturedAt >= attempt.startTime && capturedAt <= deadline + SUBMISSION_GRACE_MS
+    && now <= deadline + OFFLINE_REPLAY_WINDOW_MS;
+  if (!isReplay && !updates.submitted) return 'Time is up for this attempt';
+
+  if (isReplay) {
+    updates.uploadedLate = true;
+    updates.lateAnswersStatus = 'pending';
+    if (updates.answers) updates.lateAnswers = updates.answers;
+  }
+  delete updates.answers;
+  if (updates.submitted) updates.submittedLate = true;
+  return null;
+};
+
+// Answers to practice questions are locked once they have been checked
+const keepCheckedAnswers = (attempt, updates) => {
+  if (!updates.answers || !attempt.checkedQuestionIds?.length) return updates;
+  const saved = attempt.answers instanceof Map ? Object.fromEntries(attempt.answers) : attempt.answers || {};
+  updates.answers = { ...updates.answers };
+  attempt.checkedQuestionIds.forEach(id => {
+    updates.answers[id.toString()] = saved[id.toString()];
+  });
+  return updates;
+};
+
+// An attempt as returned to its student, stamped with the server's clock. Per-question
+// results are left out unless the caller may see the quiz's answer keys.
+const toAttemptResponse = (attempt, showResults = false) => {
+  const responseAttempt = {
+    ...(showResults ? attempt : withoutQuestionResults(attempt)),
+    id: attempt._id.toString(),
+    answers: attempt.answers instanceof Map 
+      ? Object.fromEntries(attempt.answers)
+      : attempt.answers || {}
+  };
+  delete responseAttempt._id;
+  delete responseAttempt.__v;
+  // The logs stay with the teacher
+  delete responseAttempt.proctoringEvents;
+  delete responseAttempt.answerHistory;
+  delete responseAttempt.auditTrail;
+  responseAttempt.serverTime = Date.now();
+  return responseAttempt;
+};
+
+// Tell live monitors about an exam attempt's progress
+const publishAttempt = (attempt) => {
+  if (attempt && !attempt.practice) publishToQuiz(attempt.quizId, 'attempt', monitorRow(attempt));
+};
+
+// Grade submitted answers against the stored questions of an attempt
+const gradeSubmission = async (quiz, questionIds, answers) => {
+  const ids = questionIds && questionIds.length > 0 ? questionIds : quiz.questionIds;
+  const questions = await Question.find({ _id: { $in: ids } }).lean();
+  return gradeAttempt(questions, answers || {}, quiz.totalMarks, quiz.scoringPolicy);
+};
+
+// @desc    Get a student's latest attempt at a quiz with detailed info
 // @route   GET /api/attempts/quiz/:quizId/student/:studentId
 // @access  Private
 export const getAttemptByQuizAndStudent = async (req, res) => {
@@ -24,6 +118,14 @@ export const getAttemptByQuizAndStudent = async (req, res) => {
       });
     }
 
+    // Students can only view their own attempts
+    if (req.user.role === 'student' && studentId !== req.user._id.toString()) {
+      return res.status(403).json({
+        success: false,
+        message: 'Not authorized to view this attempt'
+      });
+    }
+
     // Use aggregation for complete data
     const attempts = await QuizAttempt.aggregate([
       {
@@ -32,6 +134,8 @@ export const getAttemptByQuizAndStudent = async (req, res) => {
           studentId: new mongoose.Types.ObjectId(studentId)
         }
       },
+      { $sort: { attemptNumber: -1 } },
+      { $limit: 1 },
       {
         $lookup: {
           from: 'questions',
@@ -62,7 +166,12 @@ export const getAttemptByQuizAndStudent = async (req, res) => {
             }
           },
           quizTitle: '$quiz.title',
-          totalMarks: '$quiz.totalMarks'
+          totalMarks: '$quiz.totalMarks',
+          answersReleased: '$quiz.answersReleased',
+          // Attempts from before deadlines were stored only have their duration to go by
+          deadline: {
+            $ifNull: ['$deadline', { $add: ['$startTime', { $multiply: ['$quiz.durationMinutes', 60 * 1000] }] }]
+          }
         }
       },
       {
@@ -70,6 +179,9 @@ export const getAttemptByQuizAndStudent = async (req, res) => {
           _id: 0,
           __v: 0,
           quiz: 0,
+          proctoringEvents: 0,
+          answerHistory: 0,
+          auditTrail: 0,
           'questions._id': 0,
           'questions.__v': 0
         }
@@ -91,7 +203,18 @@ export const getAttemptByQuizAndStudent = async (req, res) => {
         : attempt.answers;
     }
 
-    res.json({ success: true, attempt });
+    let responseAttempt = attempt;
+    if (!canViewAnswerKeys(req.user, attempt)) {
+      responseAttempt = withoutQuestionResults(attempt);
+      if (attempt.questions) {
+        responseAttempt.questions = attempt.questions.map(sanitizeQuestion);
+      }
+    }
+
+    // Lets the client correct for its own clock when counting down to the deadline
+    responseAttempt.serverTime = Date.now();
+
+    res.json({ success: true, attempt: responseAttempt });
   } catch (error) {
     console.error('Get attempt by quiz and student error:', error);
     res.status(500).json({ 
@@ -101,6 +224,65 @@ export const getAttemptByQuizAndStudent = async (req, res) => {
   }
 };
 
+// @desc    Get all of a student's attempts at a quiz with their policy-applied result
+// @route   GET /api/attempts/quiz/:quizId/student/:studentId/all
+// @access  Private
+export const getStudentAttempts = async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const { quizId, studentId } = req.params;
+
+    // Students can only view their own attempts
+    if (req.user.role === 'student' && studentId !== req.user._id.toString()) {
+      return res.status(403).json({
+        success: false,
+        message: 'Not authorized to view these attempts'
+      });
+    }
+
+    const quiz = await Quiz.findById(quizId).select('scorePolicy maxAttempts mode answersReleased').lean();
+    if (!quiz) {
+      return res.status(404).json({
+        success: false,
+        message: 'Quiz not found'
+      });
+    }
+
+    const attempts = await QuizAttempt.find({ quizId, studentId })
+      .select('-proctoringEvents -answerHistory -auditTrail')
+      .sort({ attemptNumber: 1 })
+      .lean();
+
+    res.json({
+      success: true,
+      attempts: attempts.map(attempt => {
+        const responseAttempt = {
+          ...(canViewAnswerKeys(req.user, quiz) ? attempt : withoutQuestionResults(attempt)),
+          id: attempt._id.toString()
+        };
+        delete responseAttempt._id;
+        delete responseAttempt.__v;
+        return responseAttempt;
+      }),
+      result: applyScorePolicy(attempts, quiz.scorePolicy),
+      // Practice quizzes can be retried without limit
+      attemptsLeft: quiz.mode === 'practice'
+        ? null
+        : Math.max(0, (quiz.maxAttempts || 1) - attempts.filter(a => a.submitted).length),
+    });
+  } catch (error) {
+    console.error('Get student attempts error:', error);
+    res.status(500).json({
+      success: false,
+      message: process.env.NODE_ENV === 'production' ? 'Server error' : error.message
+    });
+  }
+};
+
 // @desc    Get all attempts for a quiz with student details and analytics
 // @route   GET /api/attempts/quiz/:quizId
 // @access  Private (Teacher only)
@@ -130,6 +312,14 @@ export const getAttemptsByQuiz = async (req, res) => {
       });
     }
 
+    const cls = await Class.findById(quiz.classId).lean();
+    if (!cls || cls.teacherId.toString() !== req.user._id.toString()) {
+      return res.status(403).json({
+        success: false,
+        message: 'Not authorized to view these attempts'
+      });
+    }
+
     // Aggregation pipeline with student details and rankings
     const attempts = await QuizAttempt.aggregate([
       {
@@ -162,7 +352,8 @@ export const getAttemptsByQuiz = async (req, res) => {
               then: { $subtract: ['$endTime', '$startTime'] },
               else: null
             }
-          }
+          },
+          proctoringEventCount: { $size: { $ifNull: ['$proctoringEvents', []] } }
         }
       },
       {
@@ -177,16 +368,33 @@ export const getAttemptsByQuiz = async (req, res) => {
       }
     ]);
 
-    // Add rank to each attempt
+    // Each student's result across their attempts, under the quiz's score policy
+    const attemptsByStudent = new Map();
+    attempts.forEach(attempt => {
+      const key = attempt.studentId.toString();
+      attemptsByStudent.set(key, [...(attemptsByStudent.get(key) || []), attempt]);
+    });
+    const studentResults = new Map(
+      [...attemptsByStudent].map(([key, studentAttempts]) => [key, applyScorePolicy(studentAttempts, quiz.scorePolicy)])
+    );
+
+    // Add rank and integrity risk to each attempt; the proctoring log itself is
+    // loaded per attempt from its events endpoint
+    const cohortMedianMs = medianDuration(attempts.filter(a => !a.practice));
     const attemptsWithRank = attempts
       .filter(a => a.submitted)
-      .map((attempt, index) => ({
-        ...attempt,
-        rank: index + 1,
-        answers: attempt.answers instanceof Map 
-          ? Object.fromEntries(attempt.answers)
-          : attempt.answers || {}
-      }));
+      .map((attempt, index) => {
+        const { proctoringEvents, answerHistory, auditTrail, ...rest } = attempt;
+        return {
+          ...rest,
+          rank: index + 1,
+          studentResult: studentResults.get(attempt.studentId.toString()),
+          integrity: attempt.practice ? null : assessIntegrity(attempt, { cohortMedianMs }),
+          answers: attempt.answers instanceof Map 
+            ? Object.fromEntries(attempt.answers)
+            : attempt.answers || {}
+        };
+      });
 
     // Calculate statistics
     const stats = {
@@ -226,6 +434,45 @@ export const getAttemptsByQuiz = async (req, res) => {
   }
 };
 
+// @desc    Get an attempt's current state, for a client to pick up changes made by a teacher
+// @route   GET /api/attempts/:id
+// @access  Private
+export const getAttempt = async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const attempt = await QuizAttempt.findById(req.params.id)
+      .select('-proctoringEvents -answerHistory -auditTrail')
+      .lean();
+    if (!attempt) {
+      return res.status(404).json({
+        success: false,
+        message: 'Attempt not found'
+      });
+    }
+
+    // Students can only view their own attempts
+    if (req.user.role === 'student' && attempt.studentId.toString() !== req.user._id.toString()) {
+      return res.status(403).json({
+        success: false,
+        message: 'Not authorized to view this attempt'
+      });
+    }
+
+    const quiz = await Quiz.findById(attempt.quizId).select('answersReleased').lean();
+    res.json({ success: true, attempt: toAttemptResponse(attempt, canViewAnswerKeys(req.user, quiz)) });
+  } catch (error) {
+    console.error('Get attempt error:', error);
+    res.status(500).json({
+      success: false,
+      message: process.env.NODE_ENV === 'production' ? 'Server error' : error.message
+    });
+  }
+};
+
 // @desc    Save/Create attempt with validation
 // @route   POST /api/attempts
 // @access  Private
@@ -236,7 +483,11 @@ export const saveAttempt = async (req, res) => {
       return res.status(400).json({ success: false, errors: errors.array() });
     }
 
-    const attemptData = req.body;
+    const attemptData = {
+      quizId: req.body.quizId,
+      studentId: req.body.studentId,
+      ...pickClientFields(req.body)
+    };
 
     // Validate ObjectIds
     if (!mongoose.Types.ObjectId.isValid(attemptData.quizId) || 
@@ -263,49 +514,131 @@ export const saveAttempt = async (req, res) => {
       });
     }
 
-    // Check if attempt already exists
+    // Students may only create attempts for themselves
+    if (req.user.role === 'student' && attemptData.studentId !== req.user._id.toString()) {
+      return res.status(403).json({
+        success: false,
+        message: 'Not authorized to save this attempt'
+      });
+    }
+
+    // Resume the attempt in progress, or start the next one if the student has attempts left
     const existingAttempt = await QuizAttempt.findOne({
       quizId: attemptData.quizId,
-      studentId: attemptData.studentId
-    });
+      studentId: attemptData.studentId,
+      submitted: false
+    }).lean();
+
+    let attemptNumber = null;
+    if (!existingAttempt) {
+      const maxAttempts = quiz.maxAttempts || 1;
+      const submittedCount = await QuizAttempt.countDocuments({
+        quizId: attemptData.quizId,
+        studentId: attemptData.studentId,
+        submitted: true
+      });
+      if (quiz.mode !== 'practice' && submittedCount >= maxAttempts) {
+        return res.status(400).json({
+          success: false,
+          message: maxAttempts === 1
+            ? 'Attempt has already been submitted'
+            : `All ${maxAttempts} attempts at this quiz have been used`
+        });
+      }
+      attemptNumber = submittedCount + 1;
+    }
+
+    // New attempts can only start inside the quiz's window; existing ones run to their deadline
+    if (req.user.role === 'student') {
+      const timingError = existingAttempt
+        ? enforceDeadline(quiz, existingAttempt, attemptData)
+        : quizWindowError(quiz);
+      if (timingError) {
+        return res.status(403).json({
+          success: false,
+          message: timingError
+        });
+      }
+    }
+
+    // The server picks each attempt's questions once: a draw from the quiz's pools, or a shuffle
+    if (existingAttempt) {
+      keepCheckedAnswers(existingAttempt, attemptData);
+    }
+    if (!existingAttempt?.questionIds?.length) {
+      const questionIds = await drawQuestionIds(quiz);
+      if (!questionIds) {
+        return res.status(409).json({
+          success: false,
+          message: 'The question bank no longer has enough questions for this quiz'
+        });
+      }
+      attemptData.questionIds = questionIds;
+
+      if (quiz.shuffleOptions !== false) {
+        const optionQuestions = await Question.find({
+          _id: { $in: questionIds },
+          type: { $in: SHUFFLED_OPTION_TYPES }
+        }).select('type options').lean();
+        attemptData.optionOrders = buildOptionOrders(optionQuestions);
+      }
+    }
+
+    // Grade on submission
+    if (attemptData.submitted) {
+      const questionIds = attemptData.questionIds || existingAttempt.questionIds;
+      const answers = attemptData.answers || existingAttempt?.answers;
+      attemptData.endTime = Date.now();
+      Object.assign(attemptData, await gradeSubmission(quiz, questionIds, answers));
+    }
 
     let attempt;
-    
+    let resumed = Boolean(existingAttempt);
+
     if (existingAttempt) {
-      // Update existing attempt - don't update startTime
-      const updateData = { ...attemptData };
-      delete updateData.startTime; // Never update startTime
-      
       attempt = await QuizAttempt.findByIdAndUpdate(
         existingAttempt._id,
-        { $set: updateData },
+        { $set: attemptData },
         { new: true, runValidators: true }
       ).lean();
     } else {
-      // Create new attempt
+      // Create new attempt; its clock starts now, with any extra time the student is allowed
+      const accommodation = await findAccommodation(quiz, attemptData.studentId);
+      const durationMinutes = accommodatedDuration(quiz, accommodation);
+      const startTime = Date.now();
       const newAttempt = new QuizAttempt({
         ...attemptData,
-        startTime: attemptData.startTime || Date.now(),
+        ...proctoringSettings(quiz, accommodation),
+        attemptNumber,
+        practice: quiz.mode === 'practice',
+        startTime,
+        durationMinutes,
+        // Practice attempts are untimed
+        deadline: quiz.mode === 'practice' ? undefined : attemptDeadline(quiz, startTime, durationMinutes),
         createdAt: new Date()
       });
-      attempt = await newAttempt.save();
-      attempt = attempt.toObject();
+      try {
+        attempt = (await newAttempt.save()).toObject();
+      } catch (error) {
+        // A concurrent start request (a double click or a retry) created this attempt first
+        if (error.code !== 11000) throw error;
+        attempt = await QuizAttempt.findOne({
+          quizId: attemptData.quizId,
+          studentId: attemptData.studentId,
+          attemptNumber,
+          submitted: false
+        }).lean();
+        if (!attempt) throw error;
+        resumed = true;
+      }
     }
 
-    // Transform response
-    const responseAttempt = {
-      ...attempt,
-      id: attempt._id.toString(),
-      answers: attempt.answers instanceof Map 
-        ? Object.fromEntries(attempt.answers)
-        : attempt.answers || {}
-    };
-    delete responseAttempt._id;
-    delete responseAttempt.__v;
+    publishAttempt(attempt);
+    queueCodeGrading(attempt);
 
-    res.status(existingAttempt ? 200 : 201).json({ 
+    res.status(resumed ? 200 : 201).json({ 
       success: true, 
-      attempt: responseAttempt 
+      attempt: toAttemptResponse(attempt, canViewAnswerKeys(req.user, quiz))
     });
   } catch (error) {
     console.error('Save attempt error:', error);
@@ -327,7 +660,9 @@ export const updateAttempt = async (req, res) => {
     }
 
     const { id } = req.params;
-    const updates = req.body;
+    const updates = pickClientFields(req.body);
+    // Set by the client's offline outbox: the change's place in order and when it was made
+    const { sequence, capturedAt } = req.body;
 
     // Validate ObjectId
     if (!mongoose.Types.ObjectId.isValid(id)) {
@@ -337,9 +672,6 @@ export const updateAttempt = async (req, res) => {
       });
     }
 
-    // Don't allow updating startTime
-    delete updates.startTime;
-
     // Check attempt exists
     const existingAttempt = await QuizAttempt.findById(id).lean();
     if (!existingAttempt) {
@@ -349,33 +681,79 @@ export const updateAttempt = async (req, res) => {
       });
     }
 
+    // Students may only update their own attempts
+    if (req.user.role === 'student' && existingAttempt.studentId.toString() !== req.user._id.toString()) {
+      return res.status(403).json({
+        success: false,
+        message: 'Not authorized to update this attempt'
+      });
+    }
+
+    // Replays are idempotent: a change the attempt already has is acknowledged, not applied again
+    if (sequence && sequence <= (existingAttempt.syncSequence || 0)) {
+      return res.json({ success: true, duplicate: true, attempt: toAttemptResponse(existingAttempt) });
+    }
+
+    // Changes captured before a teacher reset the attempt no longer apply to it
+    if (capturedAt && capturedAt < existingAttempt.startTime) {
+      return res.json({ success: true, duplicate: true, attempt: toAttemptResponse(existingAttempt) });
+    }
+
     // Prevent updates to submitted attempts
-    if (existingAttempt.submitted && updates.submitted === false) {
+    if (existingAttempt.submitted) {
       return res.status(400).json({
         success: false,
-        message: 'Cannot unsubmit an already submitted attempt'
+        message: updates.submitted === false
+          ? 'Cannot unsubmit an already submitted attempt'
+          : 'Attempt has already been submitted'
+      });
+    }
+
+    const quiz = await Quiz.findById(existingAttempt.quizId).lean();
+    if (!quiz) {
+      return res.status(404).json({
+        success: false,
+        message: 'Quiz not found'
+      });
+    }
+
+    keepCheckedAnswers(existingAttempt, updates);
+
+    // The deadline never runs past the quiz's closing time
+    const deadlineError = req.user.role === 'student' && enforceDeadline(quiz, existingAttempt, updates, capturedAt);
+    if (deadlineError) {
+      return res.status(403).json({
+        success: false,
+        message: deadlineError
       });
     }
 
-    // Update attempt
-    const attempt = await QuizAttempt.findByIdAndUpdate(
-      id,
-      updates,
+    // Grade on submission, using the latest answers from this request if present
+    if (updates.submitted) {
+      updates.endTime = Date.now();
+      const answers = updates.answers || existingAttempt.answers;
+      Object.assign(updates, await gradeSubmission(quiz, existingAttempt.questionIds, answers));
+    }
+
+    if (sequence) {
+      updates.syncSequence = sequence;
+    }
+
+    // Update attempt; a newer replay that got in first wins
+    const attempt = await QuizAttempt.findOneAndUpdate(
+      sequence ? { _id: id, syncSequence: { $not: { $gte: sequence } } } : { _id: id },
+      { $set: updates },
       { new: true, runValidators: true }
     ).lean();
+    if (!attempt) {
+      const current = await QuizAttempt.findById(id).lean();
+      return res.json({ success: true, duplicate: true, attempt: toAttemptResponse(current) });
+    }
 
-    // Transform response
-    const responseAttempt = {
-      ...attempt,
-      id: attempt._id,
-      answers: attempt.answers instanceof Map 
-        ? Object.fromEntries(attempt.answers)
-        : attempt.answers || {}
-    };
-    delete responseAttempt._id;
-    delete responseAttempt.__v;
+    publishAttempt(attempt);
+    queueCodeGrading(attempt);
 
-    res.json({ success: true, attempt: responseAttempt });
+    res.json({ success: true, attempt: toAttemptResponse(attempt, canViewAnswerKeys(req.user, quiz)) });
   } catch (error) {
     console.error('Update attempt error:', error);
     res.status(500).json({ 
@@ -384,3 +762,851 @@ export const updateAttempt = async (req, res) => {
     });
   }
 };
+
+// @desc    Save individual answer changes of an attempt in progress
+// @route   PATCH /api/attempts/:id/answers
+// @access  Private (Student only)
+export const saveAnswerChanges = async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const { id } = req.params;
+    // Set by the client's offline outbox: the batch's place in order
+    const { sequence, tabSwitches } = req.body;
+
+    const attempt = await QuizAttempt.findById(id)
+      .select('quizId studentId submitted startTime deadline durationMinutes questionIds checkedQuestionIds tabSwitches syncSequence')
+      .lean();
+    if (!attempt) {
+      return res.status(404).json({
+        success: false,
+        message: 'Attempt not found'
+      });
+    }
+
+    if (attempt.studentId.toString() !== req.user._id.toString()) {
+      return res.status(403).json({
+        success: false,
+        message: 'Not authorized to update this attempt'
+      });
+    }
+
+    // Replays are idempotent: a batch the attempt already has is acknowledged, not applied again
+    if (sequence && sequence <= (attempt.syncSequence || 0)) {
+      const current = await QuizAttempt.findById(id).lean();
+      return res.json({ success: true, duplicate: true, attempt: toAttemptResponse(current) });
+    }
+
+    if (attempt.submitted) {
+      return res.status(400).json({
+        success: false,
+        message: 'Attempt has already been submitted'
+      });
+    }
+
+    const attemptQuestionIds = new Set((attempt.questionIds || []).map(qid => qid.toString()));
+    if (req.body.changes.some(change => !attemptQuestionIds.has(change.questionId))) {
+      return res.status(400).json({
+        success: false,
+        message: 'Question is not part of this attempt'
+      });
+    }
+
+    const quiz = await Quiz.findById(attempt.quizId).lean();
+    if (!quiz) {
+      return res.status(404).json({
+        success: false,
+        message: 'Quiz not found'
+      });
+    }
+
+    // Clients can't place changes in the future; the batch counts from its latest change
+    const receivedAt = Date.now();
+    const changes = req.body.changes.map(change => ({
+      questionId: change.questionId,
+      answer: change.answer ?? null,
+      at: Math.min(change.at, receivedAt),
+      receivedAt,
+    }));
+    const updates = {};
+    const deadlineError = enforceDeadline(quiz, attempt, updates, Math.max(...changes.map(change => change.at)));
+    if (deadlineError) {
+      return res.status(403).json({
+        success: false,
+        message: deadlineError
+      });
+    }
+
+    // Checked practice answers stay locked, and changes from before a teacher reset the attempt are dropped
+    const locked = new Set((attempt.checkedQuestionIds || []).map(qid => qid.toString()));
+    const accepted = changes.filter(change => !locked.has(change.questionId) && change.at >= attempt.startTime);
+
+    // Late uploads are held apart from the answers that are graded
+    const set = { ...updates };
+    const answersPath = updates.uploadedLate ? 'lateAnswers' : 'answers';
+    latestAnswerChanges(accepted).forEach(change => {
+      set[`${answersPath}.${change.questionId}`] = change.answer;
+    });
+    if (tabSwitches !== undefined) {
+      set.tabSwitches = Math.max(tabSwitches, attempt.tabSwitches || 0);
+    }
+    if (sequence) {
+      set.syncSequence = sequence;
+    }
+
+    // A newer replay that got in first wins; the history is only appended to while it has room
+    const filter = {
+      _id: id,
+      submitted: false,
+      ...(sequence && { syncSequence: { $not: { $gte: sequence } } })
+    };
+    const options = { new: true, runValidators: true, projection: { proctoringEvents: 0, answerHistory: 0 } };
+    let updated = await QuizAttempt.findOneAndUpdate(
+      { ...filter, [`answerHistory.${MAX_ANSWER_HISTORY - accepted.length}`]: { $exists: false } },
+      { $set: set, $push: { answerHistory: { $each: accepted } } },
+      options
+    ).lean();
+    if (!updated) {
+      updated = await QuizAttempt.findOneAndUpdate(filter, { $set: set }, options).lean();
+    }
+    if (!updated) {
+      const current = await QuizAttempt.findById(id).lean();
+      return res.json({ success: true, duplicate: true, attempt: toAttemptResponse(current) });
+    }
+
+    publishAttempt(updated);
+
+    res.json({ success: true, saved: accepted.length, attempt: toAttemptResponse(updated) });
+  } catch (error) {
+    console.error('Save answer changes error:', error);
+    res.status(500).json({
+      success: false,
+      message: process.env.NODE_ENV === 'production' ? 'Server error' : error.message
+    });
+  }
+};
+
+// @desc    Append a batch of proctoring events to an attempt's log
+// @route   POST /api/attempts/:id/events
+// @access  Private (Student only)
+export const logProctoringEvents = async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const { id } = req.params;
+
+    const attempt = await QuizAttempt.findById(id)
+      .select('quizId studentId practice submitted startTime endTime questionIds')
+      .lean();
+    if (!attempt) {
+      return res.status(404).json({
+        success: false,
+        message: 'Attempt not found'
+      });
+    }
+
+    if (attempt.studentId.toString() !== req.user._id.toString()) {
+      return res.status(403).json({
+        success: false,
+        message: 'Not authorized to update this attempt'
+      });
+    }
+
+    const receivedAt = Date.now();
+    if (attempt.submitted && receivedAt > attempt.endTime + EVENT_GRACE_MS) {
+      return res.status(400).json({
+        success: false,
+        message: 'Attempt has already been submitted'
+      });
+    }
+
+    // Question events must refer to the attempt's own questions
+    const attemptQuestionIds = new Set((attempt.questionIds || []).map(qid => qid.toString()));
+    const strayEvent = req.body.events.find(event =>
+      QUESTION_EVENT_TYPES.includes(event.type) && !attemptQuestionIds.has(event.questionId)
+    );
+    if (strayEvent) {
+      return res.status(400).json({
+        success: false,
+        message: 'Question is not part of this attempt'
+      });
+    }
+
+    // Clients can't place events in the future, and events from before a teacher reset
+    // the attempt no longer apply to it
+    const events = req.body.events
+      .filter(event => event.at >= attempt.startTime)
+      .map(event => ({
+        type: event.type,
+        ...(QUESTION_EVENT_TYPES.includes(event.type) && { questionId: event.questionId }),
+        at: Math.min(event.at, receivedAt),
+        receivedAt,
+      }));
+    if (events.length === 0) {
+      return res.status(201).json({ success: true, logged: 0 });
+    }
+
+    // Only append while the log has room for the whole batch
+    const result = await QuizAttempt.updateOne(
+      { _id: attempt._id, [`proctoringEvents.${MAX_EVENTS_PER_ATTEMPT - events.length}`]: { $exists: false } },
+      { $push: { proctoringEvents: { $each: events } } }
+    );
+    if (result.modifiedCount === 0) {
+      return res.status(409).json({
+        success: false,
+        message: 'The proctoring log of this attempt is full'
+      });
+    }
+
+    // Monitors see violations as they happen and which question the student is on
+    if (!attempt.practice) {
+      const lastView = events.filter(event => event.type === 'question-view').pop();
+      publishToQuiz(attempt.quizId, 'activity', {
+        attemptId: attempt._id.toString(),
+        studentId: attempt.studentId.toString(),
+        violations: events
+          .filter(event => VIOLATION_EVENT_TYPES.includes(event.type))
+          .map(({ type, at }) => ({ type, at })),
+        ...(lastView && { currentQuestion: questionNumber(attempt, lastView.questionId) }),
+      });
+    }
+
+    res.status(201).json({ success: true, logged: events.length });
+  } catch (error) {
+    console.error('Log proctoring events error:', error);
+    res.status(500).json({
+      success: false,
+      message: process.env.NODE_ENV === 'production' ? 'Server error' : error.message
+    });
+  }
+};
+
+// @desc    Get the proctoring timeline of an attempt
+// @route   GET /api/attempts/:id/events
+// @access  Private (Teacher only)
+export const getProctoringEvents = async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const attempt = await QuizAttempt.findById(req.params.id)
+      .select('quizId studentId attemptNumber startTime endTime deadline tabSwitches submitted submittedLate questionIds proctoringEvents answerHistory auditTrail')
+      .populate('studentId', 'name email')
+      .populate('auditTrail.by', 'name')
+      .lean();
+    if (!attempt) {
+      return res.status(404).json({
+        success: false,
+        message: 'Attempt not found'
+      });
+    }
+
+    const quiz = await Quiz.findById(attempt.quizId).select('classId').lean();
+    const cls = quiz && await Class.findById(quiz.classId).lean();
+    if (!cls || cls.teacherId.toString() !== req.user._id.toString()) {
+      return res.status(403).json({
+        success: false,
+        message: 'Not authorized to view this proctoring log'
+      });
+    }
+
+    const { _id, proctoringEvents, answerHistory, auditTrail, studentId: student, ...details } = attempt;
+
+    res.json({
+      success: true,
+      attempt: {
+        ...details,
+        id: _id.toString(),
+        student: student ? { id: student._id.toString(), name: student.name, email: student.email } : null,
+      },
+      events: [...(proctoringEvents || [])].sort((a, b) => a.at - b.at),
+      answerHistory: [...(answerHistory || [])].sort((a, b) => a.at - b.at),
+      auditTrail: (auditTrail || []).map(({ by, ...entry }) => ({
+        ...entry,
+        by: by ? { id: by._id.toString(), name: by.name } : null,
+      })),
+    });
+  } catch (error) {
+    console.error('Get proctoring events error:', error);
+    res.status(500).json({
+      success: false,
+      message: process.env.NODE_ENV === 'production' ? 'Server error' : error.message
+    });
+  }
+};
+
+// @desc    Check one answer of a practice attempt and reveal the correct answer
+// @route   POST /api/attempts/:id/check
+// @access  Private (Student only)
+export const checkPracticeAnswer = async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const { id } = req.params;
+    const { questionId, answer } = req.body;
+
+    const attempt = await QuizAttempt.findById(id).lean();
+    if (!attempt) {
+      return res.status(404).json({
+        success: false,
+        message: 'Attempt not found'
+      });
+    }
+
+    if (attempt.studentId.toString() !== req.user._id.toString()) {
+      return res.status(403).json({
+        success: false,
+        message: 'Not authorized to update this attempt'
+      });
+    }
+
+    if (attempt.submitted) {
+      return res.status(400).json({
+        success: false,
+        message: 'Attempt has already been submitted'
+      });
+    }
+
+    const quiz = await Quiz.findById(attempt.quizId).select('mode scoringPolicy').lean();
+    if (!quiz || quiz.mode !== 'practice') {
+      return res.status(403).json({
+        success: false,
+        message: 'Answers can only be checked on practice quizzes'
+      });
+    }
+
+    if (!attempt.questionIds.some(qid => qid.toString() === questionId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Question is not part of this attempt'
+      });
+    }
+
+    if (attempt.checkedQuestionIds?.some(qid => qid.toString() === questionId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'This answer has already been checked'
+      });
+    }
+
+    const question = await Question.findById(questionId).lean();
+    if (!question) {
+      return res.status(404).json({
+        success: false,
+        message: 'Question not found'
+      });
+    }
+
+    const result = await gradeQuestion(question, answer, quiz.scoringPolicy);
+    if (result.status === 'unanswered') {
+      return res.status(400).json({
+        success: false,
+        message: 'Answer the question before checking it'
+      });
+    }
+
+    // Save the checked answer and lock it for the rest of the attempt
+    await QuizAttempt.updateOne(
+      { _id: attempt._id },
+      {
+        $set: { [`answers.${questionId}`]: answer },
+        $addToSet: { checkedQuestionIds: question._id }
+      }
+    );
+
+    const answerKey = Object.fromEntries(
+      ANSWER_KEY_FIELDS.filter(field => question[field] !== undefined).map(field => [field, question[field]])
+    );
+
+    res.json({ success: true, result, answerKey });
+  } catch (error) {
+    console.error('Check practice answer error:', error);
+    res.status(500).json({
+      success: false,
+      message: process.env.NODE_ENV === 'production' ? 'Server error' : error.message
+    });
+  }
+};
+
+// @desc    Get long-answer responses of a quiz for manual grading
+// @route   GET /api/attempts/quiz/:quizId/grading-queue
+// @access  Private (Teacher only)
+export const getGradingQueue = async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const { quizId } = req.params;
+
+    const quiz = await Quiz.findById(quizId).lean();
+    if (!quiz) {
+      return res.status(404).json({
+        success: false,
+        message: 'Quiz not found'
+      });
+    }
+
+    const cls = await Class.findById(quiz.classId).lean();
+    if (!cls || cls.teacherId.toString() !== req.user._id.toString()) {
+      return res.status(403).json({
+        success: false,
+        message: 'Not authorized to grade this quiz'
+      });
+    }
+
+    const attempts = await QuizAttempt.find({ quizId, submitted: true })
+      .populate('studentId', 'name email')
+      .sort({ endTime: 1 })
+      .lean();
+
+    // Pool quizzes have no fixed list, so include every question any student drew
+    const questionIds = [...quiz.questionIds, ...attempts.flatMap(attempt => attempt.questionIds || [])];
+    const questions = await Question.find({
+      _id: { $in: questionIds },
+      type: 'long-answer'
+    }).lean();
+
+    // One entry per answered long-answer question, oldest submissions first
+    const responses = [];
+    attempts.forEach(attempt => {
+      const answers = attempt.answers instanceof Map
+        ? Object.fromEntries(attempt.answers)
+        : attempt.answers || {};
+
+      questions.forEach(question => {
+        const questionId = question._id.toString();
+        const result = (attempt.questionResults || []).find(r => r.questionId.toString() === questionId);
+        if (!result || result.status === 'unanswered') return;
+
+        responses.push({
+          attemptId: attempt._id.toString(),
+          student: {
+            id: attempt.studentId?._id?.toString(),
+            name: attempt.studentId?.name || 'Unknown Student',
+            email: attempt.studentId?.email,
+          },
+          questionId,
+          answer: answers[questionId],
+          status: result.status,
+          awardedMarks: result.awardedMarks,
+          maxMarks: result.maxMarks,
+          feedback: result.feedback || '',
+          gradedAt: result.gradedAt || null,
+        });
+      });
+    });
+
+    res.json({
+      success: true,
+      questions: questions.map(q => ({
+        id: q._id.toString(),
+        text: q.text,
+        imageUrl: q.imageUrl,
+        marks: q.marks,
+        modelAnswer: q.modelAnswer,
+      })),
+      responses,
+      pendingCount: responses.filter(r => r.status === 'pending').length,
+    });
+  } catch (error) {
+    console.error('Get grading queue error:', error);
+    res.status(500).json({
+      success: false,
+      message: process.env.NODE_ENV === 'production' ? 'Server error' : error.message
+    });
+  }
+};
+
+// @desc    Find pairs of submitted attempts with suspiciously similar answers or timing
+// @route   GET /api/attempts/quiz/:quizId/similarity
+// @access  Private (Teacher only)
+export const getSimilarityReport = async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const { quizId } = req.params;
+
+    const quiz = await Quiz.findById(quizId).lean();
+    if (!quiz) {
+      return res.status(404).json({
+        success: false,
+        message: 'Quiz not found'
+      });
+    }
+
+    const cls = await Class.findById(quiz.classId).lean();
+    if (!cls || cls.teacherId.toString() !== req.user._id.toString()) {
+      return res.status(403).json({
+        success: false,
+        message: 'Not authorized to review this quiz'
+      });
+    }
+
+    // Practice runs are open-book, so only exam attempts are compared
+    const attempts = await QuizAttempt.find({ quizId, submitted: true, practice: { $ne: true } })
+      .select('studentId attemptNumber answers questionIds questionResults achievedMarks startTime endTime')
+      .populate('studentId', 'name email')
+      .lean();
+
+    const questionIds = [...quiz.questionIds, ...attempts.flatMap(attempt => attempt.questionIds || [])];
+    const questions = await Question.find({ _id: { $in: questionIds } }).select('type').lean();
+    const questionTypes = new Map(questions.map(q => [q._id.toString(), q.type]));
+
+    const comparable = attempts
+      .filter(attempt => attempt.studentId)
+      .map(attempt => ({ ...attempt, studentId: attempt.studentId._id, student: attempt.studentId }));
+
+    const pairs = findSimilarAttempts(comparable, questionTypes).map(({ attempts: pair, ...comparison }) => ({
+      ...comparison,
+      attempts: pair.map(attempt => ({
+        id: attempt._id.toString(),
+        attemptNumber: attempt.attemptNumber || 1,
+        student: { id: attempt.student._id.toString(), name: attempt.student.name, email: attempt.student.email },
+        achievedMarks: attempt.achievedMarks,
+        startTime: attempt.startTime,
+        endTime: attempt.endTime,
+      })),
+    }));
+
+    res.json({
+      success: true,
+      comparedAttempts: comparable.length,
+      pairs,
+    });
+  } catch (error) {
+    console.error('Get similarity report error:', error);
+    res.status(500).json({
+      success: false,
+      message: process.env.NODE_ENV === 'production' ? 'Server error' : error.message
+    });
+  }
+};
+
+// @desc    Stream live progress of a quiz's exam attempts (Server-Sent Events)
+// @route   GET /api/attempts/quiz/:quizId/live
+// @access  Private (Teacher only)
+export const streamQuizMonitor = async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const { quizId } = req.params;
+
+    const quiz = await Quiz.findById(quizId).lean();
+    if (!quiz) {
+      return res.status(404).json({
+        success: false,
+        message: 'Quiz not found'
+      });
+    }
+
+    const cls = await Class.findById(quiz.classId).lean();
+    if (!cls || cls.teacherId.toString() !== req.user._id.toString()) {
+      return res.status(403).json({
+        success: false,
+        message: 'Not authorized to monitor this quiz'
+      });
+    }
+
+    const students = await User.find({ classIds: quiz.classId, role: 'student' })
+      .select('name email')
+      .sort({ name: 1 })
+      .lean();
+    const attempts = await QuizAttempt.find({ quizId, practice: { $ne: true } })
+      .select('quizId studentId attemptNumber startTime deadline answers questionIds tabSwitches submitted endTime submittedLate proctoringEvents')
+      .sort({ attemptNumber: 1 })
+      .lean();
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no', // Stop proxies from holding back events
+    });
+    const send = (event, data) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify({ ...data, serverTime: Date.now() })}\n\n`);
+    };
+
+    // Everything so far, then each change as it happens
+    send('snapshot', {
+      students: students.map(student => ({ id: student._id.toString(), name: student.name, email: student.email })),
+      attempts: attempts.map(monitorRow),
+    });
+    const unsubscribe = subscribeToQuiz(quizId, ({ event, data }) => send(event, data));
+    const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_MS);
+
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  } catch (error) {
+    console.error('Stream quiz monitor error:', error);
+    if (res.headersSent) {
+      return res.end();
+    }
+    res.status(500).json({
+      success: false,
+      message: process.env.NODE_ENV === 'production' ? 'Server error' : error.message
+    });
+  }
+};
+
+// @desc    Extend, force-submit, reopen or reset a student's exam attempt
+// @route   POST /api/attempts/:id/actions
+// @access  Private (Teacher only)
+export const applyAttemptAction = async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const { action, minutes, reason } = req.body;
+
+    const attempt = await QuizAttempt.findById(req.params.id)
+      .select('-proctoringEvents -answerHistory -auditTrail')
+      .lean();
+    if (!attempt) {
+      return res.status(404).json({
+        success: false,
+        message: 'Attempt not found'
+      });
+    }
+
+    const quiz = await Quiz.findById(attempt.quizId).lean();
+    if (!quiz) {
+      return res.status(404).json({
+        success: false,
+        message: 'Quiz not found'
+      });
+    }
+
+    const cls = await Class.findById(quiz.classId).lean();
+    if (!cls || cls.teacherId.toString() !== req.user._id.toString()) {
+      return res.status(403).json({
+        success: false,
+        message: 'Not authorized to manage this attempt'
+      });
+    }
+
+    if (attempt.practice) {
+      return res.status(400).json({
+        success: false,
+        message: 'Practice attempts have no time limit to manage'
+      });
+    }
+
+    const actionError = (message) => res.status(400).json({ success: false, message });
+    const now = Date.now();
+    const previousDeadline = attempt.deadline ?? attemptDeadline(quiz, attempt.startTime, attempt.durationMinutes);
+
+    // Time given by a teacher may run past the quiz's closing time
+    let updates;
+    switch (action) {
+      case 'extend-time':
+        if (attempt.submitted) return actionError('Only an attempt in progress can be given more time');
+        // Time lost after the deadline passed is counted from now
+        updates = { deadline: Math.max(previousDeadline, now) + minutes * 60 * 1000 };
+        break;
+      case 'force-submit':
+        if (attempt.submitted) return actionError('Attempt has already been submitted');
+        updates = {
+          submitted: true,
+          endTime: now,
+          ...(await gradeSubmission(quiz, attempt.questionIds, attempt.answers)),
+        };
+        break;
+      case 'reopen':
+      case 'reset': {
+        if (!attempt.submitted && action === 'reopen') return actionError('Only a submitted attempt can be reopened');
+        // A submitted attempt only comes back while the student hasn't moved on to another
+        if (attempt.submitted) {
+          const otherAttempt = await QuizAttempt.exists({
+            quizId: attempt.quizId,
+            studentId: attempt.studentId,
+            _id: { $ne: attempt._id },
+            $or: [{ submitted: false }, { attemptNumber: { $gt: attempt.attemptNumber || 1 } }],
+          });
+          if (otherAttempt) return actionError('The student has started a newer attempt at this quiz');
+        }
+        // Reopening keeps the answers; a reset starts the attempt over with its full time and
+        // drops its logs, so nothing from before counts toward the new attempt's integrity
+        const durationMinutes = attempt.durationMinutes ?? quiz.durationMinutes;
+        updates = action === 'reopen'
+          ? { ...UNGRADED_FIELDS, deadline: now + minutes * 60 * 1000 }
+          : {
+            ...UNGRADED_FIELDS,
+            answers: {},
+            tabSwitches: 0,
+            answerHistory: [],
+            proctoringEvents: [],
+            startTime: now,
+            deadline: now + durationMinutes * 60 * 1000,
+          };
+        break;
+      }
+      case 'accept-late-answers':
+      case 'reject-late-answers': {
+        if (!attempt.submitted) return actionError('Late answers can be reviewed once the attempt is submitted');
+        if (attempt.lateAnswersStatus !== 'pending') return actionError('This attempt has no late answers to review');
+        if (action === 'reject-late-answers') {
+          updates = { lateAnswersStatus: 'rejected' };
+          break;
+        }
+        // Accepted answers count as if they had arrived in time
+        const answers = { ...(attempt.answers || {}), ...(attempt.lateAnswers || {}) };
+        updates = {
+          answers,
+          submittedLate: false,
+          lateAnswersStatus: 'accepted',
+          ...(await gradeSubmission(quiz, attempt.questionIds, answers)),
+        };
+        break;
+      }
+    }
+
+    const entry = {
+      action,
+      by: req.user._id,
+      at: now,
+      ...(TIMED_ATTEMPT_ACTIONS.includes(action) && { minutes }),
+      ...(reason?.trim() && { reason: reason.trim() }),
+      previousDeadline,
+      deadline: updates.deadline ?? previousDeadline,
+    };
+
+    // Only applies if the attempt wasn't submitted or reopened in the meantime
+    const updated = await QuizAttempt.findOneAndUpdate(
+      { _id: attempt._id, submitted: attempt.submitted },
+      { $set: updates, $push: { auditTrail: entry }, $inc: { controlVersion: 1 } },
+      { new: true, runValidators: true, projection: { proctoringEvents: 0, answerHistory: 0, auditTrail: 0 } }
+    ).lean();
+    if (!updated) {
+      return res.status(409).json({
+        success: false,
+        message: 'The attempt changed while the action was being applied. Please try again.'
+      });
+    }
+
+    publishAttempt(updated);
+    queueCodeGrading(updated);
+
+    res.json({
+      success: true,
+      attempt: toAttemptResponse(updated, true),
+      auditEntry: { ...entry, by: { id: req.user._id.toString(), name: req.user.name } },
+    });
+  } catch (error) {
+    console.error('Apply attempt action error:', error);
+    res.status(500).json({
+      success: false,
+      message: process.env.NODE_ENV === 'production' ? 'Server error' : error.message
+    });
+  }
+};
+
+// @desc    Manually grade long-answer responses of an attempt
+// @route   PUT /api/attempts/:id/grades
+// @access  Private (Teacher only)
+export const gradeAttemptResponses = async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const attempt = await QuizAttempt.findById(req.params.id);
+    if (!attempt) {
+      return res.status(404).json({
+        success: false,
+        message: 'Attempt not found'
+      });
+    }
+
+    const quiz = await Quiz.findById(attempt.quizId).lean();
+    if (!quiz) {
+      return res.status(404).json({
+        success: false,
+        message: 'Quiz not found'
+      });
+    }
+
+    const cls = await Class.findById(quiz.classId).lean();
+    if (!cls || cls.teacherId.toString() !== req.user._id.toString()) {
+      return res.status(403).json({
+        success: false,
+        message: 'Not authorized to grade this attempt'
+      });
+    }
+
+    if (!attempt.submitted) {
+      return res.status(400).json({
+        success: false,
+        message: 'Only submitted attempts can be graded'
+      });
+    }
+
+    const manualIds = new Set(
+      (await Question.find({ _id: { $in: attempt.questionIds }, type: 'long-answer' }).select('_id').lean())
+        .map(q => q._id.toString())
+    );
+
+    for (const grade of req.body.grades) {
+      const result = attempt.questionResults.find(r => r.questionId.toString() === grade.questionId);
+      if (!result || !manualIds.has(grade.questionId) || result.status === 'unanswered') {
+        return res.status(400).json({
+          success: false,
+          message: 'Only answered long-answer questions can be graded manually'
+        });
+      }
+      if (grade.awardedMarks > result.maxMarks) {
+        return res.status(400).json({
+          success: false,
+          message: `Marks cannot exceed ${result.maxMarks} for this question`
+        });
+      }
+
+      result.awardedMarks = grade.awardedMarks;
+      result.credit = grade.awardedMarks;
+      result.penalty = 0;
+      result.status = statusFor(grade.awardedMarks, result.maxMarks);
+      result.feedback = grade.feedback?.trim() || undefined;
+      result.gradedBy = req.user._id;
+      result.gradedAt = new Date();
+    }
+
+    Object.assign(attempt, summarizeResults(attempt.questionResults, quiz.totalMarks));
+    await attempt.save();
+
+    const responseAttempt = attempt.toJSON();
+    responseAttempt.answers = attempt.answers instanceof Map
+      ? Object.fromEntries(attempt.answers)
+      : attempt.answers || {};
+
+    res.json({ success: true, attempt: responseAttempt });
+  } catch (error) {
+    console.error('Grade attempt error:', error);
+    res.status(500).json({
+      success: false,
+      message: process.env.NODE_ENV === 'production' ? 'Server error' : error.message
+    });
+  }
+};
@@ -3,6 +3,7 @@ import Class from '../models/Class.js';
 import User from '../models/User.js';
 import Quiz from '../models/Quiz.js';
 import QuizAttempt from '../models/QuizAttempt.js';
+import Accommodation from '../models/Accommodation.js';
 import { validationResult } from 'express-validator';
 
 // @desc    Get classes by teacher with student count
@@ -206,7 +207,8 @@ export const getStudentsByClass = async (req, res) => {
             {
               $match: {
                 $expr: { $eq: ['$studentId', '$$studentId'] },
-                submitted: true
+                submitted: true,
+                practice: { $ne: true }
               }
             },
             {
@@ -439,6 +441,9 @@ export const deleteClass = async (req, res) => {
     // Delete quizzes
     await Quiz.deleteMany({ classId: id }, { session });
 
+    // Delete the class's student accommodations
+    await Accommodation.deleteMany({ classId: id }, { session });
+
     // Remove class from all users' classIds
     await User.updateMany(
       { classIds: id },
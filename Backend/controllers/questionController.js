@@ -1,7 +1,11 @@
 import mongoose from 'mongoose';
 import Question from '../models/Question.js';
 import Quiz from '../models/Quiz.js';
+import QuizAttempt from '../models/QuizAttempt.js';
 import { validationResult } from 'express-validator';
+import { sanitizeQuestion, canViewAnswerKeys } from '../utils/sanitizeQuestion.js';
+import { isPoolQuiz } from '../utils/questionPool.js';
+import { normalizeTags, normalizeOutcomes, MAX_SEARCH_RESULTS } from '../utils/questionLabels.js';
 
 // @desc    Get questions by author with usage stats
 // @route   GET /api/questions/author/:authorId
@@ -110,9 +114,62 @@ export const getQuestionsBySubject = async (req, res) => {
   }
 };
 
+// @desc    Search the teacher's question bank across subjects
+// @route   GET /api/questions/search
+// @access  Private (Teacher only)
+export const searchQuestions = async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const { q, subject, difficulty, type, marks, tags, learningOutcome } = req.query;
+    const authorId = req.user._id;
+
+    // Every filter narrows the search; a question must carry all the requested tags
+    const matchConditions = { authorId };
+    if (q?.trim()) matchConditions.$text = { $search: q.trim() };
+    if (subject) matchConditions.subject = subject;
+    if (difficulty) matchConditions.difficulty = difficulty;
+    if (type) matchConditions.type = type;
+    if (marks) matchConditions.marks = marks;
+    const requiredTags = normalizeTags(tags ? tags.split(',') : []);
+    if (requiredTags.length > 0) matchConditions.tags = { $all: requiredTags };
+    if (learningOutcome) matchConditions.learningOutcomes = learningOutcome;
+
+    // Best matches first when searching text, otherwise newest first
+    const sort = matchConditions.$text ? { score: { $meta: 'textScore' }, createdAt: -1 } : { createdAt: -1 };
+    const [questions, total, allTags, allOutcomes] = await Promise.all([
+      Question.find(matchConditions, matchConditions.$text ? { score: { $meta: 'textScore' } } : {})
+        .sort(sort)
+        .limit(MAX_SEARCH_RESULTS)
+        .lean(),
+      Question.countDocuments(matchConditions),
+      // The labels in use across the whole bank, to filter by
+      Question.distinct('tags', { authorId }),
+      Question.distinct('learningOutcomes', { authorId }),
+    ]);
+
+    res.json({
+      success: true,
+      questions: questions.map(({ _id, __v, score, ...question }) => ({ ...question, id: _id.toString() })),
+      total,
+      tags: allTags.sort(),
+      learningOutcomes: allOutcomes.sort(),
+    });
+  } catch (error) {
+    console.error('Search questions error:', error);
+    res.status(500).json({
+      success: false,
+      message: process.env.NODE_ENV === 'production' ? 'Server error' : error.message
+    });
+  }
+};
+
 // @desc    Get questions by IDs (batch) with validation
 // @route   POST /api/questions/batch
-// @access  Private
+// @access  Private (students must pass the quizId the questions belong to)
 export const getQuestionsByIds = async (req, res) => {
   try {
     const errors = validationResult(req);
@@ -120,7 +177,7 @@ export const getQuestionsByIds = async (req, res) => {
       return res.status(400).json({ success: false, errors: errors.array() });
     }
 
-    const { questionIds } = req.body;
+    const { questionIds, quizId } = req.body;
 
     // Validate array is not empty
     if (!Array.isArray(questionIds) || questionIds.length === 0) {
@@ -140,6 +197,36 @@ export const getQuestionsByIds = async (req, res) => {
       });
     }
 
+    // Students can only load questions of a quiz in one of their classes
+    let quiz = null;
+    if (req.user.role === 'student') {
+      quiz = quizId ? await Quiz.findById(quizId).lean() : null;
+      if (!quiz) {
+        return res.status(404).json({
+          success: false,
+          message: 'Quiz not found'
+        });
+      }
+
+      const isEnrolled = req.user.classIds.some(id => id.toString() === quiz.classId.toString());
+
+      // Pool quizzes only expose the questions drawn for the student's own attempts
+      let allowedIds = quiz.questionIds;
+      if (isPoolQuiz(quiz)) {
+        const attempts = await QuizAttempt.find({ quizId: quiz._id, studentId: req.user._id })
+          .select('questionIds')
+          .lean();
+        allowedIds = attempts.flatMap(attempt => attempt.questionIds);
+      }
+      const quizQuestionIds = new Set(allowedIds.map(id => id.toString()));
+      if (!isEnrolled || !questionIds.every(id => quizQuestionIds.has(id))) {
+        return res.status(403).json({
+          success: false,
+          message: 'Not authorized to view these questions'
+        });
+      }
+    }
+
     // Convert to ObjectIds
     const objectIds = questionIds.map(id => new mongoose.Types.ObjectId(id));
 
@@ -161,7 +248,10 @@ export const getQuestionsByIds = async (req, res) => {
       }
     ]);
 
-    res.json({ success: true, questions });
+    res.json({
+      success: true,
+      questions: canViewAnswerKeys(req.user, quiz) ? questions : questions.map(sanitizeQuestion)
+    });
   } catch (error) {
     console.error('Get questions by IDs error:', error);
     res.status(500).json({ 
@@ -187,13 +277,59 @@ export const createQuestion = async (req, res) => {
     }
 
     const questionData = req.body;
+    questionData.tags = normalizeTags(questionData.tags);
+    questionData.learningOutcomes = normalizeOutcomes(questionData.learningOutcomes);
 
     // Additional validation based on question type
+    if (questionData.type !== 'numeric') {
+      questionData.numericAnswer = null;
+    }
+    if (questionData.type !== 'fill-in-the-blank') {
+      questionData.acceptedAnswers = [];
+    }
+    if (questionData.type !== 'cloze') {
+      questionData.blanks = [];
+    }
+    if (questionData.type !== 'sequence') {
+      questionData.sequenceItems = [];
+    }
+    if (questionData.type !== 'matching') {
+      questionData.matchPairs = [];
+    }
+    if (questionData.type !== 'long-answer') {
+      questionData.modelAnswer = null;
+    }
+    if (questionData.type !== 'code') {
+      questionData.codeConfig = null;
+    }
+
     if (questionData.type === 'fill-in-the-blank') {
       // Remove options for fill-in-the-blank
       questionData.options = [];
       questionData.correctAnswerIndex = null;
       questionData.correctAnswerIndices = [];
+    } else if (questionData.type === 'cloze') {
+      // Each blank carries its own answers; the question is worth their total
+      questionData.options = [];
+      questionData.correctAnswerIndex = null;
+      questionData.correctAnswerIndices = [];
+      questionData.correctAnswerText = null;
+      questionData.marks = questionData.blanks.reduce((sum, blank) => sum + blank.marks, 0);
+    } else if (['sequence', 'matching', 'long-answer', 'code'].includes(questionData.type)) {
+      // Graded against the item order, the pairs, test cases, or by a teacher
+      questionData.options = [];
+      questionData.correctAnswerIndex = null;
+      questionData.correctAnswerIndices = [];
+      questionData.correctAnswerText = null;
+      if (questionData.type === 'code') {
+        questionData.marks = questionData.codeConfig.testCases.reduce((sum, t) => sum + t.marks, 0);
+      }
+    } else if (questionData.type === 'numeric') {
+      // Numeric questions are graded only against numericAnswer
+      questionData.options = [];
+      questionData.correctAnswerIndex = null;
+      questionData.correctAnswerIndices = [];
+      questionData.correctAnswerText = null;
     } else if (questionData.type === 'single-correct') {
       // Ensure correct answer fields are clean
       questionData.correctAnswerText = null;
@@ -214,6 +350,48 @@ export const createQuestion = async (req, res) => {
   }
 };
 
+// @desc    Replace a question's tags and learning outcomes
+// @route   PATCH /api/questions/:id/labels
+// @access  Private (Teacher only)
+export const updateQuestionLabels = async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const question = await Question.findById(req.params.id).select('authorId');
+    if (!question) {
+      return res.status(404).json({
+        success: false,
+        message: 'Question not found'
+      });
+    }
+
+    if (question.authorId.toString() !== req.user._id.toString()) {
+      return res.status(403).json({
+        success: false,
+        message: 'Not authorized to label this question'
+      });
+    }
+
+    // Labels don't affect grading, so they can change even once the question is in use
+    const updates = {};
+    if (req.body.tags !== undefined) updates.tags = normalizeTags(req.body.tags);
+    if (req.body.learningOutcomes !== undefined) updates.learningOutcomes = normalizeOutcomes(req.body.learningOutcomes);
+
+    const updated = await Question.findByIdAndUpdate(req.params.id, { $set: updates }, { new: true, runValidators: true });
+
+    res.json({ success: true, question: updated });
+  } catch (error) {
+    console.error('Update question labels error:', error);
+    res.status(500).json({
+      success: false,
+      message: process.env.NODE_ENV === 'production' ? 'Server error' : error.message
+    });
+  }
+};
+
 // @desc    Delete question with validation
 // @route   DELETE /api/questions/:id
 // @access  Private (Teacher only)
@@ -2,7 +2,10 @@ import mongoose from 'mongoose';
 import Quiz from '../models/Quiz.js';
 import Question from '../models/Question.js';
 import QuizAttempt from '../models/QuizAttempt.js';
+import Accommodation from '../models/Accommodation.js';
 import { validationResult } from 'express-validator';
+import { sanitizeQuestion, canViewAnswerKeys } from '../utils/sanitizeQuestion.js';
+import { isPoolQuiz, findShortRules, totalMarksForRules } from '../utils/questionPool.js';
 
 // @desc    Get quizzes by class with attempt statistics
 // @route   GET /api/quizzes/class/:classId
@@ -45,7 +48,8 @@ export const getQuizzesByClass = async (req, res) => {
             {
               $match: {
                 $expr: { $eq: ['$quizId', '$$quizId'] },
-                submitted: true
+                submitted: true,
+                practice: { $ne: true }
               }
             },
             {
@@ -209,7 +213,12 @@ export const getQuiz = async (req, res) => {
       });
     }
 
-    res.json({ success: true, quiz: quizzes[0] });
+    const quiz = quizzes[0];
+    if (!canViewAnswerKeys(req.user, quiz)) {
+      quiz.questions = quiz.questions.map(sanitizeQuestion);
+    }
+
+    res.json({ success: true, quiz });
   } catch (error) {
     console.error('Get quiz by ID error:', error);
     res.status(500).json({ 
@@ -236,18 +245,38 @@ export const createQuiz = async (req, res) => {
     }
 
     const quizData = req.body;
+    let questions = [];
+
+    if (isPoolQuiz(quizData)) {
+      // Questions are drawn per attempt, so the bank must be able to fill every rule
+      quizData.questionIds = [];
+      const shortRules = await findShortRules(quizData, session);
+      if (shortRules.length > 0) {
+        await session.abortTransaction();
+        const [rule] = shortRules;
+        return res.status(400).json({
+          success: false,
+          message: `Only ${rule.available} ${rule.difficulty} question(s) worth ${rule.marks} mark(s) in ${rule.subject}, but ${rule.count} requested`
+        });
+      }
 
-    // Validate that all questions exist
-    const questions = await Question.find({ 
-      _id: { $in: quizData.questionIds } 
-    }).session(session);
+      // Every draw carries the same marks, so the total is fixed by the rules
+      quizData.totalMarks = totalMarksForRules(quizData.questionRules);
+    } else {
+      delete quizData.questionRules;
 
-    if (questions.length !== quizData.questionIds.length) {
-      await session.abortTransaction();
-      return res.status(400).json({
-        success: false,
-        message: 'One or more questions not found'
-      });
+      // Validate that all questions exist
+      questions = await Question.find({ 
+        _id: { $in: quizData.questionIds } 
+      }).session(session);
+
+      if (questions.length !== quizData.questionIds.length) {
+        await session.abortTransaction();
+        return res.status(400).json({
+          success: false,
+          message: 'One or more questions not found'
+        });
+      }
     }
 
     // Validate class exists
@@ -260,6 +289,11 @@ export const createQuiz = async (req, res) => {
       });
     }
 
+    // Scheduling a quiz releases it; students can start it once the window opens
+    if (quizData.opensAt) {
+      quizData.isReleased = true;
+    }
+
     // Calculate total marks if not provided
     if (!quizData.totalMarks) {
       quizData.totalMarks = questions.reduce((sum, q) => sum + q.marks, 0);
@@ -364,6 +398,62 @@ export const updateQuiz = async (req, res) => {
       }
     }
 
+    // Either end of the schedule may be changed alone, so check it against the stored one
+    const opensAt = updates.opensAt !== undefined ? updates.opensAt : quiz.opensAt;
+    const closesAt = updates.closesAt !== undefined ? updates.closesAt : quiz.closesAt;
+    if (opensAt && closesAt && new Date(closesAt) <= new Date(opensAt)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Closing time must be after the opening time'
+      });
+    }
+
+    // Scheduling a quiz releases it, as on create
+    if (updates.opensAt) {
+      updates.isReleased = true;
+    }
+
+    // Total marks always follow from the questions. A new question list or set of rules
+    // replaces the quiz's questions as a whole and is checked as on create.
+    delete updates.totalMarks;
+    if (updates.questionIds !== undefined || updates.questionRules !== undefined) {
+      const next = {
+        createdBy: quiz.createdBy,
+        questionIds: updates.questionIds || [],
+        questionRules: updates.questionRules || [],
+      };
+
+      if (isPoolQuiz(next)) {
+        const shortRules = await findShortRules(next);
+        if (shortRules.length > 0) {
+          const [rule] = shortRules;
+          return res.status(400).json({
+            success: false,
+            message: `Only ${rule.available} ${rule.difficulty} question(s) worth ${rule.marks} mark(s) in ${rule.subject}, but ${rule.count} requested`
+          });
+        }
+        updates.questionIds = [];
+        updates.totalMarks = totalMarksForRules(next.questionRules);
+      } else {
+        if (next.questionIds.length === 0) {
+          return res.status(400).json({
+            success: false,
+            message: 'Quiz must have at least one question'
+          });
+        }
+
+        const questions = await Question.find({ _id: { $in: next.questionIds } });
+        if (questions.length !== next.questionIds.length) {
+          return res.status(400).json({
+            success: false,
+            message: 'One or more questions not found'
+          });
+        }
+        updates.questionRules = [];
+        updates.totalMarks = questions.reduce((sum, q) => sum + q.marks, 0);
+      }
+    }
+
     // Update quiz
     const updatedQuiz = await Quiz.findByIdAndUpdate(
       id,
@@ -470,6 +560,9 @@ export const deleteQuiz = async (req, res) => {
     // Delete all attempts for this quiz
     await QuizAttempt.deleteMany({ quizId: id }, { session });
 
+    // Delete accommodations set for this quiz only
+    await Accommodation.deleteMany({ quizId: id }, { session });
+
     // Delete the quiz
     await Quiz.findByIdAndDelete(id, { session });
 
@@ -0,0 +1,71 @@
+import mongoose from 'mongoose';
+
+// Approved adjustments for one student, either class-wide (quizId null) or for a
+// single quiz; a quiz-specific accommodation replaces the class-wide one
+const accommodationSchema = new mongoose.Schema({
+  classId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Class',
+    required: true,
+  },
+  studentId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  quizId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Quiz',
+    default: null,
+  },
+  // The quiz duration is multiplied first, then extraMinutes are added
+  timeMultiplier: {
+    type: Number,
+    default: 1,
+    min: 1,
+    max: 4,
+  },
+  extraMinutes: {
+    type: Number,
+    default: 0,
+    min: 0,
+    max: 600,
+  },
+  fullscreenExempt: {
+    type: Boolean,
+    default: false,
+  },
+  // Replaces the quiz's tab switch limit when set
+  tabSwitchThreshold: {
+    type: Number,
+    default: null,
+    min: 1,
+  },
+  note: {
+    type: String,
+    trim: true,
+    maxlength: 500,
+    default: '',
+  },
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: (doc, ret) => {
+      ret.id = ret._id.toString();
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    }
+  }
+});
+
+accommodationSchema.index({ classId: 1, studentId: 1, quizId: 1 }, { unique: true }); // One per student per class or quiz
+
+const Accommodation = mongoose.model('Accommodation', accommodationSchema);
+
+export default Accommodation;
@@ -11,10 +11,124 @@ const questionOptionSchema = new mongoose.Schema({
   },
 }, { _id: false });
 
+// One accepted answer for a fill-in-the-blank question
+const acceptedAnswerSchema = new mongoose.Schema({
+  text: {
+    type: String, // The answer itself, or the pattern in 'regex' mode
+    required: true,
+    trim: true,
+  },
+  // 'exact' ignores case, 'regex' must match the whole answer, 'fuzzy'
+  // allows up to maxDistance single-character edits
+  mode: {
+    type: String,
+    enum: ['exact', 'case-sensitive', 'regex', 'fuzzy'],
+    default: 'exact',
+  },
+  maxDistance: {
+    type: Number,
+    default: 1,
+    min: 0,
+    max: 5,
+  },
+}, { _id: false });
+
+// One `___` placeholder of a cloze question, in the order it appears in the text
+const clozeBlankSchema = new mongoose.Schema({
+  acceptedAnswers: {
+    type: [acceptedAnswerSchema],
+    validate: [answers => answers.length > 0, 'Each blank needs at least one accepted answer'],
+  },
+  marks: {
+    type: Number,
+    required: true,
+    min: 1,
+  },
+}, { _id: false });
+
+// One correct pairing of a matching question
+const matchPairSchema = new mongoose.Schema({
+  left: {
+    type: String,
+    required: true,
+    trim: true,
+  },
+  right: {
+    type: String,
+    required: true,
+    trim: true,
+  },
+}, { _id: false });
+
+// A test case for code questions; input is a JSON array of arguments
+const codeTestCaseSchema = new mongoose.Schema({
+  input: {
+    type: String,
+    required: true,
+  },
+  expectedOutput: {
+    type: String, // JSON value the function must return
+    required: true,
+  },
+  marks: {
+    type: Number,
+    required: true,
+    min: 1,
+  },
+  // Hidden tests are only run on submission; students can run the rest while answering
+  hidden: {
+    type: Boolean,
+    default: true,
+  },
+}, { _id: false });
+
+const codeConfigSchema = new mongoose.Schema({
+  functionName: {
+    type: String,
+    required: true,
+    trim: true,
+  },
+  starterCode: {
+    type: String,
+    default: '',
+  },
+  testCases: [codeTestCaseSchema],
+  timeLimitMs: {
+    type: Number, // Per test case
+    default: 1000,
+    min: 100,
+    max: 5000,
+  },
+}, { _id: false });
+
+// Answer key for numeric questions
+const numericAnswerSchema = new mongoose.Schema({
+  value: {
+    type: Number,
+    required: true,
+  },
+  tolerance: {
+    type: Number,
+    default: 0,
+    min: 0,
+  },
+  // 'absolute' tolerance is in the answer's units, 'relative' is a percentage of value
+  toleranceType: {
+    type: String,
+    enum: ['absolute', 'relative'],
+    default: 'absolute',
+  },
+  // Accepted spellings of the unit; when empty the unit is not checked
+  units: [{
+    type: String,
+    trim: true,
+  }],
+}, { _id: false });
+
 const questionSchema = new mongoose.Schema({
   type: {
     type: String,
-    enum: ['single-correct', 'multiple-correct', 'fill-in-the-blank'],
+    enum: ['single-correct', 'multiple-correct', 'fill-in-the-blank', 'numeric', 'cloze', 'sequence', 'matching', 'long-answer', 'code'],
     required: true,
   },
   text: {
@@ -35,9 +149,35 @@ const questionSchema = new mongoose.Schema({
     type: Number,
   }],
   correctAnswerText: {
-    type: String,
+    type: String, // Primary answer, shown to students once answers are released
+    default: null,
+  },
+  acceptedAnswers: [acceptedAnswerSchema], // For FillInTheBlank; correctAnswerText alone is used when empty
+  numericAnswer: {
+    type: numericAnswerSchema,
     default: null,
   },
+  blanks: [clozeBlankSchema], // For cloze; marks is the sum of the blank marks
+  sequenceItems: [{
+    type: String, // For sequence, in their correct order
+    trim: true,
+  }],
+  matchPairs: [matchPairSchema], // For matching
+  codeConfig: {
+    type: codeConfigSchema, // For code; marks is the sum of the test case marks
+    default: null,
+  },
+  modelAnswer: {
+    type: String, // For long-answer; guidance for graders, never shown to students before release
+    default: null,
+  },
+  // 'exact' only awards marks for the full order, 'adjacent-pairs' gives
+  // partial credit for each neighbouring pair placed correctly
+  sequenceGrading: {
+    type: String,
+    enum: ['exact', 'adjacent-pairs'],
+    default: 'exact',
+  },
   difficulty: {
     type: String,
     enum: ['Easy', 'Medium', 'Hard'],
@@ -57,6 +197,16 @@ const questionSchema = new mongoose.Schema({
     required: true,
     min: 1,
   },
+  // Lower-case keywords for finding the question in the bank
+  tags: {
+    type: [String],
+    default: [],
+  },
+  // What answering the question shows a student can do
+  learningOutcomes: {
+    type: [String],
+    default: [],
+  },
 }, {
   timestamps: true,
   toJSON: {
@@ -75,6 +225,7 @@ questionSchema.index({ subject: 1, authorId: 1 }); // Subject filtering per auth
 questionSchema.index({ authorId: 1, subject: 1, difficulty: 1 }); // Multi-field filtering
 questionSchema.index({ difficulty: 1, marks: 1 }); // Difficulty-based queries
 questionSchema.index({ type: 1, subject: 1 }); // Question type filtering
+questionSchema.index({ authorId: 1, tags: 1 }); // Tag filtering per author
 questionSchema.index({ text: 'text' }); // Full-text search on question text
 
 const Question = mongoose.model('Question', questionSchema);
@@ -1,5 +1,29 @@
 import mongoose from 'mongoose';
 
+// Draw `count` questions of one subject, difficulty and mark value from the author's bank
+const questionRuleSchema = new mongoose.Schema({
+  subject: {
+    type: String,
+    required: true,
+    trim: true,
+  },
+  difficulty: {
+    type: String,
+    enum: ['Easy', 'Medium', 'Hard'],
+    required: true,
+  },
+  count: {
+    type: Number,
+    required: true,
+    min: 1,
+  },
+  marks: {
+    type: Number,
+    required: true,
+    min: 1,
+  },
+}, { _id: false });
+
 const quizSchema = new mongoose.Schema({
   title: {
     type: String,
@@ -16,6 +40,11 @@ const quizSchema = new mongoose.Schema({
     ref: 'Question',
     required: true,
   }],
+  // When set, each attempt draws its own questions and questionIds stays empty
+  questionRules: {
+    type: [questionRuleSchema],
+    default: undefined,
+  },
   durationMinutes: {
     type: Number,
     required: true,
@@ -40,6 +69,38 @@ const quizSchema = new mongoose.Schema({
     type: String,
     required: true,
   },
+  // Practice quizzes are untimed and unproctored, reveal each answer once it is
+  // checked, allow unlimited retries and stay out of the gradebook
+  mode: {
+    type: String,
+    enum: ['exam', 'practice'],
+    default: 'exam',
+  },
+  // Attempts each student may submit; results across them follow scorePolicy
+  maxAttempts: {
+    type: Number,
+    default: 1,
+    min: 1,
+  },
+  scorePolicy: {
+    type: String,
+    enum: ['best', 'latest', 'average'],
+    default: 'best',
+  },
+  // Optional schedule: attempts can only be started and submitted in [opensAt, closesAt)
+  opensAt: {
+    type: Date,
+    default: null,
+  },
+  closesAt: {
+    type: Date,
+    default: null,
+  },
+  // Show single- and multiple-correct options in a different order to each student
+  shuffleOptions: {
+    type: Boolean,
+    default: true,
+  },
   isReleased: {
     type: Boolean,
     default: false,
@@ -48,6 +109,20 @@ const quizSchema = new mongoose.Schema({
     type: Boolean,
     default: false,
   },
+  scoringPolicy: {
+    // How partially correct multiple-correct answers are credited
+    multipleCorrect: {
+      type: String,
+      enum: ['all-or-nothing', 'proportional', 'zero-on-wrong'],
+      default: 'all-or-nothing',
+    },
+    // Marks deducted per wrong option chosen (single- and multiple-correct)
+    negativeMarkPerWrong: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+  },
 }, {
   timestamps: true,
   toJSON: {
@@ -1,4 +1,145 @@
 import mongoose from 'mongoose';
+import { PROCTORING_EVENT_TYPES } from '../utils/proctoring.js';
+import { ATTEMPT_ACTIONS } from '../utils/attemptActions.js';
+
+// Per-question grading breakdown recorded on submission
+const questionResultSchema = new mongoose.Schema({
+  questionId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Question',
+    required: true,
+  },
+  status: {
+    type: String,
+    // 'pending' answers wait for a teacher to grade them manually, or for the code grading queue
+    enum: ['correct', 'partial', 'incorrect', 'unanswered', 'pending'],
+    required: true,
+  },
+  awardedMarks: {
+    type: Number,
+    required: true,
+  },
+  maxMarks: {
+    type: Number,
+    required: true,
+  },
+  credit: {
+    type: Number,
+    default: 0,
+  },
+  penalty: {
+    type: Number,
+    default: 0,
+  },
+  // Option counts for multiple-correct questions
+  correctSelected: Number,
+  wrongSelected: Number,
+  totalCorrect: Number,
+  // Neighbouring pairs for sequence questions
+  correctPairs: Number,
+  totalPairs: Number,
+  // Per-blank correctness for cloze questions
+  blankResults: {
+    type: [Boolean],
+    default: undefined,
+  },
+  // Per-test outcome for code questions, in test case order
+  testResults: {
+    type: [{
+      _id: false,
+      passed: Boolean,
+      hidden: Boolean,
+      marks: Number,
+      output: String,
+      error: String,
+    }],
+    default: undefined,
+  },
+  // Manual grading of long-answer questions
+  feedback: {
+    type: String,
+    default: undefined,
+  },
+  gradedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+  },
+  gradedAt: Date,
+  // Per-pair correctness for matching questions, in left-item order
+  pairResults: {
+    type: [Boolean],
+    default: undefined,
+  },
+}, { _id: false });
+
+// One entry of an attempt's append-only proctoring log
+const proctoringEventSchema = new mongoose.Schema({
+  type: {
+    type: String,
+    enum: PROCTORING_EVENT_TYPES,
+    required: true,
+  },
+  // For question-view and answer-change events
+  questionId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Question',
+  },
+  // Client time, corrected to the server clock
+  at: {
+    type: Number,
+    required: true,
+  },
+  receivedAt: {
+    type: Number,
+    required: true,
+  },
+}, { _id: false });
+
+// One saved change to an answer, kept for analytics of how answers evolved
+const answerChangeSchema = new mongoose.Schema({
+  questionId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Question',
+    required: true,
+  },
+  answer: {
+    type: mongoose.Schema.Types.Mixed,
+    default: null, // null when the answer was cleared
+  },
+  // Client time, corrected to the server clock
+  at: {
+    type: Number,
+    required: true,
+  },
+  receivedAt: {
+    type: Number,
+    required: true,
+  },
+}, { _id: false });
+
+// One action a teacher took on the attempt
+const auditEntrySchema = new mongoose.Schema({
+  action: {
+    type: String,
+    enum: ATTEMPT_ACTIONS,
+    required: true,
+  },
+  by: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  at: {
+    type: Number,
+    required: true,
+  },
+  // Time given by extend-time and reopen
+  minutes: Number,
+  reason: String,
+  // The attempt's deadline before and after the action
+  previousDeadline: Number,
+  deadline: Number,
+}, { _id: false });
 
 const quizAttemptSchema = new mongoose.Schema({
   quizId: {
@@ -11,11 +152,24 @@ const quizAttemptSchema = new mongoose.Schema({
     ref: 'User',
     required: true,
   },
+  // 1 for a student's first attempt at the quiz, 2 for their first retake, ...
+  attemptNumber: {
+    type: Number,
+    default: 1,
+    min: 1,
+  },
+  // Copied from the quiz's mode when the attempt starts; practice attempts are
+  // left out of class statistics
+  practice: {
+    type: Boolean,
+    default: false,
+  },
   answers: {
     type: Map,
-    of: mongoose.Schema.Types.Mixed, // Can be Number, [Number], or String
+    of: mongoose.Schema.Types.Mixed, // Can be Number, [Number], String (text or code), [String] (cloze, sequence, matching) or { value, unit } (numeric)
     default: {},
   },
+  // score and achievedMarks are set by the grading engine on submission
   score: {
     type: Number,
     default: 0,
@@ -27,10 +181,26 @@ const quizAttemptSchema = new mongoose.Schema({
     default: 0,
     min: 0,
   },
+  // Set by the server when the attempt is created
   startTime: {
     type: Number,
     required: true,
   },
+  // Server time (ms) when the attempt's time runs out
+  deadline: {
+    type: Number,
+  },
+  // The student's limits for this attempt, including any accommodation in place when it started
+  durationMinutes: {
+    type: Number,
+  },
+  tabSwitchThreshold: {
+    type: Number,
+  },
+  fullscreenRequired: {
+    type: Boolean,
+    default: true,
+  },
   endTime: {
     type: Number,
     default: null,
@@ -39,14 +209,84 @@ const quizAttemptSchema = new mongoose.Schema({
     type: Number,
     default: 0,
   },
+  // Only appended to, through the attempt's answers endpoint; cleared when a teacher resets the attempt
+  answerHistory: {
+    type: [answerChangeSchema],
+    default: [],
+  },
+  // Only appended to, through the attempt's events endpoint; cleared when a teacher resets the attempt
+  proctoringEvents: {
+    type: [proctoringEventSchema],
+    default: [],
+  },
   submitted: {
     type: Boolean,
     default: false,
   },
+  // Submitted after the deadline plus grace; only answers saved in time were graded
+  submittedLate: {
+    type: Boolean,
+    default: false,
+  },
+  // Changes queued on the student's device while offline arrived after the deadline,
+  // claiming to have been captured before it. They are held in lateAnswers, out of
+  // grading, until a teacher accepts or rejects them.
+  uploadedLate: {
+    type: Boolean,
+    default: false,
+  },
+  lateAnswers: {
+    type: Map,
+    of: mongoose.Schema.Types.Mixed,
+    default: {},
+  },
+  lateAnswersStatus: {
+    type: String,
+    enum: ['pending', 'accepted', 'rejected'],
+    default: null,
+  },
+  // Sequence number of the latest change applied from the client's outbox;
+  // replays at or below it are acknowledged without being applied again
+  syncSequence: {
+    type: Number,
+    default: 0,
+  },
+  // Only ever appended to, through the attempt's actions endpoint
+  auditTrail: {
+    type: [auditEntrySchema],
+    default: [],
+  },
+  // Bumped by every teacher action, so the student's client knows to pick up the change
+  controlVersion: {
+    type: Number,
+    default: 0,
+  },
   questionIds: [{
     type: mongoose.Schema.Types.ObjectId,
     ref: 'Question',
   }],
+  // questionId -> canonical option indices in the order this student sees them.
+  // Answers still hold canonical indices.
+  optionOrders: {
+    type: mongoose.Schema.Types.Mixed,
+    default: undefined,
+  },
+  // Practice questions whose answer has been checked and revealed; their answers are locked
+  checkedQuestionIds: {
+    type: [{
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Question',
+    }],
+    default: undefined,
+  },
+  questionResults: [questionResultSchema],
+  // 'pending' until every long-answer response has been graded and every code
+  // answer has been tested; score and achievedMarks only count graded questions until then
+  gradingStatus: {
+    type: String,
+    enum: ['complete', 'pending'],
+    default: 'complete',
+  },
 }, {
   timestamps: true,
   toJSON: {
@@ -60,7 +300,7 @@ const quizAttemptSchema = new mongoose.Schema({
 });
 
 // Comprehensive indexes for performance
-quizAttemptSchema.index({ quizId: 1, studentId: 1 }, { unique: true }); // One attempt per student per quiz
+quizAttemptSchema.index({ quizId: 1, studentId: 1, attemptNumber: 1 }, { unique: true }); // Numbered attempts per student per quiz
 quizAttemptSchema.index({ studentId: 1, submitted: 1, createdAt: -1 }); // Student's attempts
 quizAttemptSchema.index({ quizId: 1, submitted: 1, score: -1 }); // Quiz leaderboard
 quizAttemptSchema.index({ quizId: 1, createdAt: -1 }); // Recent attempts for quiz
@@ -0,0 +1,56 @@
+import express from 'express';
+import { body, param } from 'express-validator';
+import {
+  getAccommodationsByClass,
+  saveAccommodation,
+  deleteAccommodation,
+} from '../controllers/accommodationController.js';
+import { authenticate, authorizeRoles } from '../middleware/auth.js';
+
+const router = express.Router();
+
+// Validation rules
+const classIdValidation = [
+  param('classId').isMongoId().withMessage('Invalid class ID format'),
+];
+
+const saveAccommodationValidation = [
+  body('classId')
+    .notEmpty().withMessage('Class ID is required')
+    .isMongoId().withMessage('Invalid class ID format'),
+  body('studentId')
+    .notEmpty().withMessage('Student ID is required')
+    .isMongoId().withMessage('Invalid student ID format'),
+  body('quizId')
+    .optional({ values: 'null' })
+    .isMongoId().withMessage('Invalid quiz ID format'),
+  body('timeMultiplier')
+    .optional()
+    .isFloat({ min: 1, max: 4 }).withMessage('Time multiplier must be between 1 and 4')
+    .toFloat(),
+  body('extraMinutes')
+    .optional()
+    .isInt({ min: 0, max: 600 }).withMessage('Extra minutes must be between 0 and 600')
+    .toInt(),
+  body('fullscreenExempt')
+    .optional()
+    .isBoolean().withMessage('fullscreenExempt must be a boolean'),
+  body('tabSwitchThreshold')
+    .optional({ values: 'null' })
+    .isInt({ min: 1, max: 100 }).withMessage('Tab switch limit must be between 1 and 100')
+    .toInt(),
+  body('note')
+    .optional()
+    .isString().withMessage('Note must be text')
+    .isLength({ max: 500 }).withMessage('Note must be 500 characters or less'),
+];
+
+const idValidation = [
+  param('id').isMongoId().withMessage('Invalid accommodation ID format'),
+];
+
+router.get('/class/:classId', authenticate, authorizeRoles('teacher'), classIdValidation, getAccommodationsByClass);
+router.put('/', authenticate, authorizeRoles('teacher'), saveAccommodationValidation, saveAccommodation);
+router.delete('/:id', authenticate, authorizeRoles('teacher'), idValidation, deleteAccommodation);
+
+export default router;
@@ -1,17 +1,43 @@
 import express from 'express';
 import { body, param } from 'express-validator';
+import { PROCTORING_EVENT_TYPES, MAX_EVENTS_PER_BATCH } from '../utils/proctoring.js';
+import { MAX_ANSWER_CHANGES_PER_BATCH } from '../utils/answerHistory.js';
+import { ATTEMPT_ACTIONS, TIMED_ATTEMPT_ACTIONS, MAX_ACTION_MINUTES } from '../utils/attemptActions.js';
 import {
   getAttemptByQuizAndStudent,
+  getStudentAttempts,
   getAttemptsByQuiz,
+  getAttempt,
   saveAttempt,
   updateAttempt,
+  saveAnswerChanges,
+  checkPracticeAnswer,
+  logProctoringEvents,
+  getProctoringEvents,
+  getGradingQueue,
+  getSimilarityReport,
+  streamQuizMonitor,
+  applyAttemptAction,
+  gradeAttemptResponses,
 } from '../controllers/attemptController.js';
 import { authenticate, authorizeRoles } from '../middleware/auth.js';
 
 const router = express.Router();
 
+// Fields a client may send with an attempt; anything else is rejected rather than stored
+const CLIENT_ATTEMPT_FIELDS = ['answers', 'tabSwitches', 'submitted'];
+
+const onlyFields = (allowed) => (value) => {
+  const unknown = Object.keys(value || {}).filter(key => !allowed.includes(key));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown field(s): ${unknown.join(', ')}`);
+  }
+  return true;
+};
+
 // Validation middleware
 const saveAttemptValidation = [
+  body().custom(onlyFields(['quizId', 'studentId', ...CLIENT_ATTEMPT_FIELDS])),
   body('quizId')
     .notEmpty().withMessage('Quiz ID is required')
     .isMongoId().withMessage('Invalid quiz ID format'),
@@ -24,31 +50,92 @@ const saveAttemptValidation = [
   body('tabSwitches')
     .optional()
     .isInt({ min: 0 }).withMessage('Tab switch count must be a non-negative number'),
-  body('score')
-    .optional()
-    .isNumeric().withMessage('Score must be a number'),
-  body('startTime')
+  body('submitted')
     .optional()
-    .isNumeric().withMessage('Start time must be a number'),
+    .custom(value => typeof value === 'boolean').withMessage('Submitted must be a boolean'),
 ];
 
 const updateAttemptValidation = [
   param('id').isMongoId().withMessage('Invalid attempt ID format'),
+  // Outbox replays also carry their sequence and capture time
+  body().custom(onlyFields([...CLIENT_ATTEMPT_FIELDS, 'sequence', 'capturedAt'])),
   body('answers')
     .optional()
     .isObject().withMessage('Answers must be an object'),
   body('tabSwitches')
     .optional()
     .isInt({ min: 0 }).withMessage('Tab switch count must be a non-negative number'),
-  body('score')
+  body('submitted')
     .optional()
-    .isNumeric().withMessage('Score must be a number'),
-  body('endTime')
+    .custom(value => typeof value === 'boolean').withMessage('Submitted must be a boolean'),
+  body('sequence')
     .optional()
-    .isNumeric().withMessage('End time must be a number'),
-  body('submitted')
+    .isInt({ min: 1 }).withMessage('Sequence must be a positive number')
+    .toInt(),
+  body('capturedAt')
+    .optional()
+    .isInt({ min: 0 }).withMessage('Capture time must be a timestamp')
+    .toInt(),
+];
+
+const saveAnswerChangesValidation = [
+  param('id').isMongoId().withMessage('Invalid attempt ID format'),
+  body('changes')
+    .isArray({ min: 1, max: MAX_ANSWER_CHANGES_PER_BATCH }).withMessage(`Send between 1 and ${MAX_ANSWER_CHANGES_PER_BATCH} answer changes`),
+  body('changes.*.questionId')
+    .isMongoId().withMessage('Invalid question ID format'),
+  body('changes.*.at')
+    .isInt({ min: 0 }).withMessage('Change time must be a timestamp')
+    .toInt(),
+  body('tabSwitches')
+    .optional()
+    .isInt({ min: 0 }).withMessage('Tab switch count must be a non-negative number')
+    .toInt(),
+  body('sequence')
+    .optional()
+    .isInt({ min: 1 }).withMessage('Sequence must be a positive number')
+    .toInt(),
+];
+
+const checkPracticeAnswerValidation = [
+  param('id').isMongoId().withMessage('Invalid attempt ID format'),
+  body('questionId')
+    .notEmpty().withMessage('Question ID is required')
+    .isMongoId().withMessage('Invalid question ID format'),
+  body('answer')
+    .exists().withMessage('Answer is required'),
+];
+
+const logProctoringEventsValidation = [
+  param('id').isMongoId().withMessage('Invalid attempt ID format'),
+  body('events')
+    .isArray({ min: 1, max: MAX_EVENTS_PER_BATCH }).withMessage(`Send between 1 and ${MAX_EVENTS_PER_BATCH} events`),
+  body('events.*.type')
+    .isIn(PROCTORING_EVENT_TYPES).withMessage('Unknown proctoring event type'),
+  body('events.*.questionId')
+    .optional()
+    .isMongoId().withMessage('Invalid question ID format'),
+  body('events.*.at')
+    .isInt({ min: 0 }).withMessage('Event time must be a timestamp')
+    .toInt(),
+];
+
+const attemptActionValidation = [
+  param('id').isMongoId().withMessage('Invalid attempt ID format'),
+  body('action')
+    .isIn(ATTEMPT_ACTIONS).withMessage('Unknown attempt action'),
+  body('minutes')
+    .if(body('action').isIn(TIMED_ATTEMPT_ACTIONS))
+    .isInt({ min: 1, max: MAX_ACTION_MINUTES }).withMessage(`Minutes must be between 1 and ${MAX_ACTION_MINUTES}`)
+    .toInt(),
+  body('reason')
     .optional()
-    .isBoolean().withMessage('Submitted must be a boolean'),
+    .isString().withMessage('Reason must be text')
+    .isLength({ max: 500 }).withMessage('Reason must be 500 characters or less'),
+];
+
+const attemptIdValidation = [
+  param('id').isMongoId().withMessage('Invalid attempt ID format'),
 ];
 
 const getAttemptByQuizAndStudentValidation = [
@@ -60,10 +147,36 @@ const getAttemptsByQuizValidation = [
   param('quizId').isMongoId().withMessage('Invalid quiz ID format'),
 ];
 
+const gradeAttemptValidation = [
+  param('id').isMongoId().withMessage('Invalid attempt ID format'),
+  body('grades')
+    .isArray({ min: 1 }).withMessage('At least one grade is required'),
+  body('grades.*.questionId')
+    .isMongoId().withMessage('Invalid question ID format'),
+  body('grades.*.awardedMarks')
+    .isFloat({ min: 0 }).withMessage('Marks must be zero or more')
+    .toFloat(),
+  body('grades.*.feedback')
+    .optional()
+    .isString().withMessage('Feedback must be text')
+    .isLength({ max: 5000 }).withMessage('Feedback must be 5000 characters or less'),
+];
+
 // Routes
 router.get('/quiz/:quizId/student/:studentId', authenticate, getAttemptByQuizAndStudentValidation, getAttemptByQuizAndStudent);
+router.get('/quiz/:quizId/student/:studentId/all', authenticate, getAttemptByQuizAndStudentValidation, getStudentAttempts);
+router.get('/quiz/:quizId/grading-queue', authenticate, authorizeRoles('teacher'), getAttemptsByQuizValidation, getGradingQueue);
+router.get('/quiz/:quizId/live', authenticate, authorizeRoles('teacher'), getAttemptsByQuizValidation, streamQuizMonitor);
+router.get('/quiz/:quizId/similarity', authenticate, authorizeRoles('teacher'), getAttemptsByQuizValidation, getSimilarityReport);
 router.get('/quiz/:quizId', authenticate, authorizeRoles('teacher'), getAttemptsByQuizValidation, getAttemptsByQuiz);
 router.post('/', authenticate, saveAttemptValidation, saveAttempt);
+router.patch('/:id/answers', authenticate, authorizeRoles('student'), saveAnswerChangesValidation, saveAnswerChanges);
+router.post('/:id/events', authenticate, authorizeRoles('student'), logProctoringEventsValidation, logProctoringEvents);
+router.get('/:id/events', authenticate, authorizeRoles('teacher'), attemptIdValidation, getProctoringEvents);
+router.post('/:id/actions', authenticate, authorizeRoles('teacher'), attemptActionValidation, applyAttemptAction);
+router.post('/:id/check', authenticate, authorizeRoles('student'), checkPracticeAnswerValidation, checkPracticeAnswer);
+router.put('/:id/grades', authenticate, authorizeRoles('teacher'), gradeAttemptValidation, gradeAttemptResponses);
+router.get('/:id', authenticate, attemptIdValidation, getAttempt);
 router.put('/:id', authenticate, updateAttemptValidation, updateAttempt);
 
 export default router;
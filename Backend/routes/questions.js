@@ -1,27 +1,67 @@
 import express from 'express';
-import { body, param } from 'express-validator';
+import { body, param, query } from 'express-validator';
 import {
   getQuestionsByAuthor,
   getQuestionsBySubject,
+  searchQuestions,
   getQuestionsByIds,
   createQuestion,
+  updateQuestionLabels,
   deleteQuestion,
 } from '../controllers/questionController.js';
 import { authenticate, authorizeRoles } from '../middleware/auth.js';
+import { MATCH_MODES, MAX_PATTERN_LENGTH, MAX_FUZZY_DISTANCE, isValidAnswerPattern } from '../utils/answerMatching.js';
+import { MAX_CLOZE_BLANKS, countClozeBlanks } from '../utils/cloze.js';
+import { MAX_TIME_LIMIT_MS } from '../utils/codeRunner.js';
+import { MAX_LABELS, MAX_TAG_LENGTH, MAX_OUTCOME_LENGTH, isLabelList } from '../utils/questionLabels.js';
+
+const QUESTION_TYPES = ['single-correct', 'multiple-correct', 'fill-in-the-blank', 'numeric', 'cloze', 'sequence', 'matching', 'long-answer', 'code'];
+const DIFFICULTIES = ['Easy', 'Medium', 'Hard'];
+
+// Tags and learning outcomes, when creating a question or relabelling it
+const labelValidation = [
+  body('tags')
+    .optional()
+    .isArray({ max: MAX_LABELS }).withMessage(`At most ${MAX_LABELS} tags are allowed`)
+    .custom(isLabelList(MAX_TAG_LENGTH)),
+  body('learningOutcomes')
+    .optional()
+    .isArray({ max: MAX_LABELS }).withMessage(`At most ${MAX_LABELS} learning outcomes are allowed`)
+    .custom(isLabelList(MAX_OUTCOME_LENGTH)),
+];
 
 const router = express.Router();
 
+// Shared checks for a list of accepted answers; label prefixes error messages
+const validateAcceptedAnswers = (answers, label) => {
+  answers.forEach((answer, index) => {
+    if (typeof answer?.text !== 'string' || !answer.text.trim() || answer.text.length > 500) {
+      throw new Error(`${label} ${index + 1} must have 1-500 characters of text`);
+    }
+    if (answer.mode !== undefined && !MATCH_MODES.includes(answer.mode)) {
+      throw new Error(`${label} ${index + 1} has an invalid match mode`);
+    }
+    if (answer.mode === 'regex' && !isValidAnswerPattern(answer.text)) {
+      throw new Error(`${label} ${index + 1} is not a valid pattern (max ${MAX_PATTERN_LENGTH} characters, no lookarounds or backreferences)`);
+    }
+    if (answer.maxDistance !== undefined &&
+        !(Number.isInteger(answer.maxDistance) && answer.maxDistance >= 0 && answer.maxDistance <= MAX_FUZZY_DISTANCE)) {
+      throw new Error(`${label} ${index + 1} must allow 0-${MAX_FUZZY_DISTANCE} typos`);
+    }
+  });
+};
+
 // Validation middleware
 const createQuestionValidation = [
   body('type')
-    .isIn(['single-correct', 'multiple-correct', 'fill-in-the-blank'])
+    .isIn(QUESTION_TYPES)
     .withMessage('Invalid question type'),
   body('text')
     .trim()
     .notEmpty().withMessage('Question text is required')
     .isLength({ min: 5, max: 2000 }).withMessage('Question text must be 5-2000 characters'),
   body('difficulty')
-    .isIn(['Easy', 'Medium', 'Hard'])
+    .isIn(DIFFICULTIES)
     .withMessage('Invalid difficulty level'),
   body('authorId')
     .notEmpty().withMessage('Author ID is required')
@@ -72,6 +112,153 @@ const createQuestionValidation = [
     .trim()
     .notEmpty().withMessage('Correct answer text is required for fill-in-the-blank questions')
     .isLength({ min: 1, max: 500 }).withMessage('Correct answer text must be 1-500 characters'),
+  body('acceptedAnswers')
+    .if(body('type').equals('fill-in-the-blank'))
+    .optional()
+    .isArray({ max: 20 }).withMessage('At most 20 accepted answers are allowed')
+    .custom((answers) => {
+      validateAcceptedAnswers(answers, 'Accepted answer');
+      return true;
+    }),
+  body('blanks')
+    .if(body('type').equals('cloze'))
+    .isArray({ min: 1, max: MAX_CLOZE_BLANKS }).withMessage(`Cloze questions need 1-${MAX_CLOZE_BLANKS} blanks`)
+    .custom((blanks, { req }) => {
+      if (countClozeBlanks(req.body.text) !== blanks.length) {
+        throw new Error('The number of ___ placeholders in the text must match the number of blanks');
+      }
+      blanks.forEach((blank, index) => {
+        if (!Number.isInteger(blank?.marks) || blank.marks < 1) {
+          throw new Error(`Blank ${index + 1} must be worth at least 1 mark`);
+        }
+        if (!Array.isArray(blank.acceptedAnswers) || blank.acceptedAnswers.length === 0 || blank.acceptedAnswers.length > 20) {
+          throw new Error(`Blank ${index + 1} needs 1-20 accepted answers`);
+        }
+        validateAcceptedAnswers(blank.acceptedAnswers, `Blank ${index + 1} answer`);
+      });
+      return true;
+    }),
+  body('sequenceItems')
+    .if(body('type').equals('sequence'))
+    .isArray({ min: 2, max: 20 }).withMessage('Sequence questions need 2-20 items')
+    .custom((items) => {
+      if (!items.every(item => typeof item === 'string' && item.trim().length > 0 && item.length <= 500)) {
+        throw new Error('All sequence items must have 1-500 characters of text');
+      }
+      if (new Set(items.map(item => item.trim())).size !== items.length) {
+        throw new Error('Sequence items must be unique');
+      }
+      return true;
+    }),
+  body('sequenceGrading')
+    .if(body('type').equals('sequence'))
+    .optional()
+    .isIn(['exact', 'adjacent-pairs']).withMessage('Sequence grading must be exact or adjacent-pairs'),
+  body('matchPairs')
+    .if(body('type').equals('matching'))
+    .isArray({ min: 2, max: 20 }).withMessage('Matching questions need 2-20 pairs')
+    .custom((pairs) => {
+      const isText = (value) => typeof value === 'string' && value.trim().length > 0 && value.length <= 500;
+      if (!pairs.every(pair => isText(pair?.left) && isText(pair?.right))) {
+        throw new Error('Both sides of every pair must have 1-500 characters of text');
+      }
+      if (new Set(pairs.map(pair => pair.left.trim())).size !== pairs.length) {
+        throw new Error('Left-hand items must be unique');
+      }
+      return true;
+    }),
+  body('modelAnswer')
+    .if(body('type').equals('long-answer'))
+    .optional({ values: 'null' })
+    .isString().withMessage('Model answer must be text')
+    .isLength({ max: 10000 }).withMessage('Model answer must be 10000 characters or less'),
+  body('codeConfig.functionName')
+    .if(body('type').equals('code'))
+    .matches(/^[A-Za-z_$][A-Za-z0-9_$]*$/).withMessage('Function name must be a valid JavaScript identifier'),
+  body('codeConfig.starterCode')
+    .if(body('type').equals('code'))
+    .optional()
+    .isString().withMessage('Starter code must be text')
+    .isLength({ max: 20000 }).withMessage('Starter code must be 20000 characters or less'),
+  body('codeConfig.timeLimitMs')
+    .if(body('type').equals('code'))
+    .optional()
+    .isInt({ min: 100, max: MAX_TIME_LIMIT_MS }).withMessage(`Time limit must be 100-${MAX_TIME_LIMIT_MS} ms`),
+  body('codeConfig.testCases')
+    .if(body('type').equals('code'))
+    .isArray({ min: 1, max: 30 }).withMessage('Code questions need 1-30 test cases')
+    .custom((testCases) => {
+      testCases.forEach((testCase, index) => {
+        let input;
+        try {
+          input = JSON.parse(testCase?.input);
+          JSON.parse(testCase?.expectedOutput);
+        } catch {
+          throw new Error(`Test case ${index + 1} must have JSON input and expected output`);
+        }
+        if (!Array.isArray(input)) {
+          throw new Error(`Test case ${index + 1} input must be a JSON array of arguments`);
+        }
+        if (!Number.isInteger(testCase.marks) || testCase.marks < 1) {
+          throw new Error(`Test case ${index + 1} must be worth at least 1 mark`);
+        }
+      });
+      return true;
+    }),
+  body('numericAnswer.value')
+    .if(body('type').equals('numeric'))
+    .isFloat().withMessage('A numeric correct answer is required for numeric questions'),
+  body('numericAnswer.tolerance')
+    .if(body('type').equals('numeric'))
+    .optional()
+    .isFloat({ min: 0 }).withMessage('Tolerance must be zero or more'),
+  body('numericAnswer.toleranceType')
+    .if(body('type').equals('numeric'))
+    .optional()
+    .isIn(['absolute', 'relative']).withMessage('Tolerance type must be absolute or relative'),
+  body('numericAnswer.units')
+    .if(body('type').equals('numeric'))
+    .optional()
+    .isArray({ max: 10 }).withMessage('Units must be a list of at most 10 entries'),
+  body('numericAnswer.units.*')
+    .if(body('type').equals('numeric'))
+    .isString().withMessage('Each unit must be text')
+    .trim()
+    .notEmpty().withMessage('Units cannot be empty')
+    .isLength({ max: 20 }).withMessage('Units must be 20 characters or less'),
+  ...labelValidation,
+];
+
+const searchQuestionsValidation = [
+  query('q')
+    .optional()
+    .isString()
+    .isLength({ max: 200 }).withMessage('Search text must be 200 characters or less'),
+  query('subject')
+    .optional()
+    .trim(),
+  query('difficulty')
+    .optional()
+    .isIn(DIFFICULTIES).withMessage('Invalid difficulty level'),
+  query('type')
+    .optional()
+    .isIn(QUESTION_TYPES).withMessage('Invalid question type'),
+  query('marks')
+    .optional()
+    .isInt({ min: 1 }).withMessage('Marks must be at least 1')
+    .toInt(),
+  query('tags')
+    .optional()
+    .isString().withMessage('Tags must be a comma-separated list'),
+  query('learningOutcome')
+    .optional()
+    .isString()
+    .isLength({ max: MAX_OUTCOME_LENGTH }).withMessage(`Learning outcome must be ${MAX_OUTCOME_LENGTH} characters or less`),
+];
+
+const updateQuestionLabelsValidation = [
+  param('id').isMongoId().withMessage('Invalid question ID format'),
+  ...labelValidation,
 ];
 
 const getQuestionsByIdsValidation = [
@@ -83,6 +270,9 @@ const getQuestionsByIdsValidation = [
       }
       return true;
     }),
+  body('quizId')
+    .optional()
+    .isMongoId().withMessage('Invalid quiz ID format'),
 ];
 
 const deleteQuestionValidation = [
@@ -98,10 +288,12 @@ const getQuestionsBySubjectValidation = [
 ];
 
 // Routes
-router.get('/author/:authorId', authenticate, getQuestionsByAuthorValidation, getQuestionsByAuthor);
-router.get('/subject/:subject', authenticate, getQuestionsBySubjectValidation, getQuestionsBySubject);
+router.get('/author/:authorId', authenticate, authorizeRoles('teacher'), getQuestionsByAuthorValidation, getQuestionsByAuthor);
+router.get('/subject/:subject', authenticate, authorizeRoles('teacher'), getQuestionsBySubjectValidation, getQuestionsBySubject);
+router.get('/search', authenticate, authorizeRoles('teacher'), searchQuestionsValidation, searchQuestions);
 router.post('/batch', authenticate, getQuestionsByIdsValidation, getQuestionsByIds);
 router.post('/', authenticate, authorizeRoles('teacher'), createQuestionValidation, createQuestion);
+router.patch('/:id/labels', authenticate, authorizeRoles('teacher'), updateQuestionLabelsValidation, updateQuestionLabels);
 router.delete('/:id', authenticate, authorizeRoles('teacher'), deleteQuestionValidation, deleteQuestion);
 
 export default router;
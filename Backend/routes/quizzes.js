@@ -8,9 +8,81 @@ import {
   updateQuizStatus,
 } from '../controllers/quizController.js';
 import { authenticate, authorizeRoles } from '../middleware/auth.js';
+import { isPoolQuiz, ruleKey } from '../utils/questionPool.js';
+import { SCORE_POLICIES } from '../utils/scorePolicy.js';
 
 const router = express.Router();
 
+const isQuestionIdList = (value) => {
+  if (!value.every(id => /^[0-9a-fA-F]{24}$/.test(id))) {
+    throw new Error('Invalid question ID format');
+  }
+  return true;
+};
+
+// Question rules and scoring settings are checked the same way on create and update
+const questionRulesValidation = [
+  body('questionRules')
+    .optional()
+    .isArray({ max: 30 }).withMessage('A quiz can have at most 30 question rules')
+    .custom((rules) => {
+      const keys = rules.map(ruleKey);
+      if (new Set(keys).size !== keys.length) {
+        throw new Error('Each subject, difficulty and marks combination can only have one rule');
+      }
+      return true;
+    }),
+  body('questionRules.*.subject')
+    .trim()
+    .notEmpty().withMessage('Rule subject is required')
+    .isLength({ max: 100 }).withMessage('Subject must be 100 characters or less'),
+  body('questionRules.*.difficulty')
+    .isIn(['Easy', 'Medium', 'Hard']).withMessage('Invalid rule difficulty'),
+  body('questionRules.*.count')
+    .isInt({ min: 1, max: 200 }).withMessage('Rule must draw between 1 and 200 questions')
+    .toInt(),
+  body('questionRules.*.marks')
+    .isInt({ min: 1 }).withMessage('Rule marks must be a positive number')
+    .toInt(),
+];
+
+const scoringValidation = [
+  body('mode')
+    .optional()
+    .isIn(['exam', 'practice']).withMessage('Mode must be exam or practice'),
+  body('scorePolicy')
+    .optional()
+    .isIn(SCORE_POLICIES).withMessage('Invalid score policy'),
+  body('shuffleOptions')
+    .optional()
+    .isBoolean().withMessage('shuffleOptions must be a boolean'),
+  body('scoringPolicy.multipleCorrect')
+    .optional()
+    .isIn(['all-or-nothing', 'proportional', 'zero-on-wrong'])
+    .withMessage('Invalid multiple-correct scoring scheme'),
+  body('scoringPolicy.negativeMarkPerWrong')
+    .optional()
+    .isFloat({ min: 0 }).withMessage('Negative marking must be zero or more'),
+];
+
+const scheduleValidation = [
+  body('opensAt')
+    .optional({ values: 'null' })
+    .isISO8601().withMessage('Opening time must be a valid date'),
+  body('closesAt')
+    .optional({ values: 'null' })
+    .isISO8601().withMessage('Closing time must be a valid date')
+    .custom((closesAt, { req }) => {
+      if (req.body.opensAt && new Date(closesAt) <= new Date(req.body.opensAt)) {
+        throw new Error('Closing time must be after the opening time');
+      }
+      return true;
+    }),
+  body('maxAttempts')
+    .optional()
+    .isInt({ min: 1, max: 20 }).withMessage('Attempts allowed must be between 1 and 20'),
+];
+
 // Validation middleware
 const createQuizValidation = [
   body('title')
@@ -20,14 +92,12 @@ const createQuizValidation = [
   body('classId')
     .notEmpty().withMessage('Class ID is required')
     .isMongoId().withMessage('Invalid class ID format'),
+  // Pool quizzes define questionRules instead of a fixed question list
   body('questionIds')
+    .if((value, { req }) => !isPoolQuiz(req.body))
     .isArray({ min: 1 }).withMessage('Quiz must have at least one question')
-    .custom((value) => {
-      if (!value.every(id => /^[0-9a-fA-F]{24}$/.test(id))) {
-        throw new Error('Invalid question ID format');
-      }
-      return true;
-    }),
+    .custom(isQuestionIdList),
+  ...questionRulesValidation,
   body('durationMinutes')
     .isInt({ min: 1, max: 480 }).withMessage('Duration must be between 1 and 480 minutes'),
   body('tabSwitchThreshold')
@@ -41,6 +111,8 @@ const createQuizValidation = [
   body('createdBy')
     .notEmpty().withMessage('Creator ID is required')
     .isMongoId().withMessage('Invalid creator ID format'),
+  ...scheduleValidation,
+  ...scoringValidation,
 ];
 
 const updateQuizValidation = [
@@ -55,6 +127,14 @@ const updateQuizValidation = [
   body('tabSwitchThreshold')
     .optional()
     .isInt({ min: 0, max: 100 }).withMessage('Tab switch threshold must be between 0 and 100'),
+  // An empty list is allowed when switching to question rules; the controller checks the result
+  body('questionIds')
+    .optional()
+    .isArray().withMessage('Question IDs must be a list')
+    .custom(isQuestionIdList),
+  ...questionRulesValidation,
+  ...scheduleValidation,
+  ...scoringValidation,
 ];
 
 const updateQuizStatusValidation = [
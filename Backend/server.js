@@ -3,6 +3,7 @@ import dotenv from 'dotenv';
 import cors from 'cors';
 import morgan from 'morgan';
 import connectDB from './config/database.js';
+import { resumeCodeGrading } from './utils/codeGrading.js';
 import { errorHandler, notFound } from './middleware/errorHandler.js';
 
 // Import routes
@@ -13,12 +14,13 @@ import subjectRoutes from './routes/subjects.js';
 import questionRoutes from './routes/questions.js';
 import quizRoutes from './routes/quizzes.js';
 import attemptRoutes from './routes/attempts.js';
+import accommodationRoutes from './routes/accommodations.js';
 
 // Load environment variables
 dotenv.config();
 
-// Connect to MongoDB
-connectDB();
+// Connect to MongoDB, then finish grading code answers left from the last run
+connectDB().then(resumeCodeGrading);
 
 // Initialize Express app
 const app = express();
@@ -95,6 +97,7 @@ app.use('/api/subjects', subjectRoutes);
 app.use('/api/questions', questionRoutes);
 app.use('/api/quizzes', quizRoutes);
 app.use('/api/attempts', attemptRoutes);
+app.use('/api/accommodations', accommodationRoutes);
 
 // Error handling middleware
 app.use(notFound);
@@ -0,0 +1,23 @@
+import Accommodation from '../models/Accommodation.js';
+
+// A student's accommodation for a quiz: one set for that quiz wins over a class-wide one
+export const findAccommodation = async (quiz, studentId) => {
+  const accommodations = await Accommodation.find({
+    classId: quiz.classId,
+    studentId,
+    quizId: { $in: [quiz._id, null] },
+  }).lean();
+  return accommodations.find(a => a.quizId) || accommodations[0] || null;
+};
+
+// Minutes the student gets for the quiz
+export const accommodatedDuration = (quiz, accommodation) => {
+  if (!accommodation) return quiz.durationMinutes;
+  return Math.ceil(quiz.durationMinutes * (accommodation.timeMultiplier || 1)) + (accommodation.extraMinutes || 0);
+};
+
+// Proctoring limits the student's attempt runs under
+export const proctoringSettings = (quiz, accommodation) => ({
+  tabSwitchThreshold: accommodation?.tabSwitchThreshold ?? quiz.tabSwitchThreshold,
+  fullscreenRequired: !accommodation?.fullscreenExempt,
+});
@@ -0,0 +1,14 @@
+// Answers are saved one change at a time while a quiz is taken. Every change is kept
+// in the attempt's answer history, which is capped like the proctoring log.
+export const MAX_ANSWER_CHANGES_PER_BATCH = 100;
+export const MAX_ANSWER_HISTORY = 2000;
+
+// The last change to each question in a batch, by capture time; later entries win ties
+export const latestAnswerChanges = (changes) => {
+  const latest = new Map();
+  changes.forEach(change => {
+    const previous = latest.get(change.questionId);
+    if (!previous || change.at >= previous.at) latest.set(change.questionId, change);
+  });
+  return [...latest.values()];
+};
@@ -0,0 +1,84 @@
+import { RE2JS } from 're2js';
+
+// Matching of free-text answers against a question's accepted answers.
+// Used by the grader for fill-in-the-blank questions.
+
+export const MATCH_MODES = ['exact', 'case-sensitive', 'regex', 'fuzzy'];
+
+// Keep edit-distance work bounded no matter what a student submits
+const MAX_ANSWER_LENGTH = 500;
+export const MAX_PATTERN_LENGTH = 200;
+export const MAX_FUZZY_DISTANCE = 5;
+
+const normalize = (text) => String(text).trim().replace(/\s+/g, ' ');
+
+// Teacher patterns run on RE2, whose matching time is linear in the answer's length, so no
+// pattern can stall the server by backtracking. RE2 has no lookarounds or backreferences;
+// patterns using them are rejected when the question is saved. Patterns must match the
+// whole answer and are compared case-insensitively.
+const compilePattern = (pattern) => RE2JS.compile(pattern, RE2JS.CASE_INSENSITIVE);
+
+export const isValidAnswerPattern = (pattern) => {
+  if (typeof pattern !== 'string' || pattern.length > MAX_PATTERN_LENGTH) return false;
+  try {
+    compilePattern(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Levenshtein distance, giving up once it exceeds maxDistance
+const editDistance = (a, b, maxDistance) => {
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > maxDistance) return maxDistance + 1;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+const matchesOne = (answer, accepted) => {
+  switch (accepted.mode) {
+    case 'case-sensitive':
+      return answer === normalize(accepted.text);
+    case 'regex':
+      try {
+        return compilePattern(accepted.text).matches(answer);
+      } catch {
+        return false;
+      }
+    case 'fuzzy': {
+      const maxDistance = Math.min(accepted.maxDistance ?? 1, MAX_FUZZY_DISTANCE);
+      return editDistance(answer.toLowerCase(), normalize(accepted.text).toLowerCase(), maxDistance) <= maxDistance;
+    }
+    case 'exact':
+    default:
+      return answer.toLowerCase() === normalize(accepted.text).toLowerCase();
+  }
+};
+
+// Accepted answers for a question, falling back to correctAnswerText for
+// questions created before multiple accepted answers were supported
+export const acceptedAnswersFor = (question) => {
+  if (question.acceptedAnswers?.length) return question.acceptedAnswers;
+  if (typeof question.correctAnswerText === 'string') {
+    return [{ text: question.correctAnswerText, mode: 'exact' }];
+  }
+  return [];
+};
+
+export const matchesAcceptedAnswer = (answer, acceptedAnswers) => {
+  if (typeof answer !== 'string') return false;
+  const normalized = normalize(answer.slice(0, MAX_ANSWER_LENGTH));
+  return acceptedAnswers.some(accepted => matchesOne(normalized, accepted));
+};
@@ -0,0 +1,23 @@
+// What a teacher can do to a student's exam attempt. Each action is recorded in the
+// attempt's audit trail and bumps its control version, which the student's client
+// watches for while the quiz is running.
+export const ATTEMPT_ACTIONS = ['extend-time', 'force-submit', 'reopen', 'reset', 'accept-late-answers', 'reject-late-answers'];
+
+// Actions that give the student time, and so need a number of minutes
+export const TIMED_ATTEMPT_ACTIONS = ['extend-time', 'reopen'];
+
+export const MAX_ACTION_MINUTES = 240;
+
+// Fields that return an attempt to how it was before it was graded
+export const UNGRADED_FIELDS = {
+  submitted: false,
+  endTime: null,
+  submittedLate: false,
+  uploadedLate: false,
+  lateAnswers: {},
+  lateAnswersStatus: null,
+  score: 0,
+  achievedMarks: 0,
+  questionResults: [],
+  gradingStatus: 'complete',
+};
@@ -0,0 +1,6 @@
+// Cloze questions mark each blank in their text with three or more underscores
+export const CLOZE_PLACEHOLDER = /_{3,}/g;
+
+export const MAX_CLOZE_BLANKS = 20;
+
+export const countClozeBlanks = (text) => (String(text || '').match(CLOZE_PLACEHOLDER) || []).length;
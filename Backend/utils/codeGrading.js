@@ -0,0 +1,77 @@
+import QuizAttempt from '../models/QuizAttempt.js';
+import Quiz from '../models/Quiz.js';
+import Question from '../models/Question.js';
+import { gradeQuestion, summarizeResults } from './grading.js';
+
+// Runs the tests of code answers after their submission has been answered. Submitted
+// attempts are queued in this server process and graded one at a time, so at most one
+// code runner is busy; their code results stay 'pending' until then. Attempts queued
+// when the server stopped are picked up again on start.
+
+const queue = [];
+let isRunning = false;
+
+// An attempt is graded as it was when queued; a teacher action since then queues it again
+const isUnchanged = (attempt, { endTime, controlVersion }) =>
+  attempt?.submitted && attempt.endTime === endTime && (attempt.controlVersion || 0) === controlVersion;
+
+const gradeQueuedAttempt = async (job) => {
+  const attempt = await QuizAttempt.findById(job.attemptId).lean();
+  if (!isUnchanged(attempt, job)) return;
+
+  const pendingIds = (attempt.questionResults || [])
+    .filter(result => result.status === 'pending')
+    .map(result => result.questionId);
+  const questions = await Question.find({ _id: { $in: pendingIds }, type: 'code' }).lean();
+  if (questions.length === 0) return;
+
+  const quiz = await Quiz.findById(attempt.quizId).select('totalMarks scoringPolicy').lean();
+  const answers = attempt.answers instanceof Map ? Object.fromEntries(attempt.answers) : attempt.answers || {};
+  const graded = [];
+  for (const question of questions) {
+    graded.push(await gradeQuestion(question, answers[question._id.toString()], quiz?.scoringPolicy));
+  }
+
+  // The attempt may have been reopened, reset or regraded while the tests ran
+  const current = await QuizAttempt.findById(job.attemptId);
+  if (!isUnchanged(current, job)) return;
+  graded.forEach(result => {
+    const pending = current.questionResults.find(r => r.questionId.toString() === result.questionId && r.status === 'pending');
+    if (pending) pending.set(result);
+  });
+  Object.assign(current, summarizeResults(current.questionResults, quiz?.totalMarks));
+  await current.save();
+};
+
+const runQueue = async () => {
+  if (isRunning) return;
+  isRunning = true;
+  while (queue.length > 0) {
+    try {
+      await gradeQueuedAttempt(queue.shift());
+    } catch (error) {
+      console.error('Code grading error:', error);
+    }
+  }
+  isRunning = false;
+};
+
+// Queue a submitted attempt if it has answers left to grade
+export const queueCodeGrading = (attempt) => {
+  if (!attempt?.submitted || attempt.gradingStatus !== 'pending') return;
+  queue.push({ attemptId: attempt._id.toString(), endTime: attempt.endTime, controlVersion: attempt.controlVersion || 0 });
+  runQueue();
+};
+
+// Re-queue attempts left pending by a previous run of the server. Attempts only waiting
+// for a teacher are looked at once and skipped.
+export const resumeCodeGrading = async () => {
+  try {
+    const attempts = await QuizAttempt.find({ submitted: true, gradingStatus: 'pending' })
+      .select('submitted gradingStatus endTime controlVersion')
+      .lean();
+    attempts.forEach(queueCodeGrading);
+  } catch (error) {
+    console.error('Resume code grading error:', error);
+  }
+};
@@ -0,0 +1,89 @@
+import { spawn } from 'child_process';
+import { fileURLToPath } from 'url';
+
+// Runs student code against a question's test cases in a separate Node
+// process. The vm module alone is no sandbox, so the process is locked down
+// as well: it gets an empty environment, may read nothing but its own script,
+// cannot spawn processes or threads, and cannot compile code from strings, so
+// code that escapes its vm context finds neither secrets nor a way to run
+// more code. Each test gets its own vm context with a time limit, and the
+// process is killed if it outlives the combined budget or its output grows
+// too large.
+
+export const DEFAULT_TIME_LIMIT_MS = 1000;
+export const MAX_TIME_LIMIT_MS = 5000;
+const PROCESS_MEMORY_MB = 64;
+const PROCESS_STARTUP_MS = 1000;
+const MAX_OUTPUT_BYTES = 1024 * 1024;
+
+const WORKER_PATH = fileURLToPath(new URL('./codeRunnerWorker.js', import.meta.url));
+// Node 20 only knows the permission model by its experimental flag
+const PERMISSION_FLAG = process.allowedNodeEnvironmentFlags.has('--permission')
+  ? '--permission'
+  : '--experimental-permission';
+
+// Result for every test case, in order: { passed, output?, error? }
+export const runCodeTests = (code, config) => {
+  const testCases = config.testCases || [];
+  const timeLimitMs = Math.min(config.timeLimitMs || DEFAULT_TIME_LIMIT_MS, MAX_TIME_LIMIT_MS);
+  const failAll = (error) => testCases.map(() => ({ passed: false, error }));
+
+  if (typeof code !== 'string' || !code.trim() || testCases.length === 0) {
+    return Promise.resolve(failAll('No code submitted'));
+  }
+
+  return new Promise((resolve) => {
+    const child = spawn(process.execPath, [
+      PERMISSION_FLAG,
+      `--allow-fs-read=${WORKER_PATH}`,
+      '--disallow-code-generation-from-strings',
+      `--max-old-space-size=${PROCESS_MEMORY_MB}`,
+      '--no-warnings',
+      WORKER_PATH,
+    ], {
+      env: {},
+      stdio: ['pipe', 'pipe', 'ignore'],
+    });
+
+    let settled = false;
+    const finish = (results) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      child.kill('SIGKILL');
+      resolve(results);
+    };
+
+    const timer = setTimeout(
+      () => finish(failAll('Time limit exceeded')),
+      PROCESS_STARTUP_MS + timeLimitMs * testCases.length
+    );
+
+    const chunks = [];
+    let outputBytes = 0;
+    child.stdout.on('data', (chunk) => {
+      outputBytes += chunk.length;
+      if (outputBytes > MAX_OUTPUT_BYTES) return finish(failAll('Output limit exceeded'));
+      chunks.push(chunk);
+    });
+
+    child.once('error', (error) => finish(failAll(error.message)));
+    child.once('close', () => {
+      try {
+        const results = JSON.parse(Buffer.concat(chunks).toString());
+        finish(testCases.map((testCase, index) => results[index] || { passed: false, error: 'Code runner stopped unexpectedly' }));
+      } catch {
+        finish(failAll('Code runner stopped unexpectedly'));
+      }
+    });
+
+    // A child killed early closes its stdin; that is reported through 'close'
+    child.stdin.on('error', () => {});
+    child.stdin.end(JSON.stringify({
+      code,
+      functionName: config.functionName,
+      testCases: testCases.map(t => ({ input: t.input, expectedOutput: t.expectedOutput })),
+      timeLimitMs,
+    }));
+  });
+};
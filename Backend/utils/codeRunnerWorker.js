@@ -0,0 +1,62 @@
+import vm from 'vm';
+
+// Child process side of codeRunner.js: reads { code, functionName, testCases,
+// timeLimitMs } as JSON on stdin and writes the results as JSON on stdout.
+// Test inputs are JSON arrays of arguments and expected outputs are JSON
+// values; results are compared as canonical JSON.
+
+const canonical = (value) => JSON.stringify(value, (key, val) =>
+  val && typeof val === 'object' && !Array.isArray(val)
+    ? Object.keys(val).sort().reduce((sorted, k) => ({ ...sorted, [k]: val[k] }), {})
+    : val
+);
+
+const describeError = (error) => String(error?.message || error).slice(0, 500);
+
+const readInput = async () => {
+  const chunks = [];
+  for await (const chunk of process.stdin) chunks.push(chunk);
+  return JSON.parse(Buffer.concat(chunks).toString());
+};
+
+const runTest = (code, functionName, { input, expectedOutput }, timeLimitMs) => {
+  // Fresh context per test so state cannot leak between tests; microtasks
+  // run inside the timed evaluation so async code is bounded too
+  const context = vm.createContext({ __input: input }, {
+    codeGeneration: { strings: false, wasm: false },
+    microtaskMode: 'afterEvaluate',
+  });
+
+  try {
+    vm.runInContext(code, context, { timeout: timeLimitMs });
+    // A returned promise is awaited, as in the browser runner
+    vm.runInContext(
+      `Promise.resolve().then(() => ${functionName}(...JSON.parse(__input))).then(
+        value => { __result = { output: JSON.stringify(value) }; },
+        error => { __result = { error: String((error && error.message) || error) }; }
+      );`,
+      context,
+      { timeout: timeLimitMs }
+    );
+    const result = context.__result;
+    if (!result) {
+      return { passed: false, error: 'The returned promise never settled' };
+    }
+    if (result.error !== undefined) {
+      return { passed: false, error: describeError(result.error) };
+    }
+    const output = typeof result.output === 'string' ? result.output : undefined;
+    const actual = output === undefined ? undefined : JSON.parse(output);
+    return {
+      passed: canonical(actual) === canonical(JSON.parse(expectedOutput)),
+      output: output === undefined ? 'undefined' : output.slice(0, 1000),
+    };
+  } catch (error) {
+    return { passed: false, error: describeError(error) };
+  }
+};
+
+const { code, functionName, testCases, timeLimitMs } = await readInput();
+process.stdout.write(JSON.stringify(
+  testCases.map(testCase => runTest(code, functionName, testCase, timeLimitMs))
+));
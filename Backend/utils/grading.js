@@ -0,0 +1,251 @@
+import { acceptedAnswersFor, matchesAcceptedAnswer } from './answerMatching.js';
+import { runCodeTests } from './codeRunner.js';
+
+// Server-side grading engine. Attempts are always scored here against the
+// stored Question documents so clients can never post their own marks.
+
+export const DEFAULT_SCORING_POLICY = {
+  multipleCorrect: 'all-or-nothing',
+  negativeMarkPerWrong: 0,
+};
+
+const roundMarks = (value) => Math.round(value * 100) / 100;
+
+const isUnanswered = (answer) => {
+  if (answer === undefined || answer === null || answer === '') return true;
+  if (Array.isArray(answer)) return answer.every(item => item === undefined || item === null || item === '');
+  if (typeof answer === 'object') return answer.value === undefined || answer.value === null || answer.value === '';
+  return false;
+};
+
+// Compare units ignoring whitespace, e.g. "m / s" matches "m/s"
+const normalizeUnit = (unit) => String(unit || '').replace(/\s+/g, '');
+
+export const statusFor = (awardedMarks, maxMarks) => {
+  if (awardedMarks >= maxMarks) return 'correct';
+  if (awardedMarks > 0) return 'partial';
+  return 'incorrect';
+};
+
+const gradeSingleCorrect = (question, answer, policy) => {
+  if (answer === question.correctAnswerIndex) {
+    return { credit: question.marks, penalty: 0 };
+  }
+  return { credit: 0, penalty: policy.negativeMarkPerWrong };
+};
+
+const gradeMultipleCorrect = (question, answer, policy) => {
+  const correct = new Set(question.correctAnswerIndices || []);
+  const selected = new Set(Array.isArray(answer) ? answer : []);
+
+  const correctSelected = [...selected].filter(idx => correct.has(idx)).length;
+  const wrongSelected = selected.size - correctSelected;
+  const totalCorrect = correct.size;
+
+  let credit = 0;
+  switch (policy.multipleCorrect) {
+    case 'proportional':
+      credit = totalCorrect > 0 ? question.marks * (correctSelected / totalCorrect) : 0;
+      break;
+    case 'zero-on-wrong':
+      credit = wrongSelected > 0 || totalCorrect === 0
+        ? 0
+        : question.marks * (correctSelected / totalCorrect);
+      break;
+    case 'all-or-nothing':
+    default:
+      credit = correctSelected === totalCorrect && wrongSelected === 0 ? question.marks : 0;
+      break;
+  }
+
+  return {
+    credit,
+    penalty: wrongSelected * policy.negativeMarkPerWrong,
+    correctSelected,
+    wrongSelected,
+    totalCorrect,
+  };
+};
+
+const gradeFillInTheBlank = (question, answer) => {
+  const isCorrect = matchesAcceptedAnswer(answer, acceptedAnswersFor(question));
+  return { credit: isCorrect ? question.marks : 0, penalty: 0 };
+};
+
+const gradeCloze = (question, answer) => {
+  const answers = Array.isArray(answer) ? answer : [];
+  const blankResults = (question.blanks || []).map((blank, index) =>
+    matchesAcceptedAnswer(answers[index], blank.acceptedAnswers)
+  );
+  const credit = (question.blanks || []).reduce(
+    (sum, blank, index) => sum + (blankResults[index] ? blank.marks : 0),
+    0
+  );
+  return { credit, penalty: 0, blankResults };
+};
+
+const gradeSequence = (question, answer) => {
+  const items = question.sequenceItems || [];
+  const order = Array.isArray(answer) ? answer : [];
+  const totalPairs = Math.max(items.length - 1, 0);
+
+  // Only a reordering of the original items can earn marks
+  const sortedItems = [...items].sort();
+  const isPermutation = order.length === items.length &&
+    [...order].sort().every((item, index) => item === sortedItems[index]);
+  if (!isPermutation) {
+    return { credit: 0, penalty: 0, correctPairs: 0, totalPairs };
+  }
+
+  const position = new Map(items.map((item, index) => [item, index]));
+  let correctPairs = 0;
+  for (let i = 0; i < order.length - 1; i++) {
+    if (position.get(order[i + 1]) === position.get(order[i]) + 1) correctPairs++;
+  }
+
+  const credit = question.sequenceGrading === 'adjacent-pairs'
+    ? (totalPairs > 0 ? question.marks * (correctPairs / totalPairs) : question.marks)
+    : (correctPairs === totalPairs ? question.marks : 0);
+
+  return { credit, penalty: 0, correctPairs, totalPairs };
+};
+
+// The answer lists the chosen right-hand item for each left item, in order
+const gradeMatching = (question, answer) => {
+  const pairs = question.matchPairs || [];
+  const answers = Array.isArray(answer) ? answer : [];
+  const pairResults = pairs.map((pair, index) => answers[index] === pair.right);
+  const correctCount = pairResults.filter(Boolean).length;
+  const credit = pairs.length > 0 ? question.marks * (correctCount / pairs.length) : 0;
+  return { credit, penalty: 0, pairResults };
+};
+
+// Each passing test case earns its own marks
+const gradeCode = async (question, answer) => {
+  const config = question.codeConfig || {};
+  const outcomes = await runCodeTests(answer, config);
+  const testResults = (config.testCases || []).map((testCase, index) => ({
+    ...outcomes[index],
+    hidden: !!testCase.hidden,
+    marks: testCase.marks,
+  }));
+  const credit = testResults.reduce((sum, t) => sum + (t.passed ? t.marks : 0), 0);
+  return { credit, penalty: 0, testResults };
+};
+
+const gradeNumeric = (question, answer) => {
+  const key = question.numericAnswer;
+  const value = Number(answer?.value);
+  if (!key || !Number.isFinite(value)) {
+    return { credit: 0, penalty: 0 };
+  }
+
+  const allowedError = key.toleranceType === 'relative'
+    ? Math.abs(key.value) * (key.tolerance / 100)
+    : key.tolerance;
+  // Small epsilon so that e.g. 0.1 + 0.2 still matches 0.3 with zero tolerance
+  const withinTolerance = Math.abs(value - key.value) <= allowedError + 1e-9;
+
+  const units = (key.units || []).map(normalizeUnit);
+  const unitAccepted = units.length === 0 || units.includes(normalizeUnit(answer.unit));
+
+  return { credit: withinTolerance && unitAccepted ? question.marks : 0, penalty: 0 };
+};
+
+// Grade one answer and describe how its marks were awarded. Deferred code answers
+// stay 'pending' for the code grading queue to run their tests later.
+export const gradeQuestion = async (question, answer, scoringPolicy = {}, { deferCode = false } = {}) => {
+  const policy = { ...DEFAULT_SCORING_POLICY, ...scoringPolicy };
+  const result = {
+    questionId: (question._id || question.id).toString(),
+    maxMarks: question.marks,
+  };
+
+  if (isUnanswered(answer)) {
+    return { ...result, status: 'unanswered', awardedMarks: 0, credit: 0, penalty: 0 };
+  }
+
+  // Long answers are graded by a teacher later
+  if (question.type === 'long-answer') {
+    if (typeof answer !== 'string' || !answer.trim()) {
+      return { ...result, status: 'unanswered', awardedMarks: 0, credit: 0, penalty: 0 };
+    }
+    return { ...result, status: 'pending', awardedMarks: 0, credit: 0, penalty: 0 };
+  }
+
+  if (question.type === 'code' && deferCode) {
+    return { ...result, status: 'pending', awardedMarks: 0, credit: 0, penalty: 0 };
+  }
+
+  let graded;
+  switch (question.type) {
+    case 'single-correct':
+      graded = gradeSingleCorrect(question, answer, policy);
+      break;
+    case 'multiple-correct':
+      graded = gradeMultipleCorrect(question, answer, policy);
+      break;
+    case 'fill-in-the-blank':
+      graded = gradeFillInTheBlank(question, answer);
+      break;
+    case 'numeric':
+      graded = gradeNumeric(question, answer);
+      break;
+    case 'cloze':
+      graded = gradeCloze(question, answer);
+      break;
+    case 'sequence':
+      graded = gradeSequence(question, answer);
+      break;
+    case 'matching':
+      graded = gradeMatching(question, answer);
+      break;
+    case 'code':
+      graded = await gradeCode(question, answer);
+      break;
+    default:
+      graded = { credit: 0, penalty: 0 };
+  }
+
+  const credit = roundMarks(graded.credit);
+  const penalty = roundMarks(graded.penalty);
+  const awardedMarks = roundMarks(credit - penalty);
+
+  return {
+    ...result,
+    ...graded,
+    credit,
+    penalty,
+    awardedMarks,
+    status: statusFor(awardedMarks, question.marks),
+  };
+};
+
+// Totals for a set of question results; also used after manual grading
+export const summarizeResults = (questionResults, totalMarks = 0) => {
+  // Negative marking can push individual questions below zero, but never the total
+  const achievedMarks = Math.max(
+    0,
+    roundMarks(questionResults.reduce((sum, r) => sum + r.awardedMarks, 0))
+  );
+
+  const score = totalMarks > 0
+    ? Math.min(100, Math.round((achievedMarks / totalMarks) * 100))
+    : 0;
+
+  const gradingStatus = questionResults.some(r => r.status === 'pending') ? 'pending' : 'complete';
+
+  return { achievedMarks, score, gradingStatus };
+};
+
+// Grade a set of answers against the questions of an attempt; code answers are
+// left pending, since running their tests takes too long for a request
+export const gradeAttempt = async (questions, answers = {}, totalMarks = 0, scoringPolicy = {}) => {
+  const questionResults = [];
+  for (const question of questions) {
+    const questionId = (question._id || question.id).toString();
+    questionResults.push(await gradeQuestion(question, answers[questionId], scoringPolicy, { deferCode: true }));
+  }
+
+  return { ...summarizeResults(questionResults, totalMarks), questionResults };
+};
@@ -0,0 +1,150 @@
+// Integrity risk of a submitted attempt, built from its proctoring log and grading.
+// The score runs from 0 (nothing unusual) to 100; each signal adds capped points and
+// explains itself in `reasons` so invigilators know what to look at.
+
+const FAST_QUESTION_MS = 3000; // A correct answer after less time on the question than this is suspicious
+const CHANGE_AFTER_RETURN_MS = 10000; // Answer changes this soon after returning to the tab
+const FAST_COMPLETION_RATIO = 0.4; // Of the cohort's median duration
+const MIN_COHORT_SIZE = 3;
+
+const MEDIUM_RISK = 25;
+const HIGH_RISK = 50;
+
+const COPY_EVENT_TYPES = ['copy', 'cut', 'paste', 'contextmenu', 'printscreen'];
+
+const formatDuration = (ms) => {
+  const seconds = Math.round(ms / 1000);
+  return seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`;
+};
+
+// Milliseconds the student spent on each question while the quiz tab was visible
+export const timePerQuestion = (events, endTime) => {
+  const times = {};
+  let current = null;
+  let segmentStart = null;
+  const closeSegment = (at) => {
+    if (current && segmentStart !== null) {
+      times[current] = (times[current] || 0) + Math.max(0, at - segmentStart);
+    }
+    segmentStart = null;
+  };
+
+  events.forEach(event => {
+    switch (event.type) {
+      case 'question-view':
+        closeSegment(event.at);
+        current = event.questionId?.toString() || null;
+        segmentStart = event.at;
+        break;
+      case 'tab-hidden':
+        closeSegment(event.at);
+        break;
+      case 'tab-visible':
+        if (segmentStart === null) segmentStart = event.at;
+        break;
+      default:
+        break;
+    }
+  });
+  if (endTime) closeSegment(endTime);
+  return times;
+};
+
+// Median duration of the submitted attempts of a quiz, or null if there are too few to compare
+export const medianDuration = (attempts) => {
+  const durations = attempts
+    .filter(a => a.submitted && a.endTime && a.startTime)
+    .map(a => a.endTime - a.startTime)
+    .sort((a, b) => a - b);
+  if (durations.length < MIN_COHORT_SIZE) return null;
+  const middle = Math.floor(durations.length / 2);
+  return durations.length % 2 ? durations[middle] : (durations[middle - 1] + durations[middle]) / 2;
+};
+
+export const assessIntegrity = (attempt, { cohortMedianMs = null } = {}) => {
+  const events = [...(attempt.proctoringEvents || [])].sort((a, b) => a.at - b.at);
+  const reasons = [];
+  let score = 0;
+  const add = (points, cap, reason) => {
+    const awarded = Math.min(points, cap);
+    if (awarded > 0) {
+      score += awarded;
+      reasons.push(reason);
+    }
+  };
+
+  // Leaving the quiz tab, and for how long
+  let hiddenCount = 0;
+  let awayMs = 0;
+  let hiddenAt = null;
+  events.forEach(event => {
+    if (event.type === 'tab-hidden') {
+      hiddenCount++;
+      hiddenAt = event.at;
+    } else if (event.type === 'tab-visible' && hiddenAt !== null) {
+      awayMs += event.at - hiddenAt;
+      hiddenAt = null;
+    }
+  });
+  const tabSwitches = Math.max(hiddenCount, attempt.tabSwitches || 0);
+  if (tabSwitches > 0) {
+    add(
+      tabSwitches * 10 + (awayMs > 60000 ? 10 : 0),
+      40,
+      `Left the quiz tab ${tabSwitches} time${tabSwitches === 1 ? '' : 's'}${awayMs > 0 ? ` (${formatDuration(awayMs)} away)` : ''}`
+    );
+  }
+
+  const fullscreenExits = events.filter(e => e.type === 'fullscreen-exit').length;
+  if (fullscreenExits > 0) {
+    add(fullscreenExits * 10, 20, `Exited full-screen ${fullscreenExits} time${fullscreenExits === 1 ? '' : 's'}`);
+  }
+
+  const copyAttempts = events.filter(e => COPY_EVENT_TYPES.includes(e.type)).length;
+  if (copyAttempts > 0) {
+    add(copyAttempts * 5, 20, `${copyAttempts} blocked copy, paste or screenshot attempt${copyAttempts === 1 ? '' : 's'}`);
+  }
+
+  // Correct answers given with barely any time on the question
+  const times = timePerQuestion(events, attempt.endTime);
+  const hasViews = events.some(e => e.type === 'question-view');
+  if (hasViews) {
+    const fastCorrect = (attempt.questionResults || []).filter(result =>
+      result.status === 'correct' && (times[result.questionId.toString()] || 0) < FAST_QUESTION_MS
+    ).length;
+    if (fastCorrect > 0) {
+      add(fastCorrect * 5, 20, `${fastCorrect} correct answer${fastCorrect === 1 ? '' : 's'} after under ${FAST_QUESTION_MS / 1000}s on the question`);
+    }
+  }
+
+  // Answers changed right after coming back from another tab
+  let lastReturn = null;
+  let changesAfterReturn = 0;
+  events.forEach(event => {
+    if (event.type === 'tab-visible') lastReturn = event.at;
+    if (event.type === 'answer-change' && lastReturn !== null && event.at - lastReturn <= CHANGE_AFTER_RETURN_MS) {
+      changesAfterReturn++;
+    }
+  });
+  if (changesAfterReturn > 0) {
+    add(changesAfterReturn * 10, 30, `${changesAfterReturn} answer${changesAfterReturn === 1 ? '' : 's'} changed within ${CHANGE_AFTER_RETURN_MS / 1000}s of returning to the tab`);
+  }
+
+  // Much faster than the rest of the class
+  const duration = attempt.endTime && attempt.startTime ? attempt.endTime - attempt.startTime : null;
+  if (cohortMedianMs && duration !== null && duration < cohortMedianMs * FAST_COMPLETION_RATIO) {
+    add(20, 20, `Finished in ${formatDuration(duration)}, against a class median of ${formatDuration(cohortMedianMs)}`);
+  }
+
+  // The capture time of offline changes is the device's claim, so late uploads deserve a look
+  if (attempt.uploadedLate) {
+    add(10, 10, 'Answers were uploaded after the deadline from the device\'s offline queue');
+  }
+
+  const riskScore = Math.min(100, score);
+  return {
+    riskScore,
+    level: riskScore >= HIGH_RISK ? 'high' : riskScore >= MEDIUM_RISK ? 'medium' : 'low',
+    reasons,
+  };
+};
@@ -0,0 +1,64 @@
+import { EventEmitter } from 'events';
+import { VIOLATION_EVENT_TYPES } from './proctoring.js';
+
+// In-process feed of attempt activity for teachers' live monitors. Controllers publish
+// as attempts change and each open stream subscribes to its quiz. Subscribers only hear
+// about activity handled by this server process.
+
+const feed = new EventEmitter();
+// One listener per open monitor; a busy exam can have many teachers watching
+feed.setMaxListeners(0);
+
+// Live streams send a comment this often so proxies don't close them as idle
+export const HEARTBEAT_MS = 25 * 1000;
+
+const channel = (quizId) => `quiz:${quizId.toString()}`;
+
+export const publishToQuiz = (quizId, event, data) => {
+  feed.emit(channel(quizId), { event, data });
+};
+
+// Returns a function that ends the subscription
+export const subscribeToQuiz = (quizId, listener) => {
+  feed.on(channel(quizId), listener);
+  return () => feed.off(channel(quizId), listener);
+};
+
+const isAnswered = (answer) => {
+  if (answer === undefined || answer === null || answer === '') return false;
+  if (Array.isArray(answer)) return answer.some(item => item !== undefined && item !== null && item !== '');
+  if (typeof answer === 'object') return answer.value !== undefined && answer.value !== null && answer.value !== '';
+  return true;
+};
+
+// 1-based position of a question in the attempt, or null
+export const questionNumber = (attempt, questionId) => {
+  const index = (attempt.questionIds || []).findIndex(id => id.toString() === questionId?.toString());
+  return index >= 0 ? index + 1 : null;
+};
+
+// What a live monitor shows for an attempt. Violations and the current question come from
+// the proctoring log, so they are only included when the log was loaded.
+export const monitorRow = (attempt) => {
+  const answers = attempt.answers instanceof Map ? Object.fromEntries(attempt.answers) : attempt.answers || {};
+  const row = {
+    attemptId: attempt._id.toString(),
+    studentId: attempt.studentId.toString(),
+    attemptNumber: attempt.attemptNumber || 1,
+    startTime: attempt.startTime,
+    deadline: attempt.deadline,
+    answered: Object.values(answers).filter(isAnswered).length,
+    totalQuestions: (attempt.questionIds || []).length,
+    tabSwitches: attempt.tabSwitches || 0,
+    submitted: !!attempt.submitted,
+    endTime: attempt.endTime || null,
+    submittedLate: !!attempt.submittedLate,
+  };
+
+  if (attempt.proctoringEvents) {
+    const lastView = attempt.proctoringEvents.filter(e => e.type === 'question-view').sort((a, b) => a.at - b.at).pop();
+    row.violations = attempt.proctoringEvents.filter(e => VIOLATION_EVENT_TYPES.includes(e.type)).length;
+    row.currentQuestion = lastView ? questionNumber(attempt, lastView.questionId) : null;
+  }
+  return row;
+};
@@ -0,0 +1,17 @@
+import { shuffle } from './sanitizeQuestion.js';
+
+// Question types whose options are shown in a per-attempt order
+export const SHUFFLED_OPTION_TYPES = ['single-correct', 'multiple-correct'];
+
+// Display order of each question's options, as canonical option indices keyed by question ID.
+// Answers keep using canonical indices, so grading never needs these orders.
+export const buildOptionOrders = (questions) => {
+  const optionOrders = {};
+  questions
+    .filter(question => SHUFFLED_OPTION_TYPES.includes(question.type))
+    .forEach(question => {
+      const indices = question.options.map((option, index) => index);
+      optionOrders[question._id.toString()] = shuffle(indices);
+    });
+  return optionOrders;
+};
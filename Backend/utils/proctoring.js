@@ -0,0 +1,28 @@
+// Proctoring events a quiz client may report, in the order they are usually seen
+export const PROCTORING_EVENT_TYPES = [
+  'tab-hidden',
+  'tab-visible',
+  'fullscreen-exit',
+  'fullscreen-enter',
+  'copy',
+  'cut',
+  'paste',
+  'contextmenu',
+  'printscreen',
+  // Activity on the attempt's questions; these carry a questionId
+  'question-view',
+  'answer-change',
+];
+
+export const QUESTION_EVENT_TYPES = ['question-view', 'answer-change'];
+
+// Events that break the exam's rules, as opposed to returning to it or moving between questions
+export const VIOLATION_EVENT_TYPES = ['tab-hidden', 'fullscreen-exit', 'copy', 'cut', 'paste', 'contextmenu', 'printscreen'];
+
+// Clients send their events in batches; the log of one attempt is capped so a
+// misbehaving client can't grow it without bound
+export const MAX_EVENTS_PER_BATCH = 100;
+export const MAX_EVENTS_PER_ATTEMPT = 2000;
+
+// Events keep arriving briefly after submission, flushed by the client as it closes
+export const EVENT_GRACE_MS = 60 * 1000;
@@ -0,0 +1,22 @@
+// Free-form labels teachers put on questions to organise and search their bank. Tags are
+// short keywords, compared case-insensitively; learning outcomes are sentences kept as written.
+export const MAX_LABELS = 20;
+export const MAX_TAG_LENGTH = 50;
+export const MAX_OUTCOME_LENGTH = 200;
+
+// Most results one search returns; the total is reported alongside
+export const MAX_SEARCH_RESULTS = 200;
+
+const uniqueTrimmed = (labels) => [...new Set((labels || []).map(label => String(label).trim()).filter(Boolean))];
+
+export const normalizeTags = (tags) => uniqueTrimmed((tags || []).map(tag => String(tag).toLowerCase()));
+
+export const normalizeOutcomes = (outcomes) => uniqueTrimmed(outcomes);
+
+// express-validator check for a list of labels
+export const isLabelList = (maxLength) => (labels) => {
+  if (!labels.every(label => typeof label === 'string' && label.trim().length > 0 && label.length <= maxLength)) {
+    throw new Error(`Each label must have 1-${maxLength} characters`);
+  }
+  return true;
+};
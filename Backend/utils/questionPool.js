@@ -0,0 +1,58 @@
+import mongoose from 'mongoose';
+import Question from '../models/Question.js';
+import { shuffle } from './sanitizeQuestion.js';
+
+// A pool quiz draws each student's questions from its author's bank instead of using a fixed list.
+// Rules only match questions worth exactly `marks`, so every draw adds up to the same total.
+export const isPoolQuiz = (quiz) => (quiz.questionRules || []).length > 0;
+
+export const ruleKey = (rule) => `${rule.subject}|${rule.difficulty}|${rule.marks}`;
+
+const ruleFilter = (quiz, rule) => ({
+  authorId: new mongoose.Types.ObjectId(quiz.createdBy.toString()),
+  subject: rule.subject,
+  difficulty: rule.difficulty,
+  marks: rule.marks,
+});
+
+export const totalMarksForRules = (rules) =>
+  rules.reduce((sum, rule) => sum + rule.count * rule.marks, 0);
+
+export const totalQuestionCount = (quiz) =>
+  isPoolQuiz(quiz)
+    ? quiz.questionRules.reduce((sum, rule) => sum + rule.count, 0)
+    : quiz.questionIds.length;
+
+// Rules that ask for more questions than the bank holds, with how many are available
+export const findShortRules = async (quiz, session = null) => {
+  // Sequential: operations in one transaction must not run in parallel
+  const shortRules = [];
+  for (const rule of quiz.questionRules) {
+    const available = await Question.countDocuments(ruleFilter(quiz, rule)).session(session);
+    if (available < rule.count) {
+      shortRules.push({ ...rule, available });
+    }
+  }
+  return shortRules;
+};
+
+// Question IDs for a new attempt: a fresh draw for pool quizzes, a shuffled copy otherwise.
+// Returns null when the bank can no longer fill a rule.
+export const drawQuestionIds = async (quiz) => {
+  if (!isPoolQuiz(quiz)) {
+    return shuffle(quiz.questionIds);
+  }
+
+  const draws = await Promise.all(quiz.questionRules.map(rule =>
+    Question.aggregate([
+      { $match: ruleFilter(quiz, rule) },
+      { $sample: { size: rule.count } },
+      { $project: { _id: 1 } },
+    ])
+  ));
+  const ids = draws.flat().map(question => question._id);
+
+  // Questions may have been deleted from the bank since the quiz was created
+  if (ids.length !== totalQuestionCount(quiz)) return null;
+  return shuffle(ids);
+};
@@ -0,0 +1,34 @@
+// Scheduled quizzes can only be started and submitted between opensAt and closesAt;
+// either bound may be unset
+export const quizWindowState = (quiz, now = Date.now()) => {
+  if (quiz.opensAt && now < new Date(quiz.opensAt).getTime()) return 'upcoming';
+  if (quiz.closesAt && now >= new Date(quiz.closesAt).getTime()) return 'closed';
+  return 'open';
+};
+
+// Allowance for network latency before an answer counts as late
+export const SUBMISSION_GRACE_MS = 30 * 1000;
+
+// How long after the deadline changes queued offline are still taken, if they claim to have
+// been captured before it. Capture times come from the client, so these changes are held
+// for the teacher to accept rather than counted.
+export const OFFLINE_REPLAY_WINDOW_MS = 10 * 60 * 1000;
+
+// When an attempt's time runs out: its duration from the start, cut short if the quiz closes first.
+// durationMinutes includes any extra time the student is allowed.
+export const attemptDeadline = (quiz, startTime, durationMinutes = quiz.durationMinutes) => {
+  const durationEnd = startTime + durationMinutes * 60 * 1000;
+  return quiz.closesAt ? Math.min(durationEnd, new Date(quiz.closesAt).getTime()) : durationEnd;
+};
+
+// Why the quiz can't be attempted right now, or null while its window is open
+export const quizWindowError = (quiz, now = Date.now()) => {
+  switch (quizWindowState(quiz, now)) {
+    case 'upcoming':
+      return `Quiz opens at ${new Date(quiz.opensAt).toISOString()}`;
+    case 'closed':
+      return `Quiz closed at ${new Date(quiz.closesAt).toISOString()}`;
+    default:
+      return null;
+  }
+};
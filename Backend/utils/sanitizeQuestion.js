@@ -0,0 +1,86 @@
+// Fields that reveal the answer to a question. These are stripped from any
+// question sent to a student until the quiz's answers have been released.
+export const ANSWER_KEY_FIELDS = [
+  'correctAnswerIndex',
+  'correctAnswerIndices',
+  'correctAnswerText',
+  'acceptedAnswers',
+  'numericAnswer',
+  'blanks',
+  'sequenceItems',
+  'matchPairs',
+  'modelAnswer',
+  'codeConfig',
+];
+
+export const shuffle = (items) => {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
+
+// Shuffle sequence items, never handing out the correct order itself
+const shuffleSequence = (items) => {
+  if (items.length < 2) return [...items];
+  let shuffled;
+  do {
+    shuffled = shuffle(items);
+  } while (shuffled.every((item, index) => item === items[index]));
+  return shuffled;
+};
+
+// Student-facing projection of a question (plain object or lean document)
+export const sanitizeQuestion = (question) => {
+  const sanitized = { ...question };
+  ANSWER_KEY_FIELDS.forEach(field => delete sanitized[field]);
+
+  // Students only need to know whether a unit is expected, not which ones
+  if (question.type === 'numeric') {
+    sanitized.requiresUnit = (question.numericAnswer?.units || []).length > 0;
+  }
+
+  // Marks per blank, in placeholder order, so students can see what each is worth
+  if (question.type === 'cloze') {
+    sanitized.blankMarks = (question.blanks || []).map(blank => blank.marks);
+  }
+
+  if (question.type === 'sequence') {
+    sanitized.sequenceOptions = shuffleSequence(question.sequenceItems || []);
+  }
+
+  // Students can run the visible tests themselves; hidden ones are only counted
+  if (question.type === 'code' && question.codeConfig) {
+    const { functionName, starterCode, timeLimitMs, testCases = [] } = question.codeConfig;
+    sanitized.codeConfig = {
+      functionName,
+      starterCode,
+      timeLimitMs,
+      testCases: testCases.filter(t => !t.hidden),
+      hiddenTestCount: testCases.filter(t => t.hidden).length,
+    };
+  }
+
+  // Left items keep their order; the right-hand choices are shuffled and de-duplicated
+  if (question.type === 'matching') {
+    const pairs = question.matchPairs || [];
+    sanitized.matchPrompts = pairs.map(pair => pair.left);
+    sanitized.matchOptions = shuffle([...new Set(pairs.map(pair => pair.right))]);
+  }
+
+  return sanitized;
+};
+
+// Whether answer keys may be served to this user for the given quiz
+export const canViewAnswerKeys = (user, quiz) => {
+  return user.role === 'teacher' || !!quiz?.answersReleased;
+};
+
+// Per-question results give the answer key away as well (which options, blanks, pairs
+// and hidden tests were right), so students only see their overall marks until release
+export const withoutQuestionResults = (attempt) => {
+  const { questionResults, ...rest } = attempt;
+  return rest;
+};
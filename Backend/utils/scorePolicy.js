@@ -0,0 +1,38 @@
+// How a student's result is taken from several submitted attempts at the same quiz
+export const SCORE_POLICIES = ['best', 'latest', 'average'];
+
+const roundMarks = (value) => Math.round(value * 100) / 100;
+
+// Result of a student's submitted attempts under the quiz's policy, or null before any submission.
+// attemptNumber names the attempt that counts ('best' and 'latest' only).
+export const applyScorePolicy = (attempts, policy = 'best') => {
+  const submitted = attempts
+    .filter(attempt => attempt.submitted)
+    .sort((a, b) => (a.attemptNumber || 1) - (b.attemptNumber || 1));
+  if (submitted.length === 0) return null;
+
+  const gradingStatus = submitted.some(attempt => attempt.gradingStatus === 'pending') ? 'pending' : 'complete';
+
+  if (policy === 'average') {
+    return {
+      achievedMarks: roundMarks(submitted.reduce((sum, a) => sum + a.achievedMarks, 0) / submitted.length),
+      score: Math.round(submitted.reduce((sum, a) => sum + a.score, 0) / submitted.length),
+      attemptNumber: null,
+      attemptCount: submitted.length,
+      gradingStatus,
+    };
+  }
+
+  // Ties go to the earlier attempt
+  const counted = policy === 'latest'
+    ? submitted[submitted.length - 1]
+    : submitted.reduce((best, a) => (a.achievedMarks > best.achievedMarks ? a : best));
+
+  return {
+    achievedMarks: counted.achievedMarks,
+    score: counted.score,
+    attemptNumber: counted.attemptNumber || 1,
+    attemptCount: submitted.length,
+    gradingStatus,
+  };
+};
@@ -0,0 +1,127 @@
+// Pairwise comparison of submitted attempts of a quiz, to surface possible collusion.
+// Like the integrity score, each signal adds capped points and explains itself in `reasons`.
+
+const TEXT_ANSWER_TYPES = ['fill-in-the-blank', 'cloze', 'long-answer', 'code'];
+const WRONG_STATUSES = ['incorrect', 'partial'];
+
+const NEAR_TIMING_MS = 2 * 60 * 1000; // Starts and submissions both this close together
+const MIN_REPORTED_SCORE = 20;
+export const MAX_REPORTED_PAIRS = 50;
+
+const normalizeText = (text) => String(text).trim().replace(/\s+/g, ' ').toLowerCase();
+
+const isBlank = (answer) =>
+  answer === undefined || answer === null || answer === '' ||
+  (Array.isArray(answer) && answer.every(item => item === undefined || item === null || item === ''));
+
+// A comparable form of an answer: text is compared loosely, everything else exactly
+const answerKey = (answer, type) => {
+  if (isBlank(answer)) return null;
+  if (TEXT_ANSWER_TYPES.includes(type)) {
+    return Array.isArray(answer) ? JSON.stringify(answer.map(item => normalizeText(item ?? ''))) : normalizeText(answer);
+  }
+  return JSON.stringify(answer);
+};
+
+const formatGap = (ms) => {
+  const seconds = Math.round(ms / 1000);
+  return seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`;
+};
+
+// Per attempt, the comparable answer and its status for each question
+const summarizeAttempt = (attempt, questionTypes) => {
+  const answers = attempt.answers instanceof Map ? Object.fromEntries(attempt.answers) : attempt.answers || {};
+  const statuses = new Map((attempt.questionResults || []).map(r => [r.questionId.toString(), r.status]));
+  const responses = new Map();
+  Object.entries(answers).forEach(([questionId, answer]) => {
+    const type = questionTypes.get(questionId);
+    const key = answerKey(answer, type);
+    if (key !== null) responses.set(questionId, { key, type, status: statuses.get(questionId) });
+  });
+  return { attempt, responses };
+};
+
+const comparePair = (a, b, answerCounts) => {
+  const reasons = [];
+  const questionIds = [];
+  let score = 0;
+
+  // Wrong answers in common, weighted by how few others gave the same one
+  let sharedWrong = 0;
+  let sharedWrongPoints = 0;
+  // Identical typed answers nobody else gave
+  let identicalText = 0;
+
+  a.responses.forEach((response, questionId) => {
+    const other = b.responses.get(questionId);
+    if (!other || other.key !== response.key) return;
+    const givenBy = answerCounts.get(`${questionId}:${response.key}`) || 2;
+
+    if (WRONG_STATUSES.includes(response.status) && WRONG_STATUSES.includes(other.status)) {
+      sharedWrong++;
+      sharedWrongPoints += givenBy <= 2 ? 15 : givenBy <= 4 ? 8 : 3;
+      questionIds.push(questionId);
+    } else if (TEXT_ANSWER_TYPES.includes(response.type) && givenBy <= 2) {
+      identicalText++;
+      questionIds.push(questionId);
+    }
+  });
+
+  if (sharedWrong > 0) {
+    score += Math.min(sharedWrongPoints, 50);
+    reasons.push(`${sharedWrong} identical wrong answer${sharedWrong === 1 ? '' : 's'}`);
+  }
+  if (identicalText > 0) {
+    score += Math.min(identicalText * 10, 30);
+    reasons.push(`${identicalText} identical typed answer${identicalText === 1 ? '' : 's'} no one else gave`);
+  }
+
+  const startGapMs = Math.abs((a.attempt.startTime || 0) - (b.attempt.startTime || 0));
+  const endGapMs = a.attempt.endTime && b.attempt.endTime ? Math.abs(a.attempt.endTime - b.attempt.endTime) : null;
+  if (endGapMs !== null && startGapMs <= NEAR_TIMING_MS && endGapMs <= NEAR_TIMING_MS) {
+    score += 20;
+    reasons.push(`Started ${formatGap(startGapMs)} and submitted ${formatGap(endGapMs)} apart`);
+  }
+
+  return {
+    score: Math.min(100, score),
+    sharedWrongAnswers: sharedWrong,
+    identicalTextAnswers: identicalText,
+    startGapMs,
+    endGapMs,
+    questionIds,
+    reasons,
+  };
+};
+
+// Ranked suspicious pairs among submitted attempts by different students.
+// questionTypes maps question id to question type.
+export const findSimilarAttempts = (attempts, questionTypes) => {
+  const summaries = attempts.map(attempt => summarizeAttempt(attempt, questionTypes));
+
+  // How many attempts gave each answer, so common mistakes count for less
+  const answerCounts = new Map();
+  summaries.forEach(({ responses }) => {
+    responses.forEach((response, questionId) => {
+      const key = `${questionId}:${response.key}`;
+      answerCounts.set(key, (answerCounts.get(key) || 0) + 1);
+    });
+  });
+
+  const pairs = [];
+  for (let i = 0; i < summaries.length; i++) {
+    for (let j = i + 1; j < summaries.length; j++) {
+      const a = summaries[i];
+      const b = summaries[j];
+      if (a.attempt.studentId.toString() === b.attempt.studentId.toString()) continue;
+      const comparison = comparePair(a, b, answerCounts);
+      if (comparison.score >= MIN_REPORTED_SCORE) {
+        pairs.push({ attempts: [a.attempt, b.attempt], ...comparison });
+      }
+    }
+  }
+
+  return pairs
+    .sort((x, y) => y.score - x.score || y.sharedWrongAnswers - x.sharedWrongAnswers)
+    .slice(0, MAX_REPORTED_PAIRS);
+};
@@ -0,0 +1,39 @@
+import React from 'react';
+import { AcceptedAnswer, AnswerMatchMode } from '../types';
+
+interface AcceptedAnswerListProps {
+  acceptedAnswers?: AcceptedAnswer[];
+  correctAnswerText?: string;
+}
+
+const describeMode = (answer: AcceptedAnswer) => {
+  switch (answer.mode) {
+    case AnswerMatchMode.CaseSensitive: return 'case-sensitive';
+    case AnswerMatchMode.Regex: return 'pattern';
+    case AnswerMatchMode.Fuzzy: return `up to ${answer.maxDistance ?? 1} typo${(answer.maxDistance ?? 1) === 1 ? '' : 's'}`;
+    default: return null;
+  }
+};
+
+// Lists every answer a blank accepts, with how each is matched
+const AcceptedAnswerList: React.FC<AcceptedAnswerListProps> = ({ acceptedAnswers, correctAnswerText }) => {
+  const answers = acceptedAnswers?.length
+    ? acceptedAnswers
+    : [{ text: correctAnswerText || '', mode: AnswerMatchMode.Exact }];
+
+  return (
+    <ul className="space-y-1">
+      {answers.map((answer, i) => {
+        const mode = describeMode(answer);
+        return (
+          <li key={i} className="flex items-center gap-2">
+            <span className={answer.mode === AnswerMatchMode.Regex ? 'font-mono text-sm' : ''}>{answer.text}</span>
+            {mode && <span className="text-xs px-2 py-0.5 rounded-full bg-gray-700 text-gray-300">{mode}</span>}
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default AcceptedAnswerList;
@@ -0,0 +1,150 @@
+import React, { useState, useEffect } from 'react';
+import { User, Quiz, Accommodation } from '../types';
+import { apiSaveAccommodation, apiDeleteAccommodation } from '../services/apiService';
+import Button from './common/Button';
+import Modal from './common/Modal';
+
+interface AccommodationModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  classId: string;
+  student: User;
+  quizzes: Quiz[];
+  accommodations: Accommodation[]; // This student's, in this class
+  onChange: () => void;
+}
+
+const CLASS_WIDE = '';
+
+const describeAccommodation = (accommodation: Accommodation) => {
+  const parts: string[] = [];
+  if (accommodation.timeMultiplier > 1) parts.push(`${accommodation.timeMultiplier}× time`);
+  if (accommodation.extraMinutes > 0) parts.push(`+${accommodation.extraMinutes} min`);
+  if (accommodation.tabSwitchThreshold) parts.push(`${accommodation.tabSwitchThreshold} tab switches`);
+  if (accommodation.fullscreenExempt) parts.push('no full-screen');
+  return parts.length > 0 ? parts.join(', ') : 'No changes';
+};
+
+const AccommodationModal: React.FC<AccommodationModalProps> = ({ isOpen, onClose, classId, student, quizzes, accommodations, onChange }) => {
+  const [scope, setScope] = useState(CLASS_WIDE); // A quiz id, or CLASS_WIDE
+  const [timeMultiplier, setTimeMultiplier] = useState(1);
+  const [extraMinutes, setExtraMinutes] = useState(0);
+  const [tabSwitchThreshold, setTabSwitchThreshold] = useState(''); // Empty keeps the quiz's limit
+  const [fullscreenExempt, setFullscreenExempt] = useState(false);
+  const [note, setNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Editing a scope starts from the accommodation already set for it
+  useEffect(() => {
+    if (!isOpen) return;
+    const existing = accommodations.find(a => (a.quizId || CLASS_WIDE) === scope);
+    setTimeMultiplier(existing?.timeMultiplier ?? 1);
+    setExtraMinutes(existing?.extraMinutes ?? 0);
+    setTabSwitchThreshold(existing?.tabSwitchThreshold ? String(existing.tabSwitchThreshold) : '');
+    setFullscreenExempt(existing?.fullscreenExempt ?? false);
+    setNote(existing?.note ?? '');
+  }, [isOpen, scope, accommodations]);
+
+  useEffect(() => {
+    if (isOpen) setScope(CLASS_WIDE);
+  }, [isOpen, student.id]);
+
+  const scopeLabel = (quizId: string | null) =>
+    quizId ? quizzes.find(q => q.id === quizId)?.title || 'Deleted quiz' : 'All quizzes in this class';
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await apiSaveAccommodation({
+        classId,
+        studentId: student.id,
+        quizId: scope || null,
+        timeMultiplier,
+        extraMinutes,
+        tabSwitchThreshold: tabSwitchThreshold ? parseInt(tabSwitchThreshold) : null,
+        fullscreenExempt,
+        note: note.trim(),
+      });
+      onChange();
+    } catch (err: any) {
+      alert(err.message || 'Failed to save accommodation');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async (accommodation: Accommodation) => {
+    if (!window.confirm(`Remove the accommodation for ${scopeLabel(accommodation.quizId).toLowerCase()}?`)) return;
+    try {
+      await apiDeleteAccommodation(accommodation.id);
+      onChange();
+    } catch (err: any) {
+      alert(err.message || 'Failed to remove accommodation');
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={`Accommodations: ${student.name}`} size="lg">
+      <div className="space-y-6">
+        {accommodations.length > 0 ? (
+          <ul className="space-y-2">
+            {accommodations.map(a => (
+              <li key={a.id} className="flex justify-between items-center gap-4 p-3 rounded-lg bg-gray-900/50 border border-gray-700">
+                <div>
+                  <p className="font-semibold text-white">{scopeLabel(a.quizId)}</p>
+                  <p className="text-sm text-gray-400">{describeAccommodation(a)}</p>
+                  {a.note && <p className="text-xs text-gray-500 mt-1">{a.note}</p>}
+                </div>
+                <div className="flex gap-2 flex-shrink-0">
+                  <Button variant="ghost" onClick={() => setScope(a.quizId || CLASS_WIDE)}>Edit</Button>
+                  <Button variant="danger" onClick={() => handleRemove(a)}>Remove</Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-500">{student.name} takes quizzes under the standard settings.</p>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 pt-4 border-t border-gray-700">
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-gray-400">Applies To</label>
+            <select value={scope} onChange={e => setScope(e.target.value)} className="w-full bg-gray-700 border border-gray-600 rounded-md p-2 mt-1">
+              <option value={CLASS_WIDE}>All quizzes in this class</option>
+              {quizzes.map(q => <option key={q.id} value={q.id}>{q.title}</option>)}
+            </select>
+            {scope !== CLASS_WIDE && <p className="text-xs text-gray-500 mt-1">Replaces the class-wide accommodation for this quiz.</p>}
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-400">Time Multiplier</label>
+            <input type="number" value={timeMultiplier} min="1" max="4" step="0.25" onChange={e => setTimeMultiplier(Math.min(4, Math.max(1, parseFloat(e.target.value) || 1)))} className="w-full bg-gray-700 border border-gray-600 rounded-md p-2 mt-1" />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-400">Extra Minutes</label>
+            <input type="number" value={extraMinutes} min="0" max="600" onChange={e => setExtraMinutes(Math.min(600, Math.max(0, parseInt(e.target.value) || 0)))} className="w-full bg-gray-700 border border-gray-600 rounded-md p-2 mt-1" />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-400">Tab Switch Limit</label>
+            <input type="number" value={tabSwitchThreshold} min="1" max="100" placeholder="Quiz default" onChange={e => setTabSwitchThreshold(e.target.value)} className="w-full bg-gray-700 border border-gray-600 rounded-md p-2 mt-1" />
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-400 self-end pb-2">
+            <input type="checkbox" checked={fullscreenExempt} onChange={e => setFullscreenExempt(e.target.checked)} className="form-checkbox h-4 w-4 text-indigo-500 bg-gray-800 border-gray-600 rounded"/>
+            Don't require full-screen
+          </label>
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-gray-400">Note (optional)</label>
+            <input type="text" value={note} maxLength={500} onChange={e => setNote(e.target.value)} placeholder="e.g., Approved by student services" className="w-full bg-gray-700 border border-gray-600 rounded-md p-2 mt-1" />
+          </div>
+          <p className="md:col-span-2 text-xs text-gray-500">Changes apply to attempts started from now on. A quiz's closing time still ends every attempt.</p>
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" onClick={onClose} disabled={isSaving}>Close</Button>
+          <Button onClick={handleSave} disabled={isSaving}>{isSaving ? 'Saving...' : 'Save Accommodation'}</Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default AccommodationModal;
@@ -1,11 +1,13 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { Difficulty, QuestionType, QuestionOption } from '../types';
+import { Difficulty, QuestionType, QuestionOption, ToleranceType, AcceptedAnswer, AnswerMatchMode, ClozeBlank, SequenceGrading, MatchPair, CodeTestCase } from '../types';
 import { apiCreateQuestion } from '../services/apiService';
-import { generateQuestionWithAI } from '../services/geminiService';
+import { generateQuestionWithAI, AI_SUPPORTED_QUESTION_TYPES } from '../services/geminiService';
 import Button from './common/Button';
 import Modal from './common/Modal';
 import Spinner from './common/Spinner';
+import { countClozeBlanks } from '../utils/cloze';
+import { parseTags, parseOutcomes } from '../utils/questionLabels';
 
 interface AddQuestionModalProps {
   isOpen: boolean;
@@ -74,6 +76,73 @@ const ImageUploader: React.FC<{ imageUrl: string, setImageUrl: (url: string) =>
     );
 };
 
+const emptyAcceptedAnswer = (): AcceptedAnswer => ({ text: '', mode: AnswerMatchMode.Exact });
+
+const emptyTestCase = (hidden: boolean): CodeTestCase => ({ input: '', expectedOutput: '', marks: 1, hidden });
+
+const isJson = (text: string) => {
+  try {
+    JSON.parse(text);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Trims accepted answers and drops empty rows
+const cleanAcceptedAnswers = (answers: AcceptedAnswer[]): AcceptedAnswer[] => answers
+  .filter(a => a.text.trim() !== '')
+  .map(a => ({
+    text: a.text.trim(),
+    mode: a.mode,
+    ...(a.mode === AnswerMatchMode.Fuzzy && { maxDistance: a.maxDistance ?? 1 }),
+  }));
+
+// The server matches patterns with RE2, which has no lookarounds or backreferences
+const findInvalidPattern = (answers: AcceptedAnswer[]): AcceptedAnswer | undefined => answers.find(a => {
+  if (a.mode !== AnswerMatchMode.Regex) return false;
+  if (/\(\?<?[=!]|\\[1-9]/.test(a.text)) return true;
+  try {
+    new RegExp(a.text);
+    return false;
+  } catch {
+    return true;
+  }
+});
+
+const AcceptedAnswersEditor: React.FC<{ answers: AcceptedAnswer[], onChange: (answers: AcceptedAnswer[]) => void, placeholder?: string }> = ({ answers, onChange, placeholder = 'Correct Answer' }) => {
+    const handleChange = (index: number, changes: Partial<AcceptedAnswer>) => {
+        const newAnswers = [...answers];
+        newAnswers[index] = { ...newAnswers[index], ...changes };
+        onChange(newAnswers);
+    };
+
+    return (
+        <div className="space-y-2">
+            {answers.map((answer, i) => (
+                <div key={i} className="flex items-center gap-2">
+                    <input type="text" value={answer.text} onChange={e => handleChange(i, { text: e.target.value })} placeholder={answer.mode === AnswerMatchMode.Regex ? 'Pattern, e.g. colou?r' : i === 0 ? placeholder : 'Also accept...'} className={`flex-grow bg-gray-700 border border-gray-600 rounded-md p-2 ${answer.mode === AnswerMatchMode.Regex ? 'font-mono' : ''}`}/>
+                    <select value={answer.mode} onChange={e => handleChange(i, { mode: e.target.value as AnswerMatchMode })} className="bg-gray-700 border border-gray-600 rounded-md p-2 text-sm">
+                        <option value={AnswerMatchMode.Exact}>Exact (ignore case)</option>
+                        <option value={AnswerMatchMode.CaseSensitive}>Case-sensitive</option>
+                        <option value={AnswerMatchMode.Regex}>Regex</option>
+                        <option value={AnswerMatchMode.Fuzzy}>Allow typos</option>
+                    </select>
+                    {answer.mode === AnswerMatchMode.Fuzzy && (
+                        <input type="number" min="0" max="5" value={answer.maxDistance ?? 1} onChange={e => handleChange(i, { maxDistance: Math.min(5, Math.max(0, parseInt(e.target.value) || 0)) })} title="Maximum typos" className="w-16 bg-gray-700 border border-gray-600 rounded-md p-2 text-sm"/>
+                    )}
+                    {answers.length > 1 && (
+                        <button type="button" onClick={() => onChange(answers.filter((_, idx) => idx !== i))} className="text-gray-400 hover:text-red-400 px-2" title="Remove answer">×</button>
+                    )}
+                </div>
+            ))}
+            <Button type="button" variant="ghost" onClick={() => onChange([...answers, emptyAcceptedAnswer()])} className="text-xs p-2">
+                + Add accepted answer
+            </Button>
+        </div>
+    );
+};
+
 const AddQuestionModal: React.FC<AddQuestionModalProps> = ({ isOpen, onClose, teacherId, subjectName, onQuestionAdded }) => {
   const [questionType, setQuestionType] = useState<QuestionType>(QuestionType.SingleCorrect);
   const [text, setText] = useState('');
@@ -82,16 +151,42 @@ const AddQuestionModal: React.FC<AddQuestionModalProps> = ({ isOpen, onClose, te
   const [options, setOptions] = useState<QuestionOption[]>([{ text: '' }, { text: '' }, { text: '' }, { text: '' }]);
   const [correctAnswerIndex, setCorrectAnswerIndex] = useState(0);
   const [correctAnswerIndices, setCorrectAnswerIndices] = useState<number[]>([]);
-  const [correctAnswerText, setCorrectAnswerText] = useState('');
+  const [acceptedAnswers, setAcceptedAnswers] = useState<AcceptedAnswer[]>([emptyAcceptedAnswer()]);
+  const [blanks, setBlanks] = useState<ClozeBlank[]>([]);
+  const [sequenceItems, setSequenceItems] = useState<string[]>(['', '', '', '']);
+  const [sequenceGrading, setSequenceGrading] = useState<SequenceGrading>(SequenceGrading.Exact);
+  const [matchPairs, setMatchPairs] = useState<MatchPair[]>([{ left: '', right: '' }, { left: '', right: '' }, { left: '', right: '' }]);
+  const [modelAnswer, setModelAnswer] = useState('');
+  const [functionName, setFunctionName] = useState('');
+  const [starterCode, setStarterCode] = useState('');
+  const [timeLimitMs, setTimeLimitMs] = useState(1000);
+  const [testCases, setTestCases] = useState<CodeTestCase[]>([emptyTestCase(false), emptyTestCase(true)]);
+  const [numericValue, setNumericValue] = useState('');
+  const [tolerance, setTolerance] = useState(0);
+  const [toleranceType, setToleranceType] = useState<ToleranceType>(ToleranceType.Absolute);
+  const [units, setUnits] = useState('');
   const [difficulty, setDifficulty] = useState<Difficulty>(Difficulty.Medium);
+  const [tagsText, setTagsText] = useState(''); // Comma-separated
+  const [outcomesText, setOutcomesText] = useState(''); // One per line
   
   const [aiTopic, setAiTopic] = useState('');
   const [aiQuestionType, setAiQuestionType] = useState<QuestionType>(QuestionType.SingleCorrect);
   const [isGenerating, setIsGenerating] = useState(false);
 
-  // Sync AI question type with the main question type
+  // Keep one blank per ___ placeholder while a cloze question is being written
+  useEffect(() => {
+    if (questionType !== QuestionType.Cloze) return;
+    const blankCount = countClozeBlanks(text);
+    setBlanks(prev => prev.length === blankCount
+      ? prev
+      : Array.from({ length: blankCount }, (_, i) => prev[i] || { acceptedAnswers: [emptyAcceptedAnswer()], marks: 1 }));
+  }, [questionType, text]);
+
+  // Sync AI question type with the main question type when AI can generate it
   useEffect(() => {
-    setAiQuestionType(questionType);
+    if (AI_SUPPORTED_QUESTION_TYPES.includes(questionType)) {
+      setAiQuestionType(questionType);
+    }
   }, [questionType]);
 
   const resetForm = () => {
@@ -102,8 +197,23 @@ const AddQuestionModal: React.FC<AddQuestionModalProps> = ({ isOpen, onClose, te
     setOptions([{ text: '' }, { text: '' }, { text: '' }, { text: '' }]);
     setCorrectAnswerIndex(0);
     setCorrectAnswerIndices([]);
-    setCorrectAnswerText('');
+    setAcceptedAnswers([emptyAcceptedAnswer()]);
+    setBlanks([]);
+    setSequenceItems(['', '', '', '']);
+    setSequenceGrading(SequenceGrading.Exact);
+    setMatchPairs([{ left: '', right: '' }, { left: '', right: '' }, { left: '', right: '' }]);
+    setModelAnswer('');
+    setFunctionName('');
+    setStarterCode('');
+    setTimeLimitMs(1000);
+    setTestCases([emptyTestCase(false), emptyTestCase(true)]);
+    setNumericValue('');
+    setTolerance(0);
+    setToleranceType(ToleranceType.Absolute);
+    setUnits('');
     setDifficulty(Difficulty.Medium);
+    setTagsText('');
+    setOutcomesText('');
     setAiTopic('');
     setAiQuestionType(QuestionType.SingleCorrect);
     onClose();
@@ -123,6 +233,8 @@ const AddQuestionModal: React.FC<AddQuestionModalProps> = ({ isOpen, onClose, te
       marks,
       authorId: teacherId,
       subject: subjectName,
+      tags: parseTags(tagsText),
+      learningOutcomes: parseOutcomes(outcomesText),
     };
 
     // Add imageUrl only if present
@@ -131,13 +243,112 @@ const AddQuestionModal: React.FC<AddQuestionModalProps> = ({ isOpen, onClose, te
     }
 
     if (questionType === QuestionType.FillInTheBlank) {
-      if (!correctAnswerText.trim()) {
+      const validAnswers = cleanAcceptedAnswers(acceptedAnswers);
+      if (validAnswers.length === 0) {
         alert('Please enter the correct answer.');
         return;
       }
-      questionToAdd.correctAnswerText = correctAnswerText.trim();
+      const invalidPattern = findInvalidPattern(validAnswers);
+      if (invalidPattern) {
+        alert(`"${invalidPattern.text}" is not a valid pattern. Lookarounds and backreferences are not supported.`);
+        return;
+      }
+      // The first accepted answer is the one shown to students as the correct answer
+      questionToAdd.correctAnswerText = validAnswers[0].text;
+      questionToAdd.acceptedAnswers = validAnswers;
       // Explicitly omit option-related fields
       questionToAdd.options = [];
+    } else if (questionType === QuestionType.Cloze) {
+      if (blanks.length === 0) {
+        alert('Please mark at least one blank in the question text with ___.');
+        return;
+      }
+      const cleanedBlanks = blanks.map(blank => ({ ...blank, acceptedAnswers: cleanAcceptedAnswers(blank.acceptedAnswers) }));
+      const emptyBlank = cleanedBlanks.findIndex(blank => blank.acceptedAnswers.length === 0);
+      if (emptyBlank !== -1) {
+        alert(`Please enter an answer for blank ${emptyBlank + 1}.`);
+        return;
+      }
+      const invalidPattern = findInvalidPattern(cleanedBlanks.flatMap(blank => blank.acceptedAnswers));
+      if (invalidPattern) {
+        alert(`"${invalidPattern.text}" is not a valid pattern. Lookarounds and backreferences are not supported.`);
+        return;
+      }
+      questionToAdd.blanks = cleanedBlanks;
+      questionToAdd.marks = cleanedBlanks.reduce((sum, blank) => sum + blank.marks, 0);
+      questionToAdd.options = [];
+    } else if (questionType === QuestionType.Sequence) {
+      const validItems = sequenceItems.map(item => item.trim()).filter(item => item !== '');
+      if (validItems.length < 2) {
+        alert('Please provide at least 2 items.');
+        return;
+      }
+      if (new Set(validItems).size !== validItems.length) {
+        alert('Each item in the sequence must be different.');
+        return;
+      }
+      questionToAdd.sequenceItems = validItems;
+      questionToAdd.sequenceGrading = sequenceGrading;
+      questionToAdd.options = [];
+    } else if (questionType === QuestionType.Matching) {
+      const validPairs = matchPairs
+        .map(pair => ({ left: pair.left.trim(), right: pair.right.trim() }))
+        .filter(pair => pair.left !== '' || pair.right !== '');
+      if (validPairs.length < 2) {
+        alert('Please provide at least 2 pairs.');
+        return;
+      }
+      if (validPairs.some(pair => pair.left === '' || pair.right === '')) {
+        alert('Please fill in both sides of every pair.');
+        return;
+      }
+      if (new Set(validPairs.map(pair => pair.left)).size !== validPairs.length) {
+        alert('Each left-hand item must be different.');
+        return;
+      }
+      questionToAdd.matchPairs = validPairs;
+      questionToAdd.options = [];
+    } else if (questionType === QuestionType.Code) {
+      if (!/^[A-Za-z_$][A-Za-z0-9_$]*$/.test(functionName.trim())) {
+        alert('Please enter a valid JavaScript function name.');
+        return;
+      }
+      const validTests = testCases.filter(t => t.input.trim() !== '' || t.expectedOutput.trim() !== '');
+      if (validTests.length === 0) {
+        alert('Please add at least one test case.');
+        return;
+      }
+      const invalidTest = validTests.findIndex(t => !isJson(t.input) || !Array.isArray(JSON.parse(t.input)) || !isJson(t.expectedOutput));
+      if (invalidTest !== -1) {
+        alert(`Test case ${invalidTest + 1} needs a JSON array of arguments and a JSON expected output, e.g. [2, 3] and 5.`);
+        return;
+      }
+      questionToAdd.codeConfig = {
+        functionName: functionName.trim(),
+        starterCode,
+        timeLimitMs,
+        testCases: validTests.map(t => ({ ...t, input: t.input.trim(), expectedOutput: t.expectedOutput.trim() })),
+      };
+      questionToAdd.marks = validTests.reduce((sum, t) => sum + t.marks, 0);
+      questionToAdd.options = [];
+    } else if (questionType === QuestionType.LongAnswer) {
+      if (modelAnswer.trim()) {
+        questionToAdd.modelAnswer = modelAnswer.trim();
+      }
+      questionToAdd.options = [];
+    } else if (questionType === QuestionType.Numeric) {
+      const value = parseFloat(numericValue);
+      if (!Number.isFinite(value)) {
+        alert('Please enter a numeric correct answer.');
+        return;
+      }
+      questionToAdd.numericAnswer = {
+        value,
+        tolerance,
+        toleranceType,
+        units: units.split(',').map(u => u.trim()).filter(u => u !== ''),
+      };
+      questionToAdd.options = [];
     } else {
       // Validate options
       const validOptions = options.filter(o => o.text.trim() !== '');
@@ -196,13 +407,17 @@ const AddQuestionModal: React.FC<AddQuestionModalProps> = ({ isOpen, onClose, te
           if (generated.type === QuestionType.SingleCorrect) {
               setCorrectAnswerIndex(generated.correctAnswerIndex ?? 0);
               setCorrectAnswerIndices([]);
-              setCorrectAnswerText('');
+              setAcceptedAnswers([emptyAcceptedAnswer()]);
           } else if (generated.type === QuestionType.MultipleCorrect) {
               setCorrectAnswerIndices(generated.correctAnswerIndices || []);
               setCorrectAnswerIndex(0);
-              setCorrectAnswerText('');
+              setAcceptedAnswers([emptyAcceptedAnswer()]);
           } else if (generated.type === QuestionType.FillInTheBlank) {
-              setCorrectAnswerText(generated.correctAnswerText || '');
+              setAcceptedAnswers([{ text: generated.correctAnswerText || '', mode: AnswerMatchMode.Exact }]);
+              setCorrectAnswerIndex(0);
+              setCorrectAnswerIndices([]);
+          } else if (generated.type === QuestionType.Cloze) {
+              setBlanks(generated.blanks || []);
               setCorrectAnswerIndex(0);
               setCorrectAnswerIndices([]);
           }
@@ -217,6 +432,38 @@ const AddQuestionModal: React.FC<AddQuestionModalProps> = ({ isOpen, onClose, te
     setOptions(newOptions);
   };
   
+  const handleBlankChange = (index: number, changes: Partial<ClozeBlank>) => {
+    const newBlanks = [...blanks];
+    newBlanks[index] = { ...newBlanks[index], ...changes };
+    setBlanks(newBlanks);
+  };
+
+  const handleSequenceItemChange = (index: number, value: string) => {
+    const newItems = [...sequenceItems];
+    newItems[index] = value;
+    setSequenceItems(newItems);
+  };
+
+  const moveSequenceItem = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= sequenceItems.length) return;
+    const newItems = [...sequenceItems];
+    [newItems[index], newItems[target]] = [newItems[target], newItems[index]];
+    setSequenceItems(newItems);
+  };
+
+  const handleMatchPairChange = (index: number, side: keyof MatchPair, value: string) => {
+    const newPairs = [...matchPairs];
+    newPairs[index] = { ...newPairs[index], [side]: value };
+    setMatchPairs(newPairs);
+  };
+
+  const handleTestCaseChange = (index: number, changes: Partial<CodeTestCase>) => {
+    const newTests = [...testCases];
+    newTests[index] = { ...newTests[index], ...changes };
+    setTestCases(newTests);
+  };
+
   const handleMultiCorrectChange = (index: number) => {
     const newIndices = correctAnswerIndices.includes(index)
       ? correctAnswerIndices.filter(i => i !== index)
@@ -243,7 +490,144 @@ const AddQuestionModal: React.FC<AddQuestionModalProps> = ({ isOpen, onClose, te
           </div>
         ));
       case QuestionType.FillInTheBlank:
-        return <input type="text" value={correctAnswerText} onChange={e => setCorrectAnswerText(e.target.value)} placeholder="Correct Answer" className="w-full bg-gray-700 border border-gray-600 rounded-md p-2"/>;
+        return <AcceptedAnswersEditor answers={acceptedAnswers} onChange={setAcceptedAnswers} />;
+      case QuestionType.Cloze:
+        if (blanks.length === 0) {
+          return <p className="text-sm text-gray-500">Type ___ in the question text for each blank, e.g. "The capital of France is ___ and it lies on the ___."</p>;
+        }
+        return blanks.map((blank, i) => (
+          <div key={i} className="p-3 bg-gray-900/50 rounded-lg space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-semibold text-indigo-300">Blank {i + 1}</span>
+              <label className="flex items-center gap-2 text-xs text-gray-400">
+                Marks
+                <input type="number" min="1" value={blank.marks} onChange={e => handleBlankChange(i, { marks: parseInt(e.target.value) || 1 })} className="w-16 bg-gray-700 border border-gray-600 rounded-md p-1 text-sm"/>
+              </label>
+            </div>
+            <AcceptedAnswersEditor answers={blank.acceptedAnswers} onChange={answers => handleBlankChange(i, { acceptedAnswers: answers })} placeholder={`Answer for blank ${i + 1}`} />
+          </div>
+        ));
+      case QuestionType.Sequence:
+        return (
+          <div className="space-y-2">
+            <p className="text-xs text-gray-500">Enter the items in their correct order. Students will see them shuffled.</p>
+            {sequenceItems.map((item, i) => (
+              <div key={i} className="flex items-center gap-2">
+                <span className="font-mono text-sm text-gray-400 w-6 text-right">{i + 1}.</span>
+                <input type="text" value={item} onChange={e => handleSequenceItemChange(i, e.target.value)} placeholder={`Step ${i + 1}`} className="flex-grow bg-gray-700 border border-gray-600 rounded-md p-2 text-sm"/>
+                <button type="button" onClick={() => moveSequenceItem(i, -1)} disabled={i === 0} className="text-gray-400 hover:text-white disabled:opacity-30 px-1" title="Move up">▲</button>
+                <button type="button" onClick={() => moveSequenceItem(i, 1)} disabled={i === sequenceItems.length - 1} className="text-gray-400 hover:text-white disabled:opacity-30 px-1" title="Move down">▼</button>
+                {sequenceItems.length > 2 && (
+                  <button type="button" onClick={() => setSequenceItems(sequenceItems.filter((_, idx) => idx !== i))} className="text-gray-400 hover:text-red-400 px-2" title="Remove item">×</button>
+                )}
+              </div>
+            ))}
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <Button type="button" variant="ghost" onClick={() => setSequenceItems([...sequenceItems, ''])} disabled={sequenceItems.length >= 20} className="text-xs p-2">
+                + Add item
+              </Button>
+              <label className="flex items-center gap-2 text-xs text-gray-400">
+                Grading
+                <select value={sequenceGrading} onChange={e => setSequenceGrading(e.target.value as SequenceGrading)} className="bg-gray-700 border border-gray-600 rounded-md p-2 text-sm">
+                  <option value={SequenceGrading.Exact}>Exact order only</option>
+                  <option value={SequenceGrading.AdjacentPairs}>Partial credit per correct adjacent pair</option>
+                </select>
+              </label>
+            </div>
+          </div>
+        );
+      case QuestionType.Matching:
+        return (
+          <div className="space-y-2">
+            <p className="text-xs text-gray-500">Students match each left-hand item to one of the right-hand items, which are shown shuffled. The same right-hand item may be used more than once.</p>
+            {matchPairs.map((pair, i) => (
+              <div key={i} className="flex items-center gap-2">
+                <input type="text" value={pair.left} onChange={e => handleMatchPairChange(i, 'left', e.target.value)} placeholder={`Item ${i + 1}`} className="flex-1 bg-gray-700 border border-gray-600 rounded-md p-2 text-sm"/>
+                <span className="text-gray-400">↔</span>
+                <input type="text" value={pair.right} onChange={e => handleMatchPairChange(i, 'right', e.target.value)} placeholder={`Match ${i + 1}`} className="flex-1 bg-gray-700 border border-gray-600 rounded-md p-2 text-sm"/>
+                {matchPairs.length > 2 && (
+                  <button type="button" onClick={() => setMatchPairs(matchPairs.filter((_, idx) => idx !== i))} className="text-gray-400 hover:text-red-400 px-2" title="Remove pair">×</button>
+                )}
+              </div>
+            ))}
+            <Button type="button" variant="ghost" onClick={() => setMatchPairs([...matchPairs, { left: '', right: '' }])} disabled={matchPairs.length >= 20} className="text-xs p-2">
+              + Add pair
+            </Button>
+          </div>
+        );
+      case QuestionType.Code:
+        return (
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-xs text-gray-400">Function Name</label>
+                <input type="text" value={functionName} onChange={e => setFunctionName(e.target.value)} placeholder="e.g. binarySearch" className="w-full bg-gray-700 border border-gray-600 rounded-md p-2 mt-1 font-mono text-sm"/>
+              </div>
+              <div>
+                <label className="block text-xs text-gray-400">Time Limit per Test (ms)</label>
+                <input type="number" min="100" max="5000" step="100" value={timeLimitMs} onChange={e => setTimeLimitMs(Math.min(5000, Math.max(100, parseInt(e.target.value) || 1000)))} className="w-full bg-gray-700 border border-gray-600 rounded-md p-2 mt-1"/>
+              </div>
+            </div>
+            <div>
+              <label className="block text-xs text-gray-400">Starter Code (optional)</label>
+              <textarea value={starterCode} onChange={e => setStarterCode(e.target.value)} placeholder={`function ${functionName || 'solve'}(arr, target) {\n  // ...\n}`} rows={4} spellCheck={false} className="w-full bg-gray-900 border border-gray-600 rounded-md p-2 mt-1 font-mono text-sm"/>
+            </div>
+            <div className="space-y-2">
+              <p className="text-xs text-gray-500">Arguments are a JSON array, the expected output is the JSON return value. Visible tests can be run by students while answering.</p>
+              {testCases.map((testCase, i) => (
+                <div key={i} className="flex items-center gap-2">
+                  <input type="text" value={testCase.input} onChange={e => handleTestCaseChange(i, { input: e.target.value })} placeholder="Arguments, e.g. [[1,3,5], 3]" className="flex-1 bg-gray-700 border border-gray-600 rounded-md p-2 font-mono text-xs"/>
+                  <input type="text" value={testCase.expectedOutput} onChange={e => handleTestCaseChange(i, { expectedOutput: e.target.value })} placeholder="Expected, e.g. 1" className="flex-1 bg-gray-700 border border-gray-600 rounded-md p-2 font-mono text-xs"/>
+                  <input type="number" min="1" value={testCase.marks} onChange={e => handleTestCaseChange(i, { marks: parseInt(e.target.value) || 1 })} title="Marks" className="w-14 bg-gray-700 border border-gray-600 rounded-md p-2 text-xs"/>
+                  <label className="flex items-center gap-1 text-xs text-gray-400" title="Hidden tests only run on submission">
+                    <input type="checkbox" checked={testCase.hidden} onChange={e => handleTestCaseChange(i, { hidden: e.target.checked })} className="form-checkbox h-4 w-4 text-indigo-500 bg-gray-800 border-gray-600 rounded"/>
+                    Hidden
+                  </label>
+                  {testCases.length > 1 && (
+                    <button type="button" onClick={() => setTestCases(testCases.filter((_, idx) => idx !== i))} className="text-gray-400 hover:text-red-400 px-2" title="Remove test">×</button>
+                  )}
+                </div>
+              ))}
+              <Button type="button" variant="ghost" onClick={() => setTestCases([...testCases, emptyTestCase(true)])} disabled={testCases.length >= 30} className="text-xs p-2">
+                + Add test case
+              </Button>
+            </div>
+          </div>
+        );
+      case QuestionType.LongAnswer:
+        return (
+          <div className="space-y-1">
+            <textarea value={modelAnswer} onChange={e => setModelAnswer(e.target.value)} placeholder="Model answer or marking guidance (optional)" rows={4} className="w-full bg-gray-700 border border-gray-600 rounded-md p-2"/>
+            <p className="text-xs text-gray-500">Long answers are graded manually. Students see the model answer only after answers are released.</p>
+          </div>
+        );
+      case QuestionType.Numeric:
+        return (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-xs text-gray-400">Correct Value</label>
+              <input type="number" step="any" value={numericValue} onChange={e => setNumericValue(e.target.value)} placeholder="e.g. 9.81" className="w-full bg-gray-700 border border-gray-600 rounded-md p-2 mt-1"/>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="block text-xs text-gray-400">Tolerance (±)</label>
+                <input type="number" step="any" min="0" value={tolerance} onChange={e => setTolerance(Math.max(0, parseFloat(e.target.value) || 0))} className="w-full bg-gray-700 border border-gray-600 rounded-md p-2 mt-1"/>
+              </div>
+              <div>
+                <label className="block text-xs text-gray-400">Tolerance Type</label>
+                <select value={toleranceType} onChange={e => setToleranceType(e.target.value as ToleranceType)} className="w-full bg-gray-700 border border-gray-600 rounded-md p-2 mt-1">
+                  <option value={ToleranceType.Absolute}>Absolute</option>
+                  <option value={ToleranceType.Relative}>Relative (%)</option>
+                </select>
+              </div>
+            </div>
+            <div className="md:col-span-2">
+              <label className="block text-xs text-gray-400">Accepted Units (optional, comma-separated)</label>
+              <input type="text" value={units} onChange={e => setUnits(e.target.value)} placeholder="e.g. m/s, m s^-1" className="w-full bg-gray-700 border border-gray-600 rounded-md p-2 mt-1"/>
+              <p className="text-xs text-gray-500 mt-1">Leave empty if the answer has no unit.</p>
+            </div>
+          </div>
+        );
       default: return null;
     }
   }
@@ -256,7 +640,7 @@ const AddQuestionModal: React.FC<AddQuestionModalProps> = ({ isOpen, onClose, te
             <div className="flex flex-wrap gap-2 items-center">
                 <input type="text" value={aiTopic} onChange={e => setAiTopic(e.target.value)} placeholder={`Topic (e.g., 'React Hooks')`} className="flex-grow bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-sm min-w-[200px]"/>
                 <select value={aiQuestionType} onChange={e => setAiQuestionType(e.target.value as QuestionType)} className="bg-gray-700 border border-gray-600 rounded-md p-2 text-sm">
-                    {Object.values(QuestionType).map(d => <option key={d} value={d}>{d}</option>)}
+                    {AI_SUPPORTED_QUESTION_TYPES.map(d => <option key={d} value={d}>{d}</option>)}
                 </select>
                 <Button onClick={handleGenerateAI} disabled={isGenerating} className="whitespace-nowrap">
                     {isGenerating ? <Spinner size="sm"/> : 'Generate'}
@@ -280,7 +664,11 @@ const AddQuestionModal: React.FC<AddQuestionModalProps> = ({ isOpen, onClose, te
                 </div>
                 <div>
                     <label className="block text-sm font-medium text-gray-400">Marks</label>
-                    <input type="number" value={marks} min="1" onChange={e => setMarks(parseInt(e.target.value) || 1)} className="w-full bg-gray-700 border border-gray-600 rounded-md p-2 mt-1"/>
+                    {questionType === QuestionType.Cloze || questionType === QuestionType.Code ? (
+                      <input type="number" value={questionType === QuestionType.Cloze ? blanks.reduce((sum, blank) => sum + blank.marks, 0) : testCases.reduce((sum, t) => sum + t.marks, 0)} disabled title={questionType === QuestionType.Cloze ? 'Sum of the blank marks' : 'Sum of the test case marks'} className="w-full bg-gray-700 border border-gray-600 rounded-md p-2 mt-1 opacity-60"/>
+                    ) : (
+                      <input type="number" value={marks} min="1" onChange={e => setMarks(parseInt(e.target.value) || 1)} className="w-full bg-gray-700 border border-gray-600 rounded-md p-2 mt-1"/>
+                    )}
                 </div>
             </div>
           </div>
@@ -293,9 +681,20 @@ const AddQuestionModal: React.FC<AddQuestionModalProps> = ({ isOpen, onClose, te
               {imageUrl && <span className="text-xs text-gray-500">✓ Image added</span>}
             </div>
           </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-400">Tags (optional)</label>
+              <input type="text" value={tagsText} onChange={e => setTagsText(e.target.value)} placeholder="e.g. algebra, revision" className="w-full bg-gray-700 border border-gray-600 rounded-md p-2 mt-1" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-400">Learning Outcomes (optional, one per line)</label>
+              <textarea value={outcomesText} onChange={e => setOutcomesText(e.target.value)} rows={2} className="w-full bg-gray-700 border border-gray-600 rounded-md p-2 mt-1" />
+            </div>
+          </div>
          
           <div className="space-y-2 pt-2">
-            <h4 className="text-sm font-medium text-gray-400">{questionType === QuestionType.FillInTheBlank ? "Correct Answer" : "Options & Correct Answer(s)"}</h4>
+            <h4 className="text-sm font-medium text-gray-400">{questionType === QuestionType.Cloze ? "Blanks" : questionType === QuestionType.Sequence ? "Items in Correct Order" : questionType === QuestionType.Matching ? "Pairs" : questionType === QuestionType.LongAnswer ? "Model Answer" : questionType === QuestionType.Code ? "Function & Test Cases" : questionType === QuestionType.FillInTheBlank || questionType === QuestionType.Numeric ? "Correct Answer" : "Options & Correct Answer(s)"}</h4>
             {renderAnswerFields()}
           </div>
           
@@ -1,5 +1,5 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { User, Class, Quiz, Question } from '../types';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { User, Class, Quiz, Question, QuestionType, QuizMode, Accommodation } from '../types';
 import { 
   apiGetTeacherClasses, 
   apiCreateClass, 
@@ -9,13 +9,20 @@ import {
   apiUpdateQuizStatus,
   apiDeleteQuiz,
   apiGetClassMembers,
+  apiGetClassAccommodations,
   apiGetQuestionsByAuthor
 } from '../services/apiService';
 import Button from './common/Button';
 import CreateQuizModal from './CreateQuizModal';
 import QuizResultsModal from './QuizResultsModal';
+import ManualGradingModal from './ManualGradingModal';
+import AccommodationModal from './AccommodationModal';
+import LiveMonitorModal from './LiveMonitorModal';
 import Modal from './common/Modal';
 import Spinner from './common/Spinner';
+import QuizWindowBadge from './QuizWindowBadge';
+import { quizMayInclude, quizQuestionCount } from '../utils/questionPool';
+import { useNow } from '../hooks/useNow';
 
 interface ClassesViewProps {
   teacher: User;
@@ -25,11 +32,14 @@ const ClassesView: React.FC<ClassesViewProps> = ({ teacher }) => {
   const [classes, setClasses] = useState<Class[]>([]);
   const [selectedClass, setSelectedClass] = useState<Class | null>(null);
   const [quizzes, setQuizzes] = useState<Quiz[]>([]);
+  const now = useNow();
   const [questions, setQuestions] = useState<Question[]>([]);
   
   const [isCreateQuizOpen, setCreateQuizOpen] = useState(false);
   const [isResultsOpen, setResultsOpen] =useState(false);
   const [selectedQuizForResults, setSelectedQuizForResults] = useState<Quiz | null>(null);
+  const [quizToGrade, setQuizToGrade] = useState<Quiz | null>(null);
+  const [quizToMonitor, setQuizToMonitor] = useState<Quiz | null>(null);
   
   const [isAddClassModalOpen, setAddClassModalOpen] = useState(false);
   const [newClassName, setNewClassName] = useState('');
@@ -40,6 +50,8 @@ const ClassesView: React.FC<ClassesViewProps> = ({ teacher }) => {
   
   const [activeTab, setActiveTab] = useState<'quizzes' | 'members'>('quizzes');
   const [classMembers, setClassMembers] = useState<User[]>([]);
+  const [accommodations, setAccommodations] = useState<Accommodation[]>([]);
+  const [studentForAccommodations, setStudentForAccommodations] = useState<User | null>(null);
   const [copiedCodeClassId, setCopiedCodeClassId] = useState<string | null>(null);
   
   const [isLoadingClasses, setIsLoadingClasses] = useState(false);
@@ -76,25 +88,46 @@ const ClassesView: React.FC<ClassesViewProps> = ({ teacher }) => {
     if (selectedClass) {
       setIsLoadingQuizzes(true);
       try {
-        const [classQuizzes, members] = await Promise.all([
+        const [classQuizzes, members, classAccommodations] = await Promise.all([
           apiGetQuizzesByClass(selectedClass.id),
-          apiGetClassMembers(selectedClass.id)
+          apiGetClassMembers(selectedClass.id),
+          apiGetClassAccommodations(selectedClass.id)
         ]);
         setQuizzes(classQuizzes.sort((a,b) => (a.isReleased === b.isReleased) ? 0 : a.isReleased ? 1 : -1));
         setClassMembers(members);
+        setAccommodations(classAccommodations);
       } catch (err: any) {
         console.error('Error fetching quizzes:', err);
         setQuizzes([]);
         setClassMembers([]);
+        setAccommodations([]);
       } finally {
         setIsLoadingQuizzes(false);
       }
     } else {
       setQuizzes([]);
       setClassMembers([]);
+      setAccommodations([]);
     }
   }, [selectedClass]);
 
+  const refreshAccommodations = async () => {
+    if (!selectedClass) return;
+    try {
+      setAccommodations(await apiGetClassAccommodations(selectedClass.id));
+    } catch (err: any) {
+      setError(err.message || 'Failed to load accommodations');
+    }
+  };
+
+  const accommodationsFor = (studentId: string) => accommodations.filter(a => a.studentId === studentId);
+
+  // Kept stable across re-renders so the modal's form isn't reset while it's being edited
+  const openStudentAccommodations = useMemo(
+    () => studentForAccommodations ? accommodations.filter(a => a.studentId === studentForAccommodations.id) : [],
+    [accommodations, studentForAccommodations]
+  );
+
   useEffect(() => {
     const loadData = async () => {
       await fetchClasses();
@@ -120,6 +153,9 @@ const ClassesView: React.FC<ClassesViewProps> = ({ teacher }) => {
     setSelectedQuizForResults(quiz);
     setResultsOpen(true);
   };
+
+  const hasLongAnswerQuestions = (quiz: Quiz) =>
+    questions.some(q => q.type === QuestionType.LongAnswer && quizMayInclude(quiz, q));
   
   const handleCreateClass = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -189,7 +225,11 @@ const ClassesView: React.FC<ClassesViewProps> = ({ teacher }) => {
 
   const getStatusBadge = (quiz: Quiz) => {
     if (quiz.answersReleased) return <span className="text-xs px-2 py-1 rounded-full bg-blue-800 text-blue-200 font-semibold">Answers Released</span>;
-    if (quiz.isReleased) return <span className="text-xs px-2 py-1 rounded-full bg-green-800 text-green-200 font-semibold">Live</span>;
+    if (quiz.isReleased) return (
+      <QuizWindowBadge quiz={quiz} now={now}>
+        <span className="text-xs px-2 py-1 rounded-full bg-green-800 text-green-200 font-semibold">Live</span>
+      </QuizWindowBadge>
+    );
     return <span className="text-xs px-2 py-1 rounded-full bg-yellow-800 text-yellow-200 font-semibold">Draft</span>
   };
 
@@ -284,14 +324,17 @@ const ClassesView: React.FC<ClassesViewProps> = ({ teacher }) => {
                                                 <p className="font-bold text-lg text-white">{quiz.title}</p>
                                                 <div className="flex items-center text-xs text-gray-400 space-x-2 mt-1">
                                                     <span>{quiz.subject}</span><span>&bull;</span>
-                                                    <span>{quiz.questionIds.length} Qs</span><span>&bull;</span>
+                                                    <span>{quizQuestionCount(quiz)} Qs</span><span>&bull;</span>
                                                     <span>{quiz.totalMarks} Marks</span><span>&bull;</span>
-                                                    <span>{quiz.durationMinutes} Min</span>
+                                                    <span>{quiz.mode === QuizMode.Practice ? 'Untimed' : `${quiz.durationMinutes} Min`}</span>
+                                                    {quiz.mode === QuizMode.Practice && <span className="px-2 py-0.5 rounded-full bg-teal-800 text-teal-200 font-semibold">Practice</span>}
                                                 </div>
                                             </div>
                                             <div className="flex-shrink-0">{getStatusBadge(quiz)}</div>
                                         </div>
                                         <div className="pt-3 border-t border-gray-600 flex justify-end gap-2">
+                                            {quiz.isReleased && hasLongAnswerQuestions(quiz) && <Button onClick={() => setQuizToGrade(quiz)} variant="secondary">Grade Responses</Button>}
+                                            {quiz.isReleased && quiz.mode !== QuizMode.Practice && <Button onClick={() => setQuizToMonitor(quiz)} variant="secondary">Live Monitor</Button>}
                                             <Button onClick={() => openResults(quiz)} variant="secondary">View Results</Button>
                                             {!quiz.isReleased && <Button onClick={() => handleQuizStatusUpdate(quiz.id, {isReleased: true})}>Release Quiz</Button>}
                                             {quiz.isReleased && !quiz.answersReleased && <Button onClick={() => handleQuizStatusUpdate(quiz.id, {answersReleased: true})}>Release Answers</Button>}
@@ -308,11 +351,22 @@ const ClassesView: React.FC<ClassesViewProps> = ({ teacher }) => {
                         <div className="max-h-[60vh] overflow-y-auto">
                             {classMembers.length > 0 ? (
                                 <table className="w-full text-sm text-left text-gray-300">
-                                    <thead className="text-xs text-indigo-300 uppercase bg-gray-700"><tr><th scope="col" className="px-6 py-3 rounded-l-lg">Student Name</th><th scope="col" className="px-6 py-3 rounded-r-lg">Email</th></tr></thead>
+                                    <thead className="text-xs text-indigo-300 uppercase bg-gray-700"><tr><th scope="col" className="px-6 py-3 rounded-l-lg">Student Name</th><th scope="col" className="px-6 py-3">Email</th><th scope="col" className="px-6 py-3 rounded-r-lg">Accommodations</th></tr></thead>
                                     <tbody>
-                                        {classMembers.map(student => (
-                                            <tr key={student.id} className="bg-gray-800 hover:bg-gray-700/50"><td className="px-6 py-4 font-medium whitespace-nowrap">{student.name}</td><td className="px-6 py-4 text-gray-400">{student.email}</td></tr>
-                                        ))}
+                                        {classMembers.map(student => {
+                                            const studentAccommodations = accommodationsFor(student.id);
+                                            return (
+                                                <tr key={student.id} className="bg-gray-800 hover:bg-gray-700/50">
+                                                    <td className="px-6 py-4 font-medium whitespace-nowrap">{student.name}</td>
+                                                    <td className="px-6 py-4 text-gray-400">{student.email}</td>
+                                                    <td className="px-6 py-4">
+                                                        <button onClick={() => setStudentForAccommodations(student)} className="text-indigo-300 hover:text-indigo-200">
+                                                            {studentAccommodations.length > 0 ? `${studentAccommodations.length} active` : 'Add'}
+                                                        </button>
+                                                    </td>
+                                                </tr>
+                                            );
+                                        })}
                                     </tbody>
                                 </table>
                             ) : (
@@ -360,6 +414,19 @@ const ClassesView: React.FC<ClassesViewProps> = ({ teacher }) => {
 
       {selectedClass && <CreateQuizModal isOpen={isCreateQuizOpen} onClose={() => setCreateQuizOpen(false)} teacherId={teacher.id} classId={selectedClass.id} onCreateQuiz={handleCreateQuiz} questions={questions}/>}
       {selectedQuizForResults && <QuizResultsModal isOpen={isResultsOpen} onClose={() => setResultsOpen(false)} quiz={selectedQuizForResults}/>}
+      {selectedClass && studentForAccommodations && (
+        <AccommodationModal
+          isOpen={!!studentForAccommodations}
+          onClose={() => setStudentForAccommodations(null)}
+          classId={selectedClass.id}
+          student={studentForAccommodations}
+          quizzes={quizzes}
+          accommodations={openStudentAccommodations}
+          onChange={refreshAccommodations}
+        />
+      )}
+      {quizToGrade && <ManualGradingModal isOpen={!!quizToGrade} onClose={() => setQuizToGrade(null)} quiz={quizToGrade}/>}
+      {quizToMonitor && <LiveMonitorModal isOpen={!!quizToMonitor} onClose={() => setQuizToMonitor(null)} quiz={quizToMonitor}/>}
       <Modal isOpen={isRenameModalOpen} onClose={() => !isRenamingClass && setRenameModalOpen(false)} title="Rename Class">
         <div className="space-y-4">
             <input 
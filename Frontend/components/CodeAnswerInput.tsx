@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { SanitizedCodeConfig, CodeTestResult } from '../types';
+import { runCodeTestsInBrowser } from '../services/codeRunner';
+import Button from './common/Button';
+import Spinner from './common/Spinner';
+
+interface CodeAnswerInputProps {
+  config: SanitizedCodeConfig;
+  code: string;
+  onChange: (code: string) => void;
+}
+
+// Code editor for code questions, with a runner for the visible test cases
+const CodeAnswerInput: React.FC<CodeAnswerInputProps> = ({ config, code, onChange }) => {
+  const [results, setResults] = useState<CodeTestResult[] | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  // Insert two spaces on Tab instead of moving focus out of the editor
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key !== 'Tab' || event.shiftKey) return;
+    event.preventDefault();
+    const textarea = event.currentTarget;
+    const { selectionStart, selectionEnd } = textarea;
+    onChange(code.slice(0, selectionStart) + '  ' + code.slice(selectionEnd));
+    requestAnimationFrame(() => textarea.setSelectionRange(selectionStart + 2, selectionStart + 2));
+  };
+
+  const handleRun = async () => {
+    setIsRunning(true);
+    try {
+      setResults(await runCodeTestsInBrowser(code, config));
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-gray-400">
+        Write a JavaScript function named <code className="font-mono text-indigo-300">{config.functionName}</code>.
+        {config.hiddenTestCount > 0 && ` It will also be checked against ${config.hiddenTestCount} hidden test${config.hiddenTestCount === 1 ? '' : 's'} when you submit.`}
+      </p>
+      <textarea
+        value={code}
+        onChange={(e) => onChange(e.target.value)}
+        onKeyDown={handleKeyDown}
+        spellCheck={false}
+        rows={14}
+        aria-label="Code editor"
+        className="w-full bg-gray-900 border border-gray-600 rounded-md p-3 font-mono text-sm text-green-200 leading-relaxed"
+      />
+      {config.testCases.length > 0 && (
+        <div className="space-y-2">
+          <Button type="button" variant="secondary" onClick={handleRun} disabled={isRunning || !code.trim()}>
+            {isRunning ? <Spinner size="sm" /> : `Run ${config.testCases.length} sample test${config.testCases.length === 1 ? '' : 's'}`}
+          </Button>
+          {results && (
+            <ul className="space-y-1 text-sm font-mono">
+              {config.testCases.map((testCase, i) => (
+                <li key={i} className={`p-2 rounded border ${results[i]?.passed ? 'bg-green-900/40 border-green-700' : 'bg-red-900/40 border-red-700'}`}>
+                  <span>{results[i]?.passed ? '✓' : '✗'} {config.functionName}(...{testCase.input})</span>
+                  <span className="text-gray-400"> → expected {testCase.expectedOutput}</span>
+                  {!results[i]?.passed && (
+                    <span className="block text-red-300">{results[i]?.error || `got ${results[i]?.output}`}</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CodeAnswerInput;
@@ -1,6 +1,11 @@
 import React, { useState, useEffect, useMemo } from 'react';
-import { Quiz, Question, QuestionType, Difficulty } from '../types';
+import { Quiz, Question, QuestionType, QuestionRule, Difficulty, MultipleCorrectScoring, ScorePolicy, QuizMode, QuestionSearchFilters } from '../types';
 import { apiCreateQuiz } from '../services/apiService';
+import { matchesRule } from '../utils/questionPool';
+import { SCORE_POLICY_LABELS } from '../utils/scorePolicy';
+import { hasActiveFilters } from '../utils/questionLabels';
+import { useQuestionSearch } from '../hooks/useQuestionSearch';
+import QuestionSearchBar from './QuestionSearchBar';
 import Button from './common/Button';
 import Modal from './common/Modal';
 
@@ -13,12 +18,29 @@ interface CreateQuizModalProps {
   questions: Question[];
 }
 
+// Fixed quizzes give everyone the picked questions; pool quizzes draw per student by rule
+type QuestionMode = 'pick' | 'pool';
+
+const ruleKey = (rule: QuestionRule) => `${rule.subject}|${rule.difficulty}|${rule.marks}`;
+
 const CreateQuizModal: React.FC<CreateQuizModalProps> = ({ isOpen, onClose, teacherId, classId, onCreateQuiz, questions }) => {
   const [title, setTitle] = useState('');
   const [duration, setDuration] = useState(30);
   const [tabSwitchThreshold, setTabSwitchThreshold] = useState(3);
+  const [mode, setMode] = useState<QuizMode>(QuizMode.Exam);
+  const [multipleCorrectScoring, setMultipleCorrectScoring] = useState<MultipleCorrectScoring>(MultipleCorrectScoring.AllOrNothing);
+  const [negativeMarkPerWrong, setNegativeMarkPerWrong] = useState(0);
+  const [shuffleOptions, setShuffleOptions] = useState(true);
+  const [maxAttempts, setMaxAttempts] = useState(1);
+  const [scorePolicy, setScorePolicy] = useState<ScorePolicy>(ScorePolicy.Best);
+  const [opensAt, setOpensAt] = useState(''); // datetime-local values, in the teacher's time zone
+  const [closesAt, setClosesAt] = useState('');
   const [selectedSubject, setSelectedSubject] = useState('');
   const [selectedQuestionIds, setSelectedQuestionIds] = useState<string[]>([]);
+  const [questionMode, setQuestionMode] = useState<QuestionMode>('pick');
+  const [questionRules, setQuestionRules] = useState<QuestionRule[]>([]);
+  // The picker searches the quiz's subject by default, but can look across all of them
+  const [pickerFilters, setPickerFilters] = useState<QuestionSearchFilters>({});
   const [isCreating, setIsCreating] = useState(false);
   
   const availableSubjects = useMemo(() => {
@@ -31,10 +53,12 @@ const CreateQuizModal: React.FC<CreateQuizModalProps> = ({ isOpen, onClose, teac
     [Difficulty.Hard]: 3,
   };
 
-  const questionsInSubject = useMemo(() => {
-    if (!selectedSubject) return [];
-    return questions
-      .filter(q => q.subject === selectedSubject)
+  const search = useQuestionSearch(pickerFilters, isOpen && questionMode === 'pick');
+
+  // Search results come ranked by relevance; without search text they're ordered by difficulty and marks
+  const pickerQuestions = useMemo(() => {
+    if (pickerFilters.query?.trim()) return search.questions;
+    return [...search.questions]
       .sort((a, b) => {
           const difficultyA = difficultyOrder[a.difficulty];
           const difficultyB = difficultyOrder[b.difficulty];
@@ -45,26 +69,63 @@ const CreateQuizModal: React.FC<CreateQuizModalProps> = ({ isOpen, onClose, teac
 
           return a.marks - b.marks;
       });
-  }, [questions, selectedSubject]);
+  }, [search.questions, pickerFilters.query]);
 
+  // Taken from the whole bank, so picks stay counted while the picker shows other results
   const selectedQuestionsData = useMemo(() => {
-    return questionsInSubject.filter(q => selectedQuestionIds.includes(q.id));
-  }, [questionsInSubject, selectedQuestionIds]);
+    return questions.filter(q => selectedQuestionIds.includes(q.id));
+  }, [questions, selectedQuestionIds]);
   
+  // Mark values available for a subject and difficulty; a rule only draws questions of one value
+  const marksFor = (subject: string, difficulty: Difficulty): number[] =>
+    Array.from(new Set<number>(questions.filter(q => q.subject === subject && q.difficulty === difficulty).map(q => q.marks))).sort((a, b) => a - b);
+
+  const availableFor = (rule: QuestionRule) => questions.filter(q => matchesRule(q, rule)).length;
+
   const totalMarks = useMemo(() => {
+    if (questionMode === 'pool') {
+      return questionRules.reduce((sum, rule) => sum + rule.count * rule.marks, 0);
+    }
     return selectedQuestionsData.reduce((sum, q) => sum + q.marks, 0);
-  }, [selectedQuestionsData]);
+  }, [questionMode, questionRules, selectedQuestionsData]);
+
+  const questionCount = questionMode === 'pool'
+    ? questionRules.reduce((sum, rule) => sum + rule.count, 0)
+    : selectedQuestionIds.length;
+
+  const ruleProblem = useMemo(() => {
+    if (questionRules.length === 0) return 'Add at least one rule.';
+    const keys = questionRules.map(ruleKey);
+    if (new Set(keys).size !== keys.length) return 'Two rules draw the same kind of question; combine them into one.';
+    const shortRule = questionRules.find(rule => rule.count > availableFor(rule));
+    if (shortRule) return `Only ${availableFor(shortRule)} ${shortRule.difficulty} question(s) worth ${shortRule.marks} in ${shortRule.subject}.`;
+    return null;
+  }, [questionRules, questions]);
 
   useEffect(() => {
     if(isOpen) {
         setTitle('');
         setDuration(30);
         setTabSwitchThreshold(3);
+        setMultipleCorrectScoring(MultipleCorrectScoring.AllOrNothing);
+        setNegativeMarkPerWrong(0);
+        setShuffleOptions(true);
+        setMode(QuizMode.Exam);
+        setMaxAttempts(1);
+        setScorePolicy(ScorePolicy.Best);
+        setOpensAt('');
+        setClosesAt('');
         setSelectedSubject(availableSubjects[0] || '');
         setSelectedQuestionIds([]);
+        setQuestionMode('pick');
+        setQuestionRules([]);
     }
   }, [isOpen, availableSubjects]);
 
+  useEffect(() => {
+    setPickerFilters({ subject: selectedSubject || undefined });
+  }, [selectedSubject]);
+
   const handleToggleQuestion = (questionId: string) => {
     setSelectedQuestionIds(prev =>
         prev.includes(questionId)
@@ -73,15 +134,51 @@ const CreateQuizModal: React.FC<CreateQuizModalProps> = ({ isOpen, onClose, teac
     );
   };
   
+  const handleAddRule = () => {
+    const subject = selectedSubject || availableSubjects[0] || '';
+    const marks = marksFor(subject, Difficulty.Easy)[0] || 1;
+    setQuestionRules(prev => [...prev, { subject, difficulty: Difficulty.Easy, count: 1, marks }]);
+  };
+
+  const handleRuleChange = (index: number, changes: Partial<QuestionRule>) => {
+    setQuestionRules(prev => prev.map((rule, i) => {
+      if (i !== index) return rule;
+      const updated = { ...rule, ...changes };
+      // Keep the marks on a value the new subject and difficulty actually have
+      const marksOptions = marksFor(updated.subject, updated.difficulty);
+      if (marksOptions.length > 0 && !marksOptions.includes(updated.marks)) {
+        updated.marks = marksOptions[0];
+      }
+      return updated;
+    }));
+  };
+
+  const handleRemoveRule = (index: number) => {
+    setQuestionRules(prev => prev.filter((_, i) => i !== index));
+  };
+
   const handleCreate = async () => {
     if (title.trim() === '' || !selectedSubject) {
         alert('Please provide a title and select a subject.');
         return;
     }
-    if (selectedQuestionIds.length === 0) {
+    if (questionMode === 'pick' && selectedQuestionIds.length === 0) {
         alert('Please select at least one question for the quiz.');
         return;
     }
+    if (questionMode === 'pool' && ruleProblem) {
+        alert(ruleProblem);
+        return;
+    }
+
+    if (opensAt && closesAt && new Date(closesAt) <= new Date(opensAt)) {
+        alert('The closing time must be after the opening time.');
+        return;
+    }
+    if (closesAt && new Date(closesAt).getTime() <= Date.now()) {
+        alert('The closing time must be in the future.');
+        return;
+    }
 
     setIsCreating(true);
     try {
@@ -92,8 +189,18 @@ const CreateQuizModal: React.FC<CreateQuizModalProps> = ({ isOpen, onClose, teac
         classId,
         createdBy: teacherId,
         subject: selectedSubject,
-        questionIds: selectedQuestionIds,
+        ...(questionMode === 'pool' ? { questionRules } : { questionIds: selectedQuestionIds }),
         totalMarks,
+        shuffleOptions,
+        mode,
+        maxAttempts,
+        scorePolicy,
+        opensAt: opensAt ? new Date(opensAt).toISOString() : null,
+        closesAt: closesAt ? new Date(closesAt).toISOString() : null,
+        scoringPolicy: {
+          multipleCorrect: multipleCorrectScoring,
+          negativeMarkPerWrong,
+        },
       });
       onCreateQuiz(newQuiz);
       onClose();
@@ -120,39 +227,130 @@ const CreateQuizModal: React.FC<CreateQuizModalProps> = ({ isOpen, onClose, teac
                     {availableSubjects.map(s => <option key={s} value={s}>{s}</option>)}
                 </select>
             </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-400">Mode</label>
+              <select value={mode} onChange={e => setMode(e.target.value as QuizMode)} className="w-full bg-gray-700 border border-gray-600 rounded-md p-2 mt-1">
+                  <option value={QuizMode.Exam}>Exam (timed, proctored)</option>
+                  <option value={QuizMode.Practice}>Practice (instant feedback, not graded)</option>
+              </select>
+            </div>
             <div>
               <label className="block text-sm font-medium text-gray-400">Duration (Minutes)</label>
-              <input type="number" value={duration} min="1" onChange={e => setDuration(parseInt(e.target.value))} className="w-full bg-gray-700 border border-gray-600 rounded-md p-2 mt-1" />
+              <input type="number" value={duration} min="1" onChange={e => setDuration(parseInt(e.target.value))} disabled={mode === QuizMode.Practice} className="w-full bg-gray-700 border border-gray-600 rounded-md p-2 mt-1 disabled:opacity-50" />
             </div>
             <div>
               <label className="block text-sm font-medium text-gray-400">Tab Switch Limit</label>
-              <input type="number" value={tabSwitchThreshold} min="1" onChange={e => setTabSwitchThreshold(parseInt(e.target.value))} className="w-full bg-gray-700 border border-gray-600 rounded-md p-2 mt-1" />
+              <input type="number" value={tabSwitchThreshold} min="1" onChange={e => setTabSwitchThreshold(parseInt(e.target.value))} disabled={mode === QuizMode.Practice} className="w-full bg-gray-700 border border-gray-600 rounded-md p-2 mt-1 disabled:opacity-50" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-400">Negative Mark per Wrong Option</label>
+              <input type="number" value={negativeMarkPerWrong} min="0" step="0.25" onChange={e => setNegativeMarkPerWrong(Math.max(0, parseFloat(e.target.value) || 0))} className="w-full bg-gray-700 border border-gray-600 rounded-md p-2 mt-1" />
             </div>
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-400">Multiple-Correct Scoring</label>
+              <select value={multipleCorrectScoring} onChange={e => setMultipleCorrectScoring(e.target.value as MultipleCorrectScoring)} className="w-full bg-gray-700 border border-gray-600 rounded-md p-2 mt-1">
+                  <option value={MultipleCorrectScoring.AllOrNothing}>All or nothing</option>
+                  <option value={MultipleCorrectScoring.Proportional}>Partial credit per correct option</option>
+                  <option value={MultipleCorrectScoring.ZeroOnWrong}>Partial credit, any wrong option scores zero</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-400">Attempts Allowed</label>
+              <input type="number" value={maxAttempts} min="1" max="20" onChange={e => setMaxAttempts(Math.min(20, Math.max(1, parseInt(e.target.value) || 1)))} disabled={mode === QuizMode.Practice} className="w-full bg-gray-700 border border-gray-600 rounded-md p-2 mt-1 disabled:opacity-50" />
+            </div>
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-400">Score That Counts</label>
+              <select value={scorePolicy} onChange={e => setScorePolicy(e.target.value as ScorePolicy)} disabled={maxAttempts === 1 || mode === QuizMode.Practice} className="w-full bg-gray-700 border border-gray-600 rounded-md p-2 mt-1 disabled:opacity-50">
+                  {Object.values(ScorePolicy).map(policy => <option key={policy} value={policy}>{SCORE_POLICY_LABELS[policy]}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-400">Opens At (optional)</label>
+              <input type="datetime-local" value={opensAt} onChange={e => setOpensAt(e.target.value)} className="w-full bg-gray-700 border border-gray-600 rounded-md p-2 mt-1" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-400">Closes At (optional)</label>
+              <input type="datetime-local" value={closesAt} min={opensAt || undefined} onChange={e => setClosesAt(e.target.value)} className="w-full bg-gray-700 border border-gray-600 rounded-md p-2 mt-1" />
+            </div>
+            <p className="text-xs text-gray-500 self-end">A quiz with an opening time is released automatically and can only be taken inside its window.</p>
+            <label className="md:col-span-3 flex items-center gap-2 text-sm text-gray-400">
+              <input type="checkbox" checked={shuffleOptions} onChange={e => setShuffleOptions(e.target.checked)} className="form-checkbox h-4 w-4 text-indigo-500 bg-gray-800 border-gray-600 rounded"/>
+              Shuffle answer options for each student
+            </label>
         </div>
         
         <div className="pt-2">
-            <h3 className="text-lg font-semibold text-indigo-300">Select Questions</h3>
+            <div className="flex justify-between items-center">
+                <h3 className="text-lg font-semibold text-indigo-300">{questionMode === 'pool' ? 'Random Draw Rules' : 'Select Questions'}</h3>
+                <div className="flex border-b border-gray-700">
+                    <button type="button" onClick={() => setQuestionMode('pick')} className={`px-3 py-1 text-sm font-medium transition-colors ${questionMode === 'pick' ? 'border-b-2 border-indigo-400 text-indigo-300' : 'text-gray-400 hover:text-white'}`}>Pick questions</button>
+                    <button type="button" onClick={() => setQuestionMode('pool')} className={`px-3 py-1 text-sm font-medium transition-colors ${questionMode === 'pool' ? 'border-b-2 border-indigo-400 text-indigo-300' : 'text-gray-400 hover:text-white'}`}>Random draw</button>
+                </div>
+            </div>
+            {questionMode === 'pick' ? (
+            <>
+            <div className="mt-2">
+                <QuestionSearchBar filters={pickerFilters} onChange={setPickerFilters} tags={search.tags} learningOutcomes={search.learningOutcomes} subjects={availableSubjects} />
+            </div>
             <div className="max-h-64 overflow-y-auto mt-2 p-2 bg-gray-900/50 rounded-lg space-y-2">
-                {questionsInSubject.length > 0 ? questionsInSubject.map(q => (
+                {search.isLoading && pickerQuestions.length === 0 ? (
+                    <p className="text-center text-gray-500 py-8">Searching...</p>
+                ) : pickerQuestions.length > 0 ? pickerQuestions.map(q => (
                     <div key={q.id} className={`p-2 rounded-md flex items-start gap-3 cursor-pointer ${selectedQuestionIds.includes(q.id) ? 'bg-indigo-900/70' : 'bg-gray-700'}`} onClick={() => handleToggleQuestion(q.id)}>
                         <input type="checkbox" readOnly checked={selectedQuestionIds.includes(q.id)} className="mt-1 form-checkbox h-5 w-5 text-indigo-500 bg-gray-800 border-gray-600 rounded focus:ring-indigo-500"/>
                         <div className="flex-1">
                             <p className="text-sm">{q.text}</p>
-                            <p className="text-xs text-gray-400">{q.difficulty} | {q.type} | {q.marks} {q.marks > 1 ? 'marks' : 'mark'}</p>
+                            <p className="text-xs text-gray-400">{!pickerFilters.subject && `${q.subject} | `}{q.difficulty} | {q.type} | {q.marks} {q.marks > 1 ? 'marks' : 'mark'}{(q.tags || []).map(tag => ` #${tag}`).join('')}</p>
                         </div>
                     </div>
                 )) : (
-                    <p className="text-center text-gray-500 py-8">No questions available for "{selectedSubject}".</p>
+                    <p className="text-center text-gray-500 py-8">
+                        {search.error || (hasActiveFilters(pickerFilters) ? 'No questions match these filters.' : `No questions available for "${pickerFilters.subject || selectedSubject}".`)}
+                    </p>
                 )}
             </div>
+            {search.total > pickerQuestions.length && (
+                <p className="text-xs text-gray-500 mt-1">Showing the first {pickerQuestions.length} of {search.total} matching questions.</p>
+            )}
+            </>
+            ) : (
+            <div className="max-h-64 overflow-y-auto mt-2 p-2 bg-gray-900/50 rounded-lg space-y-2">
+                <p className="text-xs text-gray-400">Each student gets their own random questions. Every rule only draws questions of one mark value, so all draws have the same total.</p>
+                {questionRules.map((rule, index) => {
+                    const available = availableFor(rule);
+                    const marksOptions = marksFor(rule.subject, rule.difficulty);
+                    return (
+                        <div key={index} className="p-2 rounded-md bg-gray-700 flex flex-wrap items-center gap-2 text-sm">
+                            <span>Draw</span>
+                            <input type="number" min="1" max={Math.max(available, 1)} value={rule.count} onChange={e => handleRuleChange(index, { count: Math.max(1, parseInt(e.target.value) || 1) })} className="w-16 bg-gray-800 border border-gray-600 rounded-md p-1" aria-label="Number of questions"/>
+                            <select value={rule.difficulty} onChange={e => handleRuleChange(index, { difficulty: e.target.value as Difficulty })} className="bg-gray-800 border border-gray-600 rounded-md p-1" aria-label="Difficulty">
+                                {Object.values(Difficulty).map(d => <option key={d} value={d}>{d}</option>)}
+                            </select>
+                            <span>questions worth</span>
+                            <select value={rule.marks} onChange={e => handleRuleChange(index, { marks: parseInt(e.target.value) })} disabled={marksOptions.length === 0} className="bg-gray-800 border border-gray-600 rounded-md p-1" aria-label="Marks per question">
+                                {(marksOptions.length > 0 ? marksOptions : [rule.marks]).map(m => <option key={m} value={m}>{m} {m > 1 ? 'marks' : 'mark'}</option>)}
+                            </select>
+                            <span>from</span>
+                            <select value={rule.subject} onChange={e => handleRuleChange(index, { subject: e.target.value })} className="bg-gray-800 border border-gray-600 rounded-md p-1" aria-label="Subject">
+                                {availableSubjects.map(s => <option key={s} value={s}>{s}</option>)}
+                            </select>
+                            <span className={`ml-auto text-xs ${rule.count > available ? 'text-red-400' : 'text-gray-400'}`}>{available} available</span>
+                            <button type="button" onClick={() => handleRemoveRule(index)} className="text-gray-400 hover:text-red-400 px-1" aria-label="Remove rule">&times;</button>
+                        </div>
+                    );
+                })}
+                <Button type="button" variant="secondary" onClick={handleAddRule} className="!py-1">Add Rule</Button>
+                {questionRules.length > 0 && ruleProblem && <p className="text-xs text-red-400">{ruleProblem}</p>}
+            </div>
+            )}
             <div className="text-right text-sm mt-2 font-medium text-gray-300">
-                Selected: {selectedQuestionIds.length} questions | Total Marks: {totalMarks}
+                {questionMode === 'pool' ? 'Per student' : 'Selected'}: {questionCount} questions | Total Marks: {totalMarks}
             </div>
         </div>
 
         <div className="flex justify-end gap-2 mt-6">
           <Button variant="ghost" onClick={onClose} disabled={isCreating}>Cancel</Button>
-          <Button onClick={handleCreate} disabled={isCreating || !selectedSubject || selectedQuestionIds.length === 0}>
+          <Button onClick={handleCreate} disabled={isCreating || !selectedSubject || (questionMode === 'pick' ? selectedQuestionIds.length === 0 : !!ruleProblem)}>
             {isCreating ? (
               <span className="flex items-center">
                 <svg className="animate-spin -ml-1 mr-2 h-4 w-4" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
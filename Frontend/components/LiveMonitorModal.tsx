@@ -0,0 +1,313 @@
+import React, { useState, useEffect } from 'react';
+import { Quiz, LiveAttempt, LiveViolation, LiveMonitorMessage, ProctoringEventType, AttemptActionType } from '../types';
+import { apiStreamQuizMonitor, apiApplyAttemptAction } from '../services/apiService';
+import Modal from './common/Modal';
+import Spinner from './common/Spinner';
+import Button from './common/Button';
+import { useNow } from '../hooks/useNow';
+
+interface LiveMonitorModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  quiz: Quiz;
+}
+
+type ConnectionState = 'connecting' | 'live' | 'reconnecting';
+
+const RECONNECT_DELAY_MS = 3000;
+const MAX_FEED_LENGTH = 50;
+
+const VIOLATION_LABELS: Partial<Record<ProctoringEventType, string>> = {
+  [ProctoringEventType.TabHidden]: 'left the quiz tab',
+  [ProctoringEventType.FullscreenExit]: 'exited full-screen',
+  [ProctoringEventType.Copy]: 'tried to copy',
+  [ProctoringEventType.Cut]: 'tried to cut',
+  [ProctoringEventType.Paste]: 'tried to paste',
+  [ProctoringEventType.ContextMenu]: 'opened the context menu',
+  [ProctoringEventType.PrintScreen]: 'pressed PrintScreen',
+};
+
+const ACTION_CONFIRMATIONS: Partial<Record<AttemptActionType, string>> = {
+  [AttemptActionType.ForceSubmit]: 'Submit this attempt now? It will be graded on the answers saved so far.',
+  [AttemptActionType.Reset]: 'Reset this attempt? Its answers will be cleared and its time restarted.',
+};
+
+const formatRemaining = (ms: number) => {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+};
+
+const LiveMonitorModal: React.FC<LiveMonitorModalProps> = ({ isOpen, onClose, quiz }) => {
+  const [students, setStudents] = useState<{ id: string; name: string }[]>([]);
+  // Each student's latest attempt
+  const [attempts, setAttempts] = useState<{ [studentId: string]: LiveAttempt }>({});
+  const [feed, setFeed] = useState<LiveViolation[]>([]);
+  const [clockOffset, setClockOffset] = useState(0);
+  const [connection, setConnection] = useState<ConnectionState>('connecting');
+  const [hasSnapshot, setHasSnapshot] = useState(false);
+  // The attempt whose actions are open, and the time and reason to apply them with
+  const [managedAttemptId, setManagedAttemptId] = useState<string | null>(null);
+  const [actionMinutes, setActionMinutes] = useState(10);
+  const [actionReason, setActionReason] = useState('');
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [isApplyingAction, setIsApplyingAction] = useState(false);
+  const now = useNow();
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const controller = new AbortController();
+    let retryTimer: number | undefined;
+
+    // Later attempts replace earlier ones; fields an update leaves out keep their last value
+    const mergeAttempt = (prev: { [studentId: string]: LiveAttempt }, update: LiveAttempt) => {
+      const current = prev[update.studentId];
+      if (current && current.attemptNumber > update.attemptNumber) return prev;
+      const base = current?.attemptId === update.attemptId ? current : undefined;
+      return { ...prev, [update.studentId]: { ...base, ...update, violations: update.violations ?? base?.violations ?? 0 } };
+    };
+
+    const handleMessage = (message: LiveMonitorMessage) => {
+      setClockOffset(message.data.serverTime - Date.now());
+      switch (message.event) {
+        case 'snapshot':
+          setStudents(message.data.students);
+          setAttempts(message.data.attempts.reduce(mergeAttempt, {}));
+          setHasSnapshot(true);
+          setConnection('live');
+          break;
+        case 'attempt': {
+          const { serverTime, ...update } = message.data;
+          setAttempts(prev => mergeAttempt(prev, update));
+          break;
+        }
+        case 'activity': {
+          const { attemptId, studentId, violations, currentQuestion } = message.data;
+          setAttempts(prev => {
+            const current = prev[studentId];
+            if (current?.attemptId !== attemptId) return prev;
+            const tabSwitches = violations.filter(v => v.type === ProctoringEventType.TabHidden).length;
+            return {
+              ...prev,
+              [studentId]: {
+                ...current,
+                violations: (current.violations || 0) + violations.length,
+                tabSwitches: current.tabSwitches + tabSwitches,
+                currentQuestion: currentQuestion === undefined ? current.currentQuestion : currentQuestion,
+              },
+            };
+          });
+          if (violations.length > 0) {
+            const newest = violations.map(v => ({ ...v, attemptId, studentId })).reverse();
+            setFeed(prev => [...newest, ...prev].slice(0, MAX_FEED_LENGTH));
+          }
+          break;
+        }
+      }
+    };
+
+    // The stream reconnects after drops; each connection starts with a fresh snapshot
+    const connect = async () => {
+      try {
+        await apiStreamQuizMonitor(quiz.id, handleMessage, controller.signal);
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error('Live monitor stream error:', error);
+      }
+      if (controller.signal.aborted) return;
+      setConnection('reconnecting');
+      retryTimer = window.setTimeout(connect, RECONNECT_DELAY_MS);
+    };
+
+    setConnection('connecting');
+    connect();
+
+    return () => {
+      controller.abort();
+      window.clearTimeout(retryTimer);
+    };
+  }, [isOpen, quiz.id]);
+
+  const toggleManaged = (attemptId: string) => {
+    setManagedAttemptId(prev => prev === attemptId ? null : attemptId);
+    setActionReason('');
+    setActionError(null);
+  };
+
+  // The stream brings the updated attempt back, so nothing is merged here
+  const applyAction = async (attemptId: string, action: AttemptActionType) => {
+    const confirmation = ACTION_CONFIRMATIONS[action];
+    if (confirmation && !window.confirm(confirmation)) return;
+    setIsApplyingAction(true);
+    setActionError(null);
+    try {
+      await apiApplyAttemptAction(attemptId, action, { minutes: actionMinutes, reason: actionReason.trim() || undefined });
+      setManagedAttemptId(null);
+    } catch (err: any) {
+      setActionError(err.message || 'Failed to apply the action');
+    } finally {
+      setIsApplyingAction(false);
+    }
+  };
+
+  const serverNow = now + clockOffset;
+  const studentName = (studentId: string) => students.find(s => s.id === studentId)?.name || 'Former member';
+
+  // Class members first, then anyone with an attempt who has since left the class
+  const rows = [
+    ...students.map(s => ({ studentId: s.id, attempt: attempts[s.id] })),
+    ...Object.values<LiveAttempt>(attempts)
+      .filter(a => !students.some(s => s.id === a.studentId))
+      .map(a => ({ studentId: a.studentId, attempt: a })),
+  ];
+  const inProgress = rows.filter(r => r.attempt && !r.attempt.submitted).length;
+  const submitted = rows.filter(r => r.attempt?.submitted).length;
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={`Live Monitor: ${quiz.title}`} size="xl">
+      {!hasSnapshot ? (
+        <div className="flex justify-center py-10"><Spinner /></div>
+      ) : (
+        <div className="space-y-4">
+          <div className="flex justify-between items-center text-sm">
+            <div className="flex gap-4 text-gray-400">
+              <span>{rows.length - inProgress - submitted} not started</span>
+              <span className="text-blue-300">{inProgress} in progress</span>
+              <span className="text-green-300">{submitted} submitted</span>
+            </div>
+            <span className={`text-xs px-2 py-1 rounded-full font-semibold ${connection === 'live' ? 'bg-green-800 text-green-200' : 'bg-yellow-800 text-yellow-200'}`}>
+              {connection === 'live' ? '● Live' : 'Reconnecting...'}
+            </span>
+          </div>
+
+          <div className="max-h-96 overflow-y-auto">
+            <table className="w-full text-sm text-left text-gray-300">
+              <thead className="text-xs text-indigo-300 uppercase bg-gray-700 sticky top-0">
+                <tr>
+                  <th scope="col" className="px-4 py-3">Student</th>
+                  <th scope="col" className="px-4 py-3">Progress</th>
+                  <th scope="col" className="px-4 py-3">Time Left</th>
+                  <th scope="col" className="px-4 py-3">Tab Switches</th>
+                  <th scope="col" className="px-4 py-3">Violations</th>
+                  <th scope="col" className="px-4 py-3"><span className="sr-only">Actions</span></th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(({ studentId, attempt }) => (
+                  <React.Fragment key={studentId}>
+                  <tr className="bg-gray-800 border-b border-gray-700">
+                    <td className="px-4 py-3 font-medium whitespace-nowrap">
+                      {studentName(studentId)}
+                      {attempt && attempt.attemptNumber > 1 && <span className="ml-2 text-xs text-gray-500">#{attempt.attemptNumber}</span>}
+                    </td>
+                    <td className="px-4 py-3">
+                      {!attempt ? (
+                        <span className="text-gray-500">Not started</span>
+                      ) : attempt.submitted ? (
+                        <span className="text-green-300">
+                          Submitted {attempt.endTime ? new Date(attempt.endTime).toLocaleTimeString() : ''}
+                          {attempt.submittedLate && <span className="ml-2 text-xs px-2 py-0.5 rounded-full bg-red-800 text-red-200 font-semibold">Late</span>}
+                        </span>
+                      ) : (
+                        <div className="min-w-[10rem]">
+                          <div className="flex justify-between text-xs text-gray-400 mb-1">
+                            <span>{attempt.answered} / {attempt.totalQuestions} answered</span>
+                            {attempt.currentQuestion && <span>On Q{attempt.currentQuestion}</span>}
+                          </div>
+                          <div className="h-1.5 bg-gray-700 rounded-full">
+                            <div className="h-1.5 bg-indigo-500 rounded-full" style={{ width: `${attempt.totalQuestions ? (attempt.answered / attempt.totalQuestions) * 100 : 0}%` }} />
+                          </div>
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 font-mono">
+                      {attempt && !attempt.submitted && attempt.deadline ? formatRemaining(attempt.deadline - serverNow) : '-'}
+                    </td>
+                    <td className={`px-4 py-3 ${attempt && attempt.tabSwitches > 0 ? 'text-yellow-300' : ''}`}>{attempt ? attempt.tabSwitches : '-'}</td>
+                    <td className={`px-4 py-3 ${attempt?.violations ? 'text-red-400 font-bold' : ''}`}>{attempt ? attempt.violations ?? 0 : '-'}</td>
+                    <td className="px-4 py-3 text-right">
+                      {attempt && (
+                        <button onClick={() => toggleManaged(attempt.attemptId)} className="text-indigo-300 hover:text-indigo-200 text-xs font-semibold">
+                          {managedAttemptId === attempt.attemptId ? 'Close' : 'Manage'}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                  {attempt && managedAttemptId === attempt.attemptId && (
+                    <tr className="bg-gray-900/50 border-b border-gray-700">
+                      <td colSpan={6} className="px-4 py-3 space-y-3">
+                        <div className="flex flex-wrap gap-3 items-end">
+                          <label className="text-xs text-gray-400">
+                            Minutes
+                            <input
+                              type="number"
+                              min={1}
+                              max={240}
+                              value={actionMinutes}
+                              onChange={e => setActionMinutes(Math.max(1, parseInt(e.target.value, 10) || 1))}
+                              className="block w-20 mt-1 bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-white"
+                            />
+                          </label>
+                          <label className="text-xs text-gray-400 flex-grow">
+                            Reason (kept in the audit trail)
+                            <input
+                              type="text"
+                              maxLength={500}
+                              value={actionReason}
+                              onChange={e => setActionReason(e.target.value)}
+                              placeholder="e.g. Power cut in room 4"
+                              className="block w-full mt-1 bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-white"
+                            />
+                          </label>
+                        </div>
+                        <div className="flex flex-wrap gap-2 justify-end">
+                          {attempt.submitted ? (
+                            <Button variant="secondary" onClick={() => applyAction(attempt.attemptId, AttemptActionType.Reopen)} disabled={isApplyingAction}>
+                              Reopen for {actionMinutes} min
+                            </Button>
+                          ) : (
+                            <>
+                              <Button variant="secondary" onClick={() => applyAction(attempt.attemptId, AttemptActionType.ExtendTime)} disabled={isApplyingAction}>
+                                Add {actionMinutes} min
+                              </Button>
+                              <Button variant="secondary" onClick={() => applyAction(attempt.attemptId, AttemptActionType.ForceSubmit)} disabled={isApplyingAction}>
+                                Force Submit
+                              </Button>
+                            </>
+                          )}
+                          <Button variant="danger" onClick={() => applyAction(attempt.attemptId, AttemptActionType.Reset)} disabled={isApplyingAction}>
+                            Reset Attempt
+                          </Button>
+                        </div>
+                        {actionError && <p className="text-sm text-red-300 text-right">{actionError}</p>}
+                      </td>
+                    </tr>
+                  )}
+                  </React.Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div>
+            <p className="text-xs text-gray-400 mb-1">Violations as they happen</p>
+            {feed.length > 0 ? (
+              <ul className="max-h-32 overflow-y-auto space-y-1 text-sm">
+                {feed.map((violation, index) => (
+                  <li key={index} className="flex gap-3 px-2 py-1 rounded bg-gray-900/40">
+                    <span className="font-mono text-gray-500">{new Date(violation.at).toLocaleTimeString()}</span>
+                    <span><span className="font-semibold text-white">{studentName(violation.studentId)}</span> {VIOLATION_LABELS[violation.type] || violation.type}</span>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-gray-500">Nothing since you opened the monitor.</p>
+            )}
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+};
+
+export default LiveMonitorModal;
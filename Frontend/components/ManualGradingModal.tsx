@@ -0,0 +1,148 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Quiz, GradingQueue, GradingQueueResponse } from '../types';
+import { apiGetGradingQueue, apiGradeAttempt } from '../services/apiService';
+import Modal from './common/Modal';
+import Button from './common/Button';
+import Spinner from './common/Spinner';
+
+interface ManualGradingModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  quiz: Quiz;
+}
+
+const ManualGradingModal: React.FC<ManualGradingModalProps> = ({ isOpen, onClose, quiz }) => {
+  const [queue, setQueue] = useState<GradingQueue | null>(null);
+  const [showGraded, setShowGraded] = useState(false);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [marks, setMarks] = useState(0);
+  const [feedback, setFeedback] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadQueue = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setQueue(await apiGetGradingQueue(quiz.id));
+    } catch (err: any) {
+      setError(err.message || 'Failed to load responses');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [quiz.id]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setCurrentIndex(0);
+      loadQueue();
+    }
+  }, [isOpen, loadQueue]);
+
+  const visibleResponses = (queue?.responses || []).filter(r => showGraded || r.status === 'pending');
+  const current: GradingQueueResponse | undefined = visibleResponses[Math.min(currentIndex, visibleResponses.length - 1)];
+  const question = queue?.questions.find(q => q.id === current?.questionId);
+
+  // Load the saved grade whenever a different response is shown
+  useEffect(() => {
+    if (current) {
+      setMarks(current.status === 'pending' ? 0 : current.awardedMarks);
+      setFeedback(current.feedback);
+    }
+  }, [current?.attemptId, current?.questionId]);
+
+  const handleSave = async () => {
+    if (!current) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      await apiGradeAttempt(current.attemptId, [{ questionId: current.questionId, awardedMarks: marks, feedback }]);
+      const wasPending = current.status === 'pending';
+      const status: GradingQueueResponse['status'] = marks >= current.maxMarks ? 'correct' : marks > 0 ? 'partial' : 'incorrect';
+      setQueue(prev => prev && ({
+        ...prev,
+        pendingCount: prev.pendingCount - (wasPending ? 1 : 0),
+        responses: prev.responses.map(r =>
+          r.attemptId === current.attemptId && r.questionId === current.questionId
+            ? { ...r, status, awardedMarks: marks, feedback, gradedAt: new Date().toISOString() }
+            : r
+        ),
+      }));
+      // A graded response drops out of the pending list, so the same index shows the next one
+      if (showGraded || !wasPending) {
+        setCurrentIndex(i => Math.min(i + 1, visibleResponses.length - 1));
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to save grade');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={`Grade Responses: ${quiz.title}`} size="xl">
+      {isLoading ? (
+        <div className="flex justify-center py-10"><Spinner /></div>
+      ) : (
+        <div className="space-y-4">
+          <div className="flex justify-between items-center text-sm">
+            <span className={queue?.pendingCount ? 'text-yellow-300' : 'text-green-300'}>
+              {queue?.pendingCount ? `${queue.pendingCount} response${queue.pendingCount === 1 ? '' : 's'} awaiting grading` : 'All responses graded'}
+            </span>
+            <label className="flex items-center gap-2 text-gray-400">
+              <input type="checkbox" checked={showGraded} onChange={e => { setShowGraded(e.target.checked); setCurrentIndex(0); }} className="form-checkbox h-4 w-4 text-indigo-500 bg-gray-800 border-gray-600 rounded"/>
+              Include graded
+            </label>
+          </div>
+
+          {error && <p className="text-sm text-red-300 bg-red-900/30 border border-red-500 rounded-md p-2">{error}</p>}
+
+          {current && question ? (
+            <div className="space-y-3">
+              <div className="flex justify-between items-center text-xs text-gray-400">
+                <span>Response {Math.min(currentIndex, visibleResponses.length - 1) + 1} of {visibleResponses.length}</span>
+                <span>{current.student.name}</span>
+              </div>
+              <div className="p-3 bg-gray-900/50 rounded-lg">
+                <p className="font-semibold">{question.text}</p>
+                {question.imageUrl && <img src={question.imageUrl} alt="Question" className="mt-2 max-h-32 rounded-md" />}
+                {question.modelAnswer && (
+                  <details className="mt-2 text-sm text-gray-300">
+                    <summary className="cursor-pointer text-indigo-300">Model answer</summary>
+                    <p className="mt-1 whitespace-pre-wrap">{question.modelAnswer}</p>
+                  </details>
+                )}
+              </div>
+              <div className="p-3 bg-gray-700 rounded-lg max-h-60 overflow-y-auto">
+                <p className="text-xs text-gray-400 mb-1">Student's Answer:</p>
+                <p className="whitespace-pre-wrap text-sm">{current.answer}</p>
+              </div>
+              <div className="flex items-center gap-3">
+                <label className="text-sm text-gray-400">Marks</label>
+                <input type="number" min="0" max={current.maxMarks} step="0.5" value={marks} onChange={e => setMarks(Math.min(current.maxMarks, Math.max(0, parseFloat(e.target.value) || 0)))} className="w-24 bg-gray-700 border border-gray-600 rounded-md p-2"/>
+                <span className="text-sm text-gray-400">/ {current.maxMarks}</span>
+              </div>
+              <textarea value={feedback} onChange={e => setFeedback(e.target.value)} placeholder="Feedback for the student (optional)" rows={3} className="w-full bg-gray-700 border border-gray-600 rounded-md p-2 text-sm"/>
+              <div className="flex justify-between gap-2">
+                <div className="flex gap-2">
+                  <Button variant="ghost" onClick={() => setCurrentIndex(i => Math.max(i - 1, 0))} disabled={currentIndex === 0 || isSaving}>Previous</Button>
+                  <Button variant="ghost" onClick={() => setCurrentIndex(i => Math.min(i + 1, visibleResponses.length - 1))} disabled={currentIndex >= visibleResponses.length - 1 || isSaving}>Skip</Button>
+                </div>
+                <Button onClick={handleSave} disabled={isSaving}>
+                  {isSaving ? <Spinner size="sm" /> : 'Save Grade'}
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <p className="text-center text-gray-400 py-8">
+              {queue && queue.questions.length === 0 ? 'This quiz has no long-answer questions.' : 'No responses to grade.'}
+            </p>
+          )}
+        </div>
+      )}
+    </Modal>
+  );
+};
+
+export default ManualGradingModal;
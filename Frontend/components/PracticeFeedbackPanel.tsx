@@ -0,0 +1,124 @@
+import React from 'react';
+import { SanitizedQuestion, QuestionType, PracticeFeedback, ToleranceType } from '../types';
+import AcceptedAnswerList from './AcceptedAnswerList';
+import { orderOptions } from '../utils/optionOrder';
+
+interface PracticeFeedbackPanelProps {
+  question: SanitizedQuestion;
+  feedback: PracticeFeedback;
+  optionOrder?: number[];
+}
+
+const STATUS_STYLES: Record<string, { label: string; className: string }> = {
+  correct: { label: 'Correct!', className: 'bg-green-900/50 border-green-700 text-green-300' },
+  partial: { label: 'Partly correct', className: 'bg-yellow-900/50 border-yellow-700 text-yellow-300' },
+  incorrect: { label: 'Incorrect', className: 'bg-red-900/50 border-red-700 text-red-300' },
+  pending: { label: 'Compare your answer with the model answer', className: 'bg-gray-700 border-gray-600 text-gray-300' },
+};
+
+// Shown under a practice question once its answer has been checked
+const PracticeFeedbackPanel: React.FC<PracticeFeedbackPanelProps> = ({ question, feedback, optionOrder }) => {
+  const { result, answerKey } = feedback;
+  const style = STATUS_STYLES[result.status] || STATUS_STYLES.incorrect;
+
+  const renderCorrectAnswer = () => {
+    switch (question.type) {
+      case QuestionType.SingleCorrect:
+      case QuestionType.MultipleCorrect: {
+        const correct = question.type === QuestionType.SingleCorrect
+          ? [answerKey.correctAnswerIndex]
+          : answerKey.correctAnswerIndices || [];
+        return (
+          <ul className="list-disc list-inside">
+            {orderOptions(question.options, optionOrder)
+              .filter(({ index }) => correct.includes(index))
+              .map(({ option, index }) => <li key={index}>{option.text}</li>)}
+          </ul>
+        );
+      }
+
+      case QuestionType.FillInTheBlank:
+        return <AcceptedAnswerList acceptedAnswers={answerKey.acceptedAnswers} correctAnswerText={answerKey.correctAnswerText} />;
+
+      case QuestionType.Numeric: {
+        const key = answerKey.numericAnswer;
+        return key ? (
+          <p>
+            {key.value}
+            {key.tolerance > 0 && ` ± ${key.tolerance}${key.toleranceType === ToleranceType.Relative ? '%' : ''}`}
+            {key.units.length > 0 && ` ${key.units.join(' / ')}`}
+          </p>
+        ) : null;
+      }
+
+      case QuestionType.Cloze:
+        return (
+          <ol className="list-decimal list-inside space-y-1">
+            {(answerKey.blanks || []).map((blank, i) => (
+              <li key={i} className={result.blankResults?.[i] ? 'text-green-300' : ''}>
+                <AcceptedAnswerList acceptedAnswers={blank.acceptedAnswers} />
+              </li>
+            ))}
+          </ol>
+        );
+
+      case QuestionType.Sequence:
+        return (
+          <ol className="list-decimal list-inside">
+            {(answerKey.sequenceItems || []).map((item, i) => <li key={i}>{item}</li>)}
+          </ol>
+        );
+
+      case QuestionType.Matching:
+        return (
+          <ul className="space-y-1">
+            {(answerKey.matchPairs || []).map((pair, i) => (
+              <li key={i} className={result.pairResults?.[i] ? 'text-green-300' : ''}>{pair.left} ↔ {pair.right}</li>
+            ))}
+          </ul>
+        );
+
+      case QuestionType.LongAnswer:
+        return answerKey.modelAnswer
+          ? <p className="whitespace-pre-wrap">{answerKey.modelAnswer}</p>
+          : <p className="text-gray-400">Your teacher hasn't provided a model answer.</p>;
+
+      case QuestionType.Code: {
+        const testResults = result.testResults || [];
+        return (
+          <ul className="space-y-1 text-sm font-mono">
+            {(answerKey.codeConfig?.testCases || []).map((testCase, i) => (
+              <li key={i} className={testResults[i]?.passed ? 'text-green-300' : 'text-red-300'}>
+                {testResults[i]?.passed ? '✓' : '✗'} {answerKey.codeConfig?.functionName}(...{testCase.input}) → {testCase.expectedOutput}
+              </li>
+            ))}
+          </ul>
+        );
+      }
+
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <div className={`mt-4 p-4 rounded-lg border-2 ${style.className}`}>
+      <div className="flex justify-between items-center mb-2">
+        <p className="font-bold">{style.label}</p>
+        {result.status !== 'pending' && (
+          <p className="font-bold">{result.awardedMarks} / {result.maxMarks}</p>
+        )}
+      </div>
+      {result.status !== 'correct' && (
+        <div className="text-gray-200">
+          <p className="text-xs text-gray-400 mb-1">
+            {question.type === QuestionType.LongAnswer ? 'Model Answer:' : question.type === QuestionType.Code ? 'Test Cases:' : 'Correct Answer:'}
+          </p>
+          {renderCorrectAnswer()}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PracticeFeedbackPanel;
@@ -0,0 +1,164 @@
+import React, { useState, useEffect } from 'react';
+import { ProctoringEventType, ProctoringTimeline, AttemptActionType, AttemptAuditEntry } from '../types';
+import { apiGetProctoringTimeline } from '../services/apiService';
+import Modal from './common/Modal';
+import Spinner from './common/Spinner';
+
+interface ProctoringTimelineModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  attemptId: string;
+  studentName: string;
+}
+
+const EVENT_LABELS: Record<ProctoringEventType, { label: string; className: string }> = {
+  [ProctoringEventType.TabHidden]: { label: 'Left the quiz tab', className: 'bg-red-800 text-red-200' },
+  [ProctoringEventType.TabVisible]: { label: 'Returned to the quiz tab', className: 'bg-gray-700 text-gray-300' },
+  [ProctoringEventType.FullscreenExit]: { label: 'Exited full-screen', className: 'bg-red-800 text-red-200' },
+  [ProctoringEventType.FullscreenEnter]: { label: 'Re-entered full-screen', className: 'bg-gray-700 text-gray-300' },
+  [ProctoringEventType.Copy]: { label: 'Tried to copy', className: 'bg-yellow-800 text-yellow-200' },
+  [ProctoringEventType.Cut]: { label: 'Tried to cut', className: 'bg-yellow-800 text-yellow-200' },
+  [ProctoringEventType.Paste]: { label: 'Tried to paste', className: 'bg-yellow-800 text-yellow-200' },
+  [ProctoringEventType.ContextMenu]: { label: 'Opened the context menu', className: 'bg-yellow-800 text-yellow-200' },
+  [ProctoringEventType.PrintScreen]: { label: 'Pressed PrintScreen', className: 'bg-yellow-800 text-yellow-200' },
+  [ProctoringEventType.QuestionView]: { label: 'Viewed', className: 'bg-indigo-900 text-indigo-200' },
+  [ProctoringEventType.AnswerChange]: { label: 'Changed answer to', className: 'bg-indigo-900 text-indigo-200' },
+};
+
+const ACTION_LABELS: Record<AttemptActionType, string> = {
+  [AttemptActionType.ExtendTime]: 'Extended the time',
+  [AttemptActionType.ForceSubmit]: 'Submitted the attempt',
+  [AttemptActionType.Reopen]: 'Reopened the attempt',
+  [AttemptActionType.Reset]: 'Reset the attempt',
+  [AttemptActionType.AcceptLateAnswers]: 'Accepted the late answers',
+  [AttemptActionType.RejectLateAnswers]: 'Rejected the late answers',
+};
+
+const describeAction = (entry: AttemptAuditEntry) =>
+  `${entry.by?.name || 'A former teacher'}: ${ACTION_LABELS[entry.action] || entry.action}${entry.minutes ? ` (${entry.minutes} min)` : ''}`;
+
+// Time since the attempt started, as +m:ss
+const formatOffset = (ms: number) => {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  return `+${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+};
+
+const ProctoringTimelineModal: React.FC<ProctoringTimelineModalProps> = ({ isOpen, onClose, attemptId, studentName }) => {
+  const [timeline, setTimeline] = useState<ProctoringTimeline | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadTimeline = async () => {
+      if (!isOpen) return;
+      setIsLoading(true);
+      setError(null);
+      try {
+        setTimeline(await apiGetProctoringTimeline(attemptId));
+      } catch (err: any) {
+        setError(err.message || 'Failed to load the proctoring log');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    loadTimeline();
+  }, [isOpen, attemptId]);
+
+  // Question activity is part of the log but not worth a summary badge
+  const counts = new Map<ProctoringEventType, number>();
+  timeline?.events
+    .filter(event => !event.questionId)
+    .forEach(event => counts.set(event.type, (counts.get(event.type) || 0) + 1));
+
+  const questionIndex = (questionId?: string) => timeline?.attempt.questionIds?.indexOf(questionId || '') ?? -1;
+  const questionLabel = (questionId?: string) => {
+    const index = questionIndex(questionId);
+    return index >= 0 ? `Q${index + 1}` : 'a question';
+  };
+
+  // How often each question's answer was saved, in question order
+  const savesByQuestion = new Map<string, number>();
+  timeline?.answerHistory.forEach(change => savesByQuestion.set(change.questionId, (savesByQuestion.get(change.questionId) || 0) + 1));
+  const answerSaves = [...savesByQuestion].sort(([a], [b]) => questionIndex(a) - questionIndex(b));
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={`Proctoring Log: ${studentName}`} size="xl">
+      {isLoading ? (
+        <div className="flex justify-center py-10"><Spinner /></div>
+      ) : error ? (
+        <p className="text-center text-red-300 py-8">{error}</p>
+      ) : timeline && (
+        <div className="space-y-4">
+          <div className="text-sm text-gray-400 bg-gray-900/50 p-3 rounded-md">
+            <p>Started {new Date(timeline.attempt.startTime).toLocaleString()}</p>
+            <p>
+              {timeline.attempt.endTime
+                ? `Submitted ${new Date(timeline.attempt.endTime).toLocaleString()} (${formatOffset(timeline.attempt.endTime - timeline.attempt.startTime)})`
+                : 'Not submitted yet'}
+              {timeline.attempt.submittedLate && <span className="ml-2 text-xs px-2 py-0.5 rounded-full bg-red-800 text-red-200 font-semibold">Late</span>}
+            </p>
+          </div>
+
+          {timeline.auditTrail.length > 0 && (
+            <div>
+              <p className="text-xs text-gray-400 mb-1">Teacher actions</p>
+              <ul className="space-y-1 text-sm">
+                {timeline.auditTrail.map((entry, index) => (
+                  <li key={index} className="p-2 rounded bg-indigo-900/30 border border-indigo-800">
+                    <div className="flex justify-between gap-3">
+                      <span className="text-indigo-200">{describeAction(entry)}</span>
+                      <span className="text-xs text-gray-500">{new Date(entry.at).toLocaleString()}</span>
+                    </div>
+                    {entry.reason && <p className="text-xs text-gray-400 mt-1">{entry.reason}</p>}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {counts.size > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {[...counts].map(([type, count]) => (
+                <span key={type} className={`text-xs px-2 py-1 rounded-full font-semibold ${EVENT_LABELS[type]?.className || 'bg-gray-700 text-gray-300'}`}>
+                  {EVENT_LABELS[type]?.label || type} &times; {count}
+                </span>
+              ))}
+            </div>
+          )}
+
+          {answerSaves.length > 0 && (
+            <div>
+              <p className="text-xs text-gray-400 mb-1">Answer saves per question</p>
+              <div className="flex flex-wrap gap-2">
+                {answerSaves.map(([questionId, count]) => (
+                  <span key={questionId} className={`text-xs px-2 py-1 rounded-full font-semibold ${count > 3 ? 'bg-indigo-800 text-indigo-200' : 'bg-gray-700 text-gray-300'}`}>
+                    {questionLabel(questionId)} &times; {count}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {timeline.events.length > 0 ? (
+            <ol className="max-h-96 overflow-y-auto space-y-1 text-sm">
+              {timeline.events.map((event, index) => (
+                <li key={index} className="flex items-center gap-3 p-2 rounded bg-gray-900/40">
+                  <span className="font-mono text-gray-400 w-16 text-right">{formatOffset(event.at - timeline.attempt.startTime)}</span>
+                  <span className={`text-xs px-2 py-0.5 rounded-full font-semibold ${EVENT_LABELS[event.type]?.className || 'bg-gray-700 text-gray-300'}`}>
+                    {EVENT_LABELS[event.type]?.label || event.type}
+                    {event.questionId && ` ${questionLabel(event.questionId)}`}
+                  </span>
+                  <span className="text-xs text-gray-500 ml-auto">{new Date(event.at).toLocaleTimeString()}</span>
+                </li>
+              ))}
+            </ol>
+          ) : (
+            <p className="text-center text-gray-400 py-8">No proctoring events were recorded for this attempt.</p>
+          )}
+        </div>
+      )}
+    </Modal>
+  );
+};
+
+export default ProctoringTimelineModal;
@@ -1,10 +1,10 @@
 import React, { useState, useEffect } from 'react';
-import { User, Subject, Question, Difficulty, QuestionType } from '../types';
+import { User, Subject, Question, Difficulty, QuestionType, ToleranceType, SequenceGrading, QuestionSearchFilters } from '../types';
 import { 
   apiGetQuestionsByAuthor, 
-  apiGetQuestionsBySubject, 
   apiCreateQuestion, 
   apiDeleteQuestion,
+  apiUpdateQuestionLabels,
   apiGetSubjectsByTeacher,
   apiCreateSubject,
   apiDeleteSubject
@@ -12,43 +12,35 @@ import {
 import Button from './common/Button';
 import Modal from './common/Modal';
 import AddQuestionModal from './AddQuestionModal';
+import AcceptedAnswerList from './AcceptedAnswerList';
 import Spinner from './common/Spinner';
+import QuestionSearchBar from './QuestionSearchBar';
+import { useQuestionSearch } from '../hooks/useQuestionSearch';
+import { parseTags, parseOutcomes, hasActiveFilters } from '../utils/questionLabels';
 
 interface QuestionBankViewProps {
     teacher: User;
 }
 
-const SubjectDetailView: React.FC<{subject: Subject; teacherId: string; onBack: () => void;}> = ({ subject, teacherId, onBack }) => {
-    const [questions, setQuestions] = useState<Question[]>([]);
+// One subject's questions, or with no subject the whole bank; both can be searched and filtered
+const SubjectDetailView: React.FC<{subject: Subject | null; subjects?: string[]; teacherId: string; onBack: () => void;}> = ({ subject, subjects, teacherId, onBack }) => {
+    const [filters, setFilters] = useState<QuestionSearchFilters>({});
     const [isAddQuestionModalOpen, setAddQuestionModalOpen] = useState(false);
     const [expandedQuestionId, setExpandedQuestionId] = useState<string | null>(null);
     const [viewingImageUrl, setViewingImageUrl] = useState<string | null>(null);
-    const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    // Labels of the expanded question as edited: tags comma-separated, learning outcomes one per line
+    const [labelDraft, setLabelDraft] = useState({ tags: '', outcomes: '' });
+    const [isSavingLabels, setIsSavingLabels] = useState(false);
 
-    const fetchQuestions = async () => {
-        setIsLoading(true);
-        setError(null);
-        try {
-            const allQuestions = await apiGetQuestionsBySubject(subject.name, teacherId);
-            setQuestions(allQuestions);
-        } catch (err: any) {
-            console.error('Error fetching questions:', err);
-            setError(err.message || 'Failed to load questions');
-        } finally {
-            setIsLoading(false);
-        }
-    }
-
-    useEffect(() => {
-        fetchQuestions();
-    }, [subject, teacherId]);
+    const search = useQuestionSearch(subject ? { ...filters, subject: subject.name } : filters);
+    const questions = search.questions;
 
     const handleDeleteQuestion = async (questionId: string) => {
         if(window.confirm('Are you sure you want to delete this question?')) {
             try {
                 await apiDeleteQuestion(questionId);
-                await fetchQuestions();
+                search.refresh();
             } catch (err: any) {
                 console.error('Error deleting question:', err);
                 setError(err.message || 'Failed to delete question');
@@ -56,13 +48,109 @@ const SubjectDetailView: React.FC<{subject: Subject; teacherId: string; onBack:
         }
     }
 
+    const toggleExpanded = (question: Question) => {
+        setExpandedQuestionId(prevId => prevId === question.id ? null : question.id);
+        setLabelDraft({ tags: (question.tags || []).join(', '), outcomes: (question.learningOutcomes || []).join('\n') });
+    };
+
+    const handleSaveLabels = async (questionId: string) => {
+        setIsSavingLabels(true);
+        try {
+            await apiUpdateQuestionLabels(questionId, { tags: parseTags(labelDraft.tags), learningOutcomes: parseOutcomes(labelDraft.outcomes) });
+            search.refresh();
+        } catch (err: any) {
+            console.error('Error saving labels:', err);
+            setError(err.message || 'Failed to save labels');
+        } finally {
+            setIsSavingLabels(false);
+        }
+    };
+
     const renderAnswerDetails = (question: Question) => {
         if (question.type === QuestionType.FillInTheBlank) {
+          return (
+            <div className="mt-2 space-y-2">
+                <div className="p-2 rounded bg-gray-600">
+                    <p className="text-xs text-gray-400">{question.acceptedAnswers && question.acceptedAnswers.length > 1 ? 'Accepted Answers:' : 'Correct Answer:'}</p>
+                    <AcceptedAnswerList acceptedAnswers={question.acceptedAnswers} correctAnswerText={question.correctAnswerText} />
+                </div>
+            </div>
+          );
+        }
+
+        if (question.type === QuestionType.Sequence) {
+          return (
+            <div className="mt-2 p-2 rounded bg-gray-600">
+                <p className="text-xs text-gray-400">Correct Order ({question.sequenceGrading === SequenceGrading.AdjacentPairs ? 'partial credit per adjacent pair' : 'exact order only'}):</p>
+                <ol className="list-decimal list-inside">
+                  {(question.sequenceItems || []).map((item, i) => <li key={i}>{item}</li>)}
+                </ol>
+            </div>
+          );
+        }
+
+        if (question.type === QuestionType.Code && question.codeConfig) {
+          const config = question.codeConfig;
+          return (
+            <div className="mt-2 space-y-1 text-sm">
+                <p className="text-xs text-gray-400">Function <code className="font-mono text-indigo-300">{config.functionName}</code>, {config.timeLimitMs}ms per test:</p>
+                {config.testCases.map((testCase, i) => (
+                  <div key={i} className="p-2 rounded-md border bg-gray-800 border-gray-700 font-mono text-xs">
+                    {config.functionName}(...{testCase.input}) → {testCase.expectedOutput}
+                    <span className="text-gray-400"> ({testCase.marks} mark{testCase.marks === 1 ? '' : 's'}{testCase.hidden ? ', hidden' : ''})</span>
+                  </div>
+                ))}
+            </div>
+          );
+        }
+
+        if (question.type === QuestionType.LongAnswer) {
+          return (
+            <div className="mt-2 p-2 rounded bg-gray-600">
+                <p className="text-xs text-gray-400">Model Answer (graded manually):</p>
+                <p className="whitespace-pre-wrap">{question.modelAnswer || 'None provided'}</p>
+            </div>
+          );
+        }
+
+        if (question.type === QuestionType.Matching) {
+          return (
+            <div className="mt-2 space-y-1">
+              {(question.matchPairs || []).map((pair, i) => (
+                <div key={i} className="p-2 rounded-md border text-sm flex items-center gap-3 bg-gray-800 border-gray-700">
+                  <span className="flex-1">{pair.left}</span>
+                  <span className="text-gray-400">↔</span>
+                  <span className="flex-1">{pair.right}</span>
+                </div>
+              ))}
+            </div>
+          );
+        }
+
+        if (question.type === QuestionType.Cloze) {
+          return (
+            <div className="mt-2 space-y-2">
+              {(question.blanks || []).map((blank, i) => (
+                <div key={i} className="p-2 rounded bg-gray-600">
+                    <p className="text-xs text-gray-400">Blank {i + 1} ({blank.marks} mark{blank.marks === 1 ? '' : 's'}):</p>
+                    <AcceptedAnswerList acceptedAnswers={blank.acceptedAnswers} />
+                </div>
+              ))}
+            </div>
+          );
+        }
+
+        if (question.type === QuestionType.Numeric && question.numericAnswer) {
+          const key = question.numericAnswer;
           return (
             <div className="mt-2 space-y-2">
                 <div className="p-2 rounded bg-gray-600">
                     <p className="text-xs text-gray-400">Correct Answer:</p>
-                    <p>{question.correctAnswerText}</p>
+                    <p>
+                      {key.value}
+                      {key.tolerance > 0 && ` ± ${key.tolerance}${key.toleranceType === ToleranceType.Relative ? '%' : ''}`}
+                      {key.units.length > 0 && ` ${key.units.join(' / ')}`}
+                    </p>
                 </div>
             </div>
           );
@@ -92,14 +180,14 @@ const SubjectDetailView: React.FC<{subject: Subject; teacherId: string; onBack:
                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" /></svg>
                 </Button>
                 <div>
-                  <h2 className="text-3xl font-bold text-white">{subject.name}</h2>
-                  <p className="text-sm text-gray-400">Manage questions for this subject</p>
+                  <h2 className="text-3xl font-bold text-white">{subject ? subject.name : 'All Questions'}</h2>
+                  <p className="text-sm text-gray-400">{subject ? 'Manage questions for this subject' : 'Search questions across all your subjects'}</p>
                 </div>
             </div>
 
-            {error && (
+            {(error || search.error) && (
               <div className="bg-red-900/30 border border-red-500 text-red-200 px-4 py-3 rounded-lg mb-4 flex justify-between items-center">
-                <span>{error}</span>
+                <span>{error || search.error}</span>
                 <button onClick={() => setError(null)} className="text-red-400 hover:text-red-200">
                   <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
@@ -108,15 +196,24 @@ const SubjectDetailView: React.FC<{subject: Subject; teacherId: string; onBack:
               </div>
             )}
 
+            {subject && (
             <div className="flex justify-end mb-4">
                 <Button onClick={() => setAddQuestionModalOpen(true)}>
                     <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" /></svg>
                     Add New Question
                 </Button>
             </div>
+            )}
+
+            <div className="mb-4">
+                <QuestionSearchBar filters={filters} onChange={setFilters} tags={search.tags} learningOutcomes={search.learningOutcomes} subjects={subject ? undefined : subjects} />
+                {!search.isLoading && search.total > questions.length && (
+                    <p className="text-xs text-gray-500 mt-2">Showing the first {questions.length} of {search.total} matching questions. Narrow the search to see the rest.</p>
+                )}
+            </div>
             
             <div className="bg-gray-800/50 p-4 rounded-xl border border-gray-700">
-                {isLoading ? (
+                {search.isLoading && questions.length === 0 ? (
                   <div className="flex justify-center items-center py-10">
                     <Spinner />
                   </div>
@@ -124,7 +221,7 @@ const SubjectDetailView: React.FC<{subject: Subject; teacherId: string; onBack:
                      <ul className="space-y-3">
                         {questions.map(q => (
                             <li key={q.id} className="bg-gray-700/80 p-3 rounded-lg group">
-                                <div className="flex justify-between items-start cursor-pointer" onClick={() => setExpandedQuestionId(prevId => prevId === q.id ? null : q.id)}>
+                                <div className="flex justify-between items-start cursor-pointer" onClick={() => toggleExpanded(q)}>
                                     <p className="font-medium flex-1 pr-4 text-white">{q.text}</p>
                                     <div className="flex items-center gap-3 flex-shrink-0">
                                         {q.imageUrl && <img src={q.imageUrl} alt="thumbnail" className="h-8 w-8 object-cover rounded-sm cursor-pointer transition-transform hover:scale-110" onClick={(e) => { e.stopPropagation(); setViewingImageUrl(q.imageUrl); }}/>}
@@ -135,7 +232,16 @@ const SubjectDetailView: React.FC<{subject: Subject; teacherId: string; onBack:
                                         </button>
                                     </div>
                                 </div>
-                                <div className="text-xs text-gray-400 mt-2">Type: <span className="font-semibold text-gray-300">{q.type}</span></div>
+                                <div className="text-xs text-gray-400 mt-2 flex flex-wrap items-center gap-2">
+                                    <span>Type: <span className="font-semibold text-gray-300">{q.type}</span></span>
+                                    {!subject && <span>Subject: <span className="font-semibold text-gray-300">{q.subject}</span></span>}
+                                    {(q.tags || []).map(tag => <span key={tag} className="px-2 py-0.5 rounded-full bg-gray-800 text-indigo-300">#{tag}</span>)}
+                                </div>
+                                {(q.learningOutcomes || []).length > 0 && (
+                                    <ul className="text-xs text-gray-400 mt-1 list-disc list-inside">
+                                        {q.learningOutcomes!.map(outcome => <li key={outcome}>{outcome}</li>)}
+                                    </ul>
+                                )}
                                 {expandedQuestionId === q.id && (
                                     <div className="mt-3 pt-3 border-t border-gray-600">
                                         {q.imageUrl && (
@@ -145,6 +251,16 @@ const SubjectDetailView: React.FC<{subject: Subject; teacherId: string; onBack:
                                         )}
                                         <h4 className="text-sm font-semibold text-gray-400 mb-2">Options & Answer</h4>
                                         {renderAnswerDetails(q)}
+                                        <h4 className="text-sm font-semibold text-gray-400 mt-4 mb-2">Labels</h4>
+                                        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                                            <input type="text" value={labelDraft.tags} onChange={e => setLabelDraft(prev => ({ ...prev, tags: e.target.value }))} placeholder="Tags, comma-separated" className="bg-gray-800 border border-gray-600 rounded-md p-2 text-sm" />
+                                            <textarea value={labelDraft.outcomes} onChange={e => setLabelDraft(prev => ({ ...prev, outcomes: e.target.value }))} placeholder="Learning outcomes, one per line" rows={2} className="bg-gray-800 border border-gray-600 rounded-md p-2 text-sm" />
+                                        </div>
+                                        <div className="flex justify-end mt-2">
+                                            <Button variant="secondary" onClick={() => handleSaveLabels(q.id)} disabled={isSavingLabels} className="!py-1">
+                                                {isSavingLabels ? 'Saving...' : 'Save Labels'}
+                                            </Button>
+                                        </div>
                                     </div>
                                 )}
                             </li>
@@ -153,13 +269,21 @@ const SubjectDetailView: React.FC<{subject: Subject; teacherId: string; onBack:
                 ) : (
                      <div className="text-center py-10 text-gray-500">
                         <svg xmlns="http://www.w3.org/2000/svg" className="mx-auto h-12 w-12" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 13h6m-3-3v6m5 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" /></svg>
-                        <p className="mt-4">No questions found for this subject.</p>
-                        <p className="text-sm text-gray-600">Click "Add New Question" to get started.</p>
+                        {hasActiveFilters(filters) ? (
+                            <p className="mt-4">No questions match these filters.</p>
+                        ) : subject ? (
+                            <>
+                                <p className="mt-4">No questions found for this subject.</p>
+                                <p className="text-sm text-gray-600">Click "Add New Question" to get started.</p>
+                            </>
+                        ) : (
+                            <p className="mt-4">Your question bank is empty.</p>
+                        )}
                     </div>
                 )}
             </div>
 
-            <AddQuestionModal isOpen={isAddQuestionModalOpen} onClose={() => setAddQuestionModalOpen(false)} teacherId={teacherId} subjectName={subject.name} onQuestionAdded={fetchQuestions}/>
+            {subject && <AddQuestionModal isOpen={isAddQuestionModalOpen} onClose={() => setAddQuestionModalOpen(false)} teacherId={teacherId} subjectName={subject.name} onQuestionAdded={search.refresh}/>}
 
             <Modal isOpen={!!viewingImageUrl} onClose={() => setViewingImageUrl(null)} title="Image Preview" size="lg">
                 <div className="p-4 bg-gray-900 rounded-md">
@@ -174,6 +298,7 @@ const SubjectDetailView: React.FC<{subject: Subject; teacherId: string; onBack:
 const QuestionBankView: React.FC<QuestionBankViewProps> = ({ teacher }) => {
     const [subjects, setSubjects] = useState<Subject[]>([]);
     const [selectedSubject, setSelectedSubject] = useState<Subject | null>(null);
+    const [isSearchingAll, setSearchingAll] = useState(false);
     const [isAddSubjectModalOpen, setAddSubjectModalOpen] = useState(false);
     const [newSubjectName, setNewSubjectName] = useState('');
     const [isLoading, setIsLoading] = useState(false);
@@ -228,6 +353,10 @@ const QuestionBankView: React.FC<QuestionBankViewProps> = ({ teacher }) => {
         return <SubjectDetailView subject={selectedSubject} teacherId={teacher.id} onBack={() => setSelectedSubject(null)} />
     }
 
+    if(isSearchingAll) {
+        return <SubjectDetailView subject={null} subjects={subjects.map(s => s.name)} teacherId={teacher.id} onBack={() => setSearchingAll(false)} />
+    }
+
     return (
         <div>
             {error && (
@@ -241,7 +370,10 @@ const QuestionBankView: React.FC<QuestionBankViewProps> = ({ teacher }) => {
                   <h1 className="text-4xl font-bold text-white">Question Bank</h1>
                   <p className="text-gray-400 mt-1">Manage your subjects and questions</p>
                 </div>
-                <Button onClick={() => setAddSubjectModalOpen(true)} className="mt-4 sm:mt-0">Add New Subject</Button>
+                <div className="flex gap-2 mt-4 sm:mt-0">
+                    <Button onClick={() => setSearchingAll(true)} variant="secondary">Search All Questions</Button>
+                    <Button onClick={() => setAddSubjectModalOpen(true)}>Add New Subject</Button>
+                </div>
             </div>
             
             {isLoading ? (
@@ -0,0 +1,91 @@
+import React from 'react';
+import { QuestionSearchFilters, Difficulty, QuestionType } from '../types';
+import { hasActiveFilters } from '../utils/questionLabels';
+
+interface QuestionSearchBarProps {
+  filters: QuestionSearchFilters;
+  onChange: (filters: QuestionSearchFilters) => void;
+  tags: string[]; // Tags and learning outcomes in use across the bank
+  learningOutcomes: string[];
+  subjects?: string[]; // Shows a subject filter when given
+}
+
+const selectClass = 'bg-gray-700 border border-gray-600 rounded-md p-2 text-sm';
+
+// Search text and filters for the question bank, shared by the bank and the quiz question picker
+const QuestionSearchBar: React.FC<QuestionSearchBarProps> = ({ filters, onChange, tags, learningOutcomes, subjects }) => {
+  const update = (changes: Partial<QuestionSearchFilters>) => onChange({ ...filters, ...changes });
+
+  const toggleTag = (tag: string) => {
+    const selected = filters.tags || [];
+    update({ tags: selected.includes(tag) ? selected.filter(t => t !== tag) : [...selected, tag] });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-2">
+        <input
+          type="search"
+          value={filters.query || ''}
+          onChange={e => update({ query: e.target.value })}
+          placeholder="Search question text"
+          className="flex-grow min-w-[200px] bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-sm"
+        />
+        {subjects && (
+          <select value={filters.subject || ''} onChange={e => update({ subject: e.target.value || undefined })} className={selectClass} aria-label="Subject">
+            <option value="">All subjects</option>
+            {subjects.map(s => <option key={s} value={s}>{s}</option>)}
+          </select>
+        )}
+        <select value={filters.difficulty || ''} onChange={e => update({ difficulty: (e.target.value || undefined) as Difficulty | undefined })} className={selectClass} aria-label="Difficulty">
+          <option value="">Any difficulty</option>
+          {Object.values(Difficulty).map(d => <option key={d} value={d}>{d}</option>)}
+        </select>
+        <select value={filters.type || ''} onChange={e => update({ type: (e.target.value || undefined) as QuestionType | undefined })} className={selectClass} aria-label="Question type">
+          <option value="">Any type</option>
+          {Object.values(QuestionType).map(t => <option key={t} value={t}>{t}</option>)}
+        </select>
+        <input
+          type="number"
+          min="1"
+          value={filters.marks ?? ''}
+          onChange={e => update({ marks: parseInt(e.target.value) || undefined })}
+          placeholder="Marks"
+          className="w-20 bg-gray-700 border border-gray-600 rounded-md p-2 text-sm"
+          aria-label="Marks"
+        />
+        {learningOutcomes.length > 0 && (
+          <select value={filters.learningOutcome || ''} onChange={e => update({ learningOutcome: e.target.value || undefined })} className={`${selectClass} max-w-xs`} aria-label="Learning outcome">
+            <option value="">Any learning outcome</option>
+            {learningOutcomes.map(o => <option key={o} value={o}>{o}</option>)}
+          </select>
+        )}
+        {hasActiveFilters(filters) && (
+          <button
+            type="button"
+            onClick={() => onChange({ subject: filters.subject })}
+            className="text-sm text-gray-400 hover:text-white px-2"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {tags.map(tag => (
+            <button
+              key={tag}
+              type="button"
+              onClick={() => toggleTag(tag)}
+              className={`text-xs px-2 py-0.5 rounded-full transition-colors ${filters.tags?.includes(tag) ? 'bg-indigo-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+            >
+              #{tag}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuestionSearchBar;
@@ -1,8 +1,11 @@
 import React, { useState, useEffect } from 'react';
-import { Quiz, QuizAttempt, User } from '../types';
-import { apiGetAttemptsByQuiz, apiGetUserById } from '../services/apiService';
+import { Quiz, QuizAttempt, User, PolicyResult, ScorePolicy, QuizMode, IntegrityLevel, AttemptActionType } from '../types';
+import { apiGetAttemptsByQuiz, apiGetUserById, apiApplyAttemptAction } from '../services/apiService';
 import Modal from './common/Modal';
 import Button from './common/Button';
+import ProctoringTimelineModal from './ProctoringTimelineModal';
+import SimilarityReportModal from './SimilarityReportModal';
+import { SCORE_POLICY_LABELS } from '../utils/scorePolicy';
 
 interface QuizResultsModalProps {
   isOpen: boolean;
@@ -10,9 +13,38 @@ interface QuizResultsModalProps {
   quiz: Quiz;
 }
 
+type ResultRow = QuizAttempt & {
+  studentName: string;
+  studentResult?: PolicyResult; // The student's result across all their attempts
+};
+
+type RiskFilter = 'all' | 'flagged' | 'high';
+
+const RISK_STYLES: Record<IntegrityLevel, string> = {
+  low: 'bg-gray-700 text-gray-300',
+  medium: 'bg-yellow-800 text-yellow-200',
+  high: 'bg-red-800 text-red-200',
+};
+
+const matchesRiskFilter = (attempt: ResultRow, filter: RiskFilter) => {
+  const level = attempt.integrity?.level;
+  if (filter === 'high') return level === 'high';
+  if (filter === 'flagged') return level === 'high' || level === 'medium';
+  return true;
+};
+
 const QuizResultsModal: React.FC<QuizResultsModalProps> = ({ isOpen, onClose, quiz }) => {
-  const [attempts, setAttempts] = useState<(QuizAttempt & { studentName: string })[]>([]);
+  const [attempts, setAttempts] = useState<ResultRow[]>([]);
+  const isPractice = quiz.mode === QuizMode.Practice;
+  const allowsRetakes = isPractice || (quiz.maxAttempts || 1) > 1;
+  const policyLabel = SCORE_POLICY_LABELS[quiz.scorePolicy || ScorePolicy.Best];
   const [isLoading, setIsLoading] = useState(false);
+  const [timelineFor, setTimelineFor] = useState<{ id: string; studentName: string } | null>(null);
+  const [isSimilarityOpen, setIsSimilarityOpen] = useState(false);
+  const [riskFilter, setRiskFilter] = useState<RiskFilter>('all');
+  const [sortByRisk, setSortByRisk] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
 
   useEffect(() => {
     const loadAttempts = async () => {
@@ -20,7 +52,7 @@ const QuizResultsModal: React.FC<QuizResultsModalProps> = ({ isOpen, onClose, qu
         setIsLoading(true);
         try {
           const quizAttempts = await apiGetAttemptsByQuiz(quiz.id);
-          const attemptsWithNames = quizAttempts
+          const attemptsWithNames: ResultRow[] = quizAttempts
             .filter(a => a.submitted)
             .map(attempt => {
               // Backend returns student object with name
@@ -32,6 +64,13 @@ const QuizResultsModal: React.FC<QuizResultsModalProps> = ({ isOpen, onClose, qu
                 studentName,
               };
             });
+          // Keep each student's attempts together, best counted results first
+          attemptsWithNames.sort((a, b) =>
+            (b.studentResult?.achievedMarks ?? 0) - (a.studentResult?.achievedMarks ?? 0)
+            || a.studentName.localeCompare(b.studentName)
+            || String(a.studentId).localeCompare(String(b.studentId))
+            || (a.attemptNumber || 1) - (b.attemptNumber || 1)
+          );
           setAttempts(attemptsWithNames);
         } catch (error) {
           console.error('Error loading attempts:', error);
@@ -43,13 +82,37 @@ const QuizResultsModal: React.FC<QuizResultsModalProps> = ({ isOpen, onClose, qu
     loadAttempts();
   }, [isOpen, quiz.id]);
   
+  // Answers uploaded late only count once accepted; accepting regrades the attempt
+  const reviewLateAnswers = async (attempt: ResultRow, accept: boolean) => {
+    const count = Object.keys(attempt.lateAnswers || {}).length;
+    const message = accept
+      ? `Accept ${count} late answer${count === 1 ? '' : 's'} from ${attempt.studentName}? The attempt will be regraded as if they had arrived in time.`
+      : `Reject the late answers from ${attempt.studentName}? The attempt keeps its current marks.`;
+    if (!window.confirm(message)) return;
+
+    setReviewingId(attempt.id);
+    try {
+      const { attempt: updated } = await apiApplyAttemptAction(
+        attempt.id,
+        accept ? AttemptActionType.AcceptLateAnswers : AttemptActionType.RejectLateAnswers
+      );
+      setAttempts(prev => prev.map(a => a.id === attempt.id ? { ...a, ...updated, studentName: a.studentName, studentResult: a.studentResult } : a));
+    } catch (error: any) {
+      alert(error.message || 'Failed to review the late answers');
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
   const downloadCSV = () => {
     let csvContent = "data:text/csv;charset=utf-8,";
-    csvContent += "Student Name,Marks Obtained,Total Marks,Tab Switches,Submission Time\r\n";
+    csvContent += "Student Name,Attempt,Marks Obtained,Counted Marks,Total Marks,Grading,Tab Switches,Proctoring Events,Risk Score,Risk Reasons,Submission Time,Late,Uploaded Late\r\n";
     
     attempts.forEach(attempt => {
         const submissionTime = attempt.endTime ? new Date(attempt.endTime).toLocaleString() : 'N/A';
-        const row = `${attempt.studentName},${attempt.achievedMarks},${quiz.totalMarks},${attempt.tabSwitches},"${submissionTime}"`;
+        const grading = attempt.gradingStatus === 'pending' ? 'Pending' : 'Complete';
+        const riskReasons = (attempt.integrity?.reasons || []).join('; ').replace(/"/g, '""');
+        const row = `${attempt.studentName},${attempt.attemptNumber || 1},${attempt.achievedMarks},${attempt.studentResult?.achievedMarks ?? attempt.achievedMarks},${quiz.totalMarks},${grading},${attempt.tabSwitches},${attempt.proctoringEventCount ?? 0},${attempt.integrity?.riskScore ?? ''},"${riskReasons}","${submissionTime}",${attempt.submittedLate ? 'Yes' : 'No'},${attempt.uploadedLate ? 'Yes' : 'No'}`;
         csvContent += row + "\r\n";
     });
 
@@ -62,38 +125,156 @@ const QuizResultsModal: React.FC<QuizResultsModalProps> = ({ isOpen, onClose, qu
     document.body.removeChild(link);
   }
 
+  const pendingCount = attempts.filter(a => a.gradingStatus === 'pending').length;
+  const flaggedCount = attempts.filter(a => matchesRiskFilter(a, 'flagged')).length;
+
+  // Riskiest first when reviewing; otherwise keep the grouping by student from loading
+  const visibleAttempts = attempts.filter(a => matchesRiskFilter(a, riskFilter));
+  if (sortByRisk) {
+    visibleAttempts.sort((a, b) => (b.integrity?.riskScore ?? 0) - (a.integrity?.riskScore ?? 0));
+  }
+
   return (
+    <>
     <Modal isOpen={isOpen} onClose={onClose} title={`Results for ${quiz.title}`} size="xl">
-        <div className="mb-4 flex justify-end">
-            <Button onClick={downloadCSV} disabled={attempts.length === 0}>Export to CSV</Button>
+        <div className="mb-4 flex justify-between items-center">
+            <div className="text-sm">
+              {isPractice
+                ? <p className="text-teal-300">Practice quiz: unlimited attempts, left out of class statistics.</p>
+                : allowsRetakes && <p className="text-gray-400">Up to {quiz.maxAttempts} attempts; counted score: {policyLabel.toLowerCase()}.</p>}
+              {pendingCount > 0 && <p className="text-yellow-300">{pendingCount} attempt{pendingCount === 1 ? '' : 's'} still being graded; their marks are provisional.</p>}
+              {!isPractice && flaggedCount > 0 && <p className="text-red-300">{flaggedCount} attempt{flaggedCount === 1 ? '' : 's'} flagged for integrity review.</p>}
+            </div>
+            <div className="flex items-center gap-2">
+                {!isPractice && (
+                    <>
+                        <select value={riskFilter} onChange={e => setRiskFilter(e.target.value as RiskFilter)} className="bg-gray-700 border border-gray-600 rounded-md p-2 text-sm">
+                            <option value="all">All attempts</option>
+                            <option value="flagged">Flagged (medium or high risk)</option>
+                            <option value="high">High risk only</option>
+                        </select>
+                        <select value={sortByRisk ? 'risk' : 'score'} onChange={e => setSortByRisk(e.target.value === 'risk')} className="bg-gray-700 border border-gray-600 rounded-md p-2 text-sm">
+                            <option value="score">Sort by score</option>
+                            <option value="risk">Sort by risk</option>
+                        </select>
+                        <Button variant="ghost" onClick={() => setIsSimilarityOpen(true)} disabled={attempts.length < 2}>Check Similarity</Button>
+                    </>
+                )}
+                <Button onClick={downloadCSV} disabled={attempts.length === 0}>Export to CSV</Button>
+            </div>
         </div>
-      {attempts.length > 0 ? (
+      {visibleAttempts.length > 0 ? (
         <div className="max-h-96 overflow-y-auto">
             <table className="w-full text-sm text-left text-gray-300">
                 <thead className="text-xs text-indigo-300 uppercase bg-gray-700 sticky top-0">
                     <tr>
                         <th scope="col" className="px-6 py-3">Student</th>
+                        {allowsRetakes && <th scope="col" className="px-6 py-3">Attempt</th>}
                         <th scope="col" className="px-6 py-3">Score</th>
+                        {allowsRetakes && <th scope="col" className="px-6 py-3" title={policyLabel}>Counted</th>}
                         <th scope="col" className="px-6 py-3">Tab Switches</th>
+                        {!isPractice && <th scope="col" className="px-6 py-3">Proctoring</th>}
+                        {!isPractice && <th scope="col" className="px-6 py-3">Integrity</th>}
                         <th scope="col" className="px-6 py-3">Submitted At</th>
                     </tr>
                 </thead>
                 <tbody>
-                    {attempts.map(attempt => (
-                        <tr key={attempt.id} className="bg-gray-800 border-b border-gray-700 hover:bg-gray-600">
+                    {visibleAttempts.map(attempt => (
+                        <React.Fragment key={attempt.id}>
+                        <tr className="bg-gray-800 border-b border-gray-700 hover:bg-gray-600">
                             <td className="px-6 py-4 font-medium whitespace-nowrap">{attempt.studentName}</td>
-                            <td className={`px-6 py-4 font-bold ${attempt.score > 70 ? 'text-green-400' : attempt.score > 40 ? 'text-yellow-400' : 'text-red-400'}`}>{attempt.achievedMarks} / {quiz.totalMarks}</td>
+                            {allowsRetakes && <td className="px-6 py-4">#{attempt.attemptNumber || 1}</td>}
+                            <td className={`px-6 py-4 font-bold ${attempt.score > 70 ? 'text-green-400' : attempt.score > 40 ? 'text-yellow-400' : 'text-red-400'}`}>
+                                {attempt.achievedMarks} / {quiz.totalMarks}
+                                {attempt.gradingStatus === 'pending' && <span className="ml-2 text-xs px-2 py-0.5 rounded-full bg-yellow-800 text-yellow-200 font-semibold">Pending grading</span>}
+                            </td>
+                            {allowsRetakes && (
+                                <td className="px-6 py-4">
+                                    {attempt.studentResult ? `${attempt.studentResult.achievedMarks} / ${quiz.totalMarks}` : '-'}
+                                    {attempt.studentResult?.attemptNumber === (attempt.attemptNumber || 1) && <span className="ml-2 text-xs text-indigo-300" title="This attempt is the one that counts">★</span>}
+                                </td>
+                            )}
                             <td className={`px-6 py-4 ${attempt.tabSwitches > 3 ? 'text-red-400 font-bold' : ''}`}>{attempt.tabSwitches}</td>
-                            <td className="px-6 py-4">{attempt.endTime ? new Date(attempt.endTime).toLocaleString() : 'N/A'}</td>
+                            {!isPractice && (
+                                <td className="px-6 py-4">
+                                    <button onClick={() => setTimelineFor(attempt)} className="text-indigo-300 hover:text-indigo-200 whitespace-nowrap">
+                                        {attempt.proctoringEventCount ?? 0} event{attempt.proctoringEventCount === 1 ? '' : 's'} &rarr;
+                                    </button>
+                                </td>
+                            )}
+                            {!isPractice && (
+                                <td className="px-6 py-4">
+                                    {attempt.integrity ? (
+                                        <button
+                                            onClick={() => setExpandedId(expandedId === attempt.id ? null : attempt.id)}
+                                            disabled={attempt.integrity.reasons.length === 0}
+                                            className={`text-xs px-2 py-0.5 rounded-full font-semibold whitespace-nowrap ${RISK_STYLES[attempt.integrity.level]}`}
+                                            title={attempt.integrity.reasons.length > 0 ? 'Show reasons' : 'Nothing unusual'}
+                                        >
+                                            {attempt.integrity.level} &middot; {attempt.integrity.riskScore}
+                                        </button>
+                                    ) : '-'}
+                                </td>
+                            )}
+                            <td className="px-6 py-4">
+                                {attempt.endTime ? new Date(attempt.endTime).toLocaleString() : 'N/A'}
+                                {attempt.submittedLate && <span className="ml-2 text-xs px-2 py-0.5 rounded-full bg-red-800 text-red-200 font-semibold" title="Submitted after the time limit; only answers saved in time were graded">Late</span>}
+                                {attempt.uploadedLate && (
+                                    <span
+                                        className="ml-2 text-xs px-2 py-0.5 rounded-full bg-orange-800 text-orange-200 font-semibold"
+                                        title={attempt.lateAnswersStatus === 'pending'
+                                            ? 'Uploaded after the time limit, claiming to have been saved offline before it; not graded until accepted'
+                                            : `Uploaded after the time limit; ${attempt.lateAnswersStatus || 'reviewed'}`}
+                                    >
+                                        Uploaded late{attempt.lateAnswersStatus && attempt.lateAnswersStatus !== 'pending' ? ` (${attempt.lateAnswersStatus})` : ''}
+                                    </span>
+                                )}
+                                {attempt.lateAnswersStatus === 'pending' && (
+                                    <span className="ml-2 whitespace-nowrap">
+                                        <button onClick={() => reviewLateAnswers(attempt, true)} disabled={reviewingId === attempt.id} className="text-xs text-green-300 hover:text-green-200 disabled:opacity-50">Accept</button>
+                                        <span className="text-gray-500 mx-1">/</span>
+                                        <button onClick={() => reviewLateAnswers(attempt, false)} disabled={reviewingId === attempt.id} className="text-xs text-red-300 hover:text-red-200 disabled:opacity-50">Reject</button>
+                                    </span>
+                                )}
+                            </td>
                         </tr>
+                        {expandedId === attempt.id && attempt.integrity && (
+                            <tr className="bg-gray-900/50 border-b border-gray-700">
+                                <td colSpan={99} className="px-6 py-3">
+                                    <ul className="list-disc list-inside text-xs text-gray-300 space-y-1">
+                                        {attempt.integrity.reasons.map((reason, i) => <li key={i}>{reason}</li>)}
+                                    </ul>
+                                </td>
+                            </tr>
+                        )}
+                        </React.Fragment>
                     ))}
                 </tbody>
             </table>
         </div>
       ) : (
-        <p className="text-center text-gray-400 py-8">No completed attempts for this quiz yet.</p>
+        <p className="text-center text-gray-400 py-8">
+          {attempts.length > 0 ? 'No attempts match this filter.' : 'No completed attempts for this quiz yet.'}
+        </p>
       )}
     </Modal>
+    {isSimilarityOpen && (
+      <SimilarityReportModal
+        isOpen={isSimilarityOpen}
+        onClose={() => setIsSimilarityOpen(false)}
+        quiz={quiz}
+        onViewLog={(id, studentName) => setTimelineFor({ id, studentName })}
+      />
+    )}
+    {timelineFor && (
+      <ProctoringTimelineModal
+        isOpen={!!timelineFor}
+        onClose={() => setTimelineFor(null)}
+        attemptId={timelineFor.id}
+        studentName={timelineFor.studentName}
+      />
+    )}
+    </>
   );
 };
 
@@ -1,7 +1,9 @@
 import React, { useState, useEffect } from 'react';
-import { Quiz, QuizAttempt, Question, QuestionType, QuestionOption } from '../types';
+import { Quiz, QuizAttempt, Question, QuestionType, QuestionResult, NumericAnswer, ToleranceType } from '../types';
 import { apiGetQuestionsByIds } from '../services/apiService';
 import Modal from './common/Modal';
+import AcceptedAnswerList from './AcceptedAnswerList';
+import { orderOptions } from '../utils/optionOrder';
 
 interface QuizReviewModalProps {
   isOpen: boolean;
@@ -17,21 +19,58 @@ const QuizReviewModal: React.FC<QuizReviewModalProps> = ({ isOpen, onClose, quiz
     const loadQuestions = async () => {
       if (isOpen && attempt.questionIds) {
         try {
-          const quizQuestions = await apiGetQuestionsByIds(attempt.questionIds);
-          setQuestions(quizQuestions);
+          const quizQuestions: Question[] = await apiGetQuestionsByIds(attempt.questionIds, quiz.id);
+          // Replay the questions in the order the student saw them
+          const position = new Map<string, number>(attempt.questionIds.map((id, index) => [id, index]));
+          setQuestions([...quizQuestions].sort((a, b) => (position.get(a.id) ?? 0) - (position.get(b.id) ?? 0)));
         } catch (error) {
           console.error('Error loading questions:', error);
         }
       }
     };
     loadQuestions();
-  }, [isOpen, attempt.questionIds]);
+  }, [isOpen, attempt.questionIds, quiz.id]);
   
+  const getResult = (questionId: string) => attempt.questionResults?.find(r => r.questionId === questionId);
+
+  // Explain how the marks for a question were awarded under the quiz's scoring policy
+  const describeResult = (result: QuestionResult, question: Question) => {
+    if (result.status === 'unanswered') return 'Not answered';
+    if (result.status === 'pending') {
+      return question.type === QuestionType.Code ? 'Your code is still being tested' : 'Awaiting grading by your teacher';
+    }
+
+    const parts: string[] = [];
+    if (result.totalCorrect !== undefined && result.totalCorrect !== null) {
+      parts.push(`${result.correctSelected} of ${result.totalCorrect} correct options selected (+${result.credit})`);
+      if (result.wrongSelected) {
+        parts.push(`${result.wrongSelected} wrong ${result.wrongSelected > 1 ? 'options' : 'option'} selected`);
+      }
+    } else if (result.totalPairs !== undefined && result.totalPairs !== null) {
+      parts.push(`${result.correctPairs} of ${result.totalPairs} adjacent pairs in order (+${result.credit})`);
+    } else if (result.testResults) {
+      parts.push(`${result.testResults.filter(t => t.passed).length} of ${result.testResults.length} tests passed (+${result.credit})`);
+    } else if (result.pairResults) {
+      parts.push(`${result.pairResults.filter(Boolean).length} of ${result.pairResults.length} pairs matched (+${result.credit})`);
+    } else if (result.blankResults) {
+      parts.push(`${result.blankResults.filter(Boolean).length} of ${result.blankResults.length} blanks correct (+${result.credit})`);
+    } else {
+      parts.push(result.credit > 0 ? `Correct (+${result.credit})` : 'Incorrect');
+    }
+    if (result.penalty > 0) {
+      parts.push(`negative marking −${result.penalty}`);
+    }
+    return parts.join(', ');
+  };
+
   const renderAnswers = (question: Question) => {
     const studentAnswer = attempt.answers[question.id];
+    const result = getResult(question.id);
 
     if (question.type === QuestionType.FillInTheBlank) {
-      const isCorrect = typeof studentAnswer === 'string' && studentAnswer.trim().toLowerCase() === question.correctAnswerText?.trim().toLowerCase();
+      const isCorrect = result
+        ? result.status === 'correct'
+        : typeof studentAnswer === 'string' && studentAnswer.trim().toLowerCase() === question.correctAnswerText?.trim().toLowerCase();
       return (
         <div className="mt-2 space-y-2">
             <div className={`p-2 rounded border-2 ${isCorrect ? 'bg-green-900/50 border-green-700' : 'bg-red-900/50 border-red-700'}`}>
@@ -39,9 +78,149 @@ const QuizReviewModal: React.FC<QuizReviewModalProps> = ({ isOpen, onClose, quiz
                 <p>{studentAnswer as string || "No answer"}</p>
             </div>
             {!isCorrect && (
+                <div className="p-2 rounded bg-gray-600">
+                    <p className="text-xs text-gray-400">{question.acceptedAnswers && question.acceptedAnswers.length > 1 ? 'Accepted Answers:' : 'Correct Answer:'}</p>
+                    <AcceptedAnswerList acceptedAnswers={question.acceptedAnswers} correctAnswerText={question.correctAnswerText} />
+                </div>
+            )}
+        </div>
+      );
+    }
+
+    if (question.type === QuestionType.Code) {
+      const testCases = question.codeConfig?.testCases || [];
+      return (
+        <div className="mt-2 space-y-2">
+            <pre className="p-2 rounded bg-gray-900 border border-gray-600 text-sm font-mono whitespace-pre-wrap overflow-x-auto">{studentAnswer as string || "No answer"}</pre>
+            <ul className="space-y-1 text-sm font-mono">
+              {testCases.map((testCase, i) => {
+                const testResult = result?.testResults?.[i];
+                return (
+                  <li key={i} className={`p-2 rounded border ${testResult?.passed ? 'bg-green-900/40 border-green-700' : 'bg-red-900/40 border-red-700'}`}>
+                    <span>{testResult?.passed ? '✓' : '✗'} {question.codeConfig?.functionName}(...{testCase.input}) → {testCase.expectedOutput}</span>
+                    <span className="text-gray-400"> ({testCase.marks} mark{testCase.marks === 1 ? '' : 's'}{testCase.hidden ? ', hidden' : ''})</span>
+                    {testResult && !testResult.passed && (
+                      <span className="block text-red-300">{testResult.error || `got ${testResult.output}`}</span>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+        </div>
+      );
+    }
+
+    if (question.type === QuestionType.LongAnswer) {
+      return (
+        <div className="mt-2 space-y-2">
+            <div className="p-2 rounded bg-gray-800 border border-gray-600">
+                <p className="text-xs text-gray-400">Your Answer:</p>
+                <p className="whitespace-pre-wrap">{studentAnswer as string || "No answer"}</p>
+            </div>
+            {result?.feedback && (
+                <div className="p-2 rounded bg-indigo-900/40 border border-indigo-700">
+                    <p className="text-xs text-gray-400">Teacher Feedback:</p>
+                    <p className="whitespace-pre-wrap">{result.feedback}</p>
+                </div>
+            )}
+            {question.modelAnswer && (
+                <div className="p-2 rounded bg-gray-600">
+                    <p className="text-xs text-gray-400">Model Answer:</p>
+                    <p className="whitespace-pre-wrap">{question.modelAnswer}</p>
+                </div>
+            )}
+        </div>
+      );
+    }
+
+    if (question.type === QuestionType.Sequence) {
+      const order = (studentAnswer as string[] | undefined) || [];
+      const correctOrder = question.sequenceItems || [];
+      const isCorrect = result?.status === 'correct';
+      return (
+        <div className="mt-2 space-y-2">
+            <div className={`p-2 rounded border-2 ${isCorrect ? 'bg-green-900/50 border-green-700' : result?.status === 'partial' ? 'bg-yellow-900/50 border-yellow-700' : 'bg-red-900/50 border-red-700'}`}>
+                <p className="text-xs text-gray-400">Your Order:</p>
+                {order.length > 0 ? (
+                  <ol className="list-decimal list-inside">
+                    {order.map((item, i) => (
+                      <li key={i} className={item === correctOrder[i] ? 'text-green-300' : ''}>{item}</li>
+                    ))}
+                  </ol>
+                ) : <p>No answer</p>}
+            </div>
+            {!isCorrect && (
+                <div className="p-2 rounded bg-gray-600">
+                    <p className="text-xs text-gray-400">Correct Order:</p>
+                    <ol className="list-decimal list-inside">
+                      {correctOrder.map((item, i) => <li key={i}>{item}</li>)}
+                    </ol>
+                </div>
+            )}
+        </div>
+      );
+    }
+
+    if (question.type === QuestionType.Matching) {
+      const matches = (studentAnswer as string[] | undefined) || [];
+      return (
+        <div className="mt-2 space-y-1">
+          {(question.matchPairs || []).map((pair, i) => {
+            const isCorrect = result?.pairResults?.[i] ?? matches[i] === pair.right;
+            return (
+              <div key={i} className={`p-2 rounded-md border text-sm flex flex-wrap items-center gap-2 ${isCorrect ? 'bg-green-900/50 border-green-700' : 'bg-red-900/50 border-red-700'}`}>
+                <span className="flex-1">{pair.left}</span>
+                <span className="text-gray-400">↔</span>
+                <span className={`flex-1 ${isCorrect ? '' : 'line-through text-red-300'}`}>{matches[i] || 'No answer'}</span>
+                {!isCorrect && <span className="flex-1 text-green-300">✓ {pair.right}</span>}
+              </div>
+            );
+          })}
+        </div>
+      );
+    }
+
+    if (question.type === QuestionType.Cloze) {
+      const blankAnswers = (studentAnswer as string[] | undefined) || [];
+      return (
+        <div className="mt-2 space-y-2">
+          {(question.blanks || []).map((blank, i) => {
+            const isCorrect = result?.blankResults?.[i] ?? false;
+            return (
+              <div key={i} className={`p-2 rounded border-2 ${isCorrect ? 'bg-green-900/50 border-green-700' : 'bg-red-900/50 border-red-700'}`}>
+                <p className="text-xs text-gray-400">Blank {i + 1} ({blank.marks} mark{blank.marks === 1 ? '' : 's'}):</p>
+                <p>{blankAnswers[i] || "No answer"}</p>
+                {!isCorrect && (
+                  <div className="mt-2 p-2 rounded bg-gray-600">
+                    <p className="text-xs text-gray-400">{blank.acceptedAnswers.length > 1 ? 'Accepted Answers:' : 'Correct Answer:'}</p>
+                    <AcceptedAnswerList acceptedAnswers={blank.acceptedAnswers} />
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      );
+    }
+
+    if (question.type === QuestionType.Numeric) {
+      const numericAnswer = studentAnswer as NumericAnswer | undefined;
+      const key = question.numericAnswer;
+      const isCorrect = result?.status === 'correct';
+      return (
+        <div className="mt-2 space-y-2">
+            <div className={`p-2 rounded border-2 ${isCorrect ? 'bg-green-900/50 border-green-700' : 'bg-red-900/50 border-red-700'}`}>
+                <p className="text-xs text-gray-400">Your Answer:</p>
+                <p>{numericAnswer && numericAnswer.value !== null ? `${numericAnswer.value} ${numericAnswer.unit || ''}` : "No answer"}</p>
+            </div>
+            {!isCorrect && key && (
                 <div className="p-2 rounded bg-gray-600">
                     <p className="text-xs text-gray-400">Correct Answer:</p>
-                    <p>{question.correctAnswerText}</p>
+                    <p>
+                      {key.value}
+                      {key.tolerance > 0 && ` ± ${key.tolerance}${key.toleranceType === ToleranceType.Relative ? '%' : ''}`}
+                      {key.units.length > 0 && ` ${key.units.join(' / ')}`}
+                    </p>
                 </div>
             )}
         </div>
@@ -70,7 +249,7 @@ const QuizReviewModal: React.FC<QuizReviewModalProps> = ({ isOpen, onClose, quiz
       return 'bg-gray-700 border-gray-600';
     };
 
-    return question.options.map((option, optIndex) => (
+    return orderOptions(question.options, attempt.optionOrders?.[question.id]).map(({ option, index: optIndex }) => (
       <div key={optIndex} className={`p-3 rounded-md border-2 text-sm flex items-center gap-3 ${getOptionStyle(optIndex)}`}>
         {option.imageUrl && <img src={option.imageUrl} alt={`Option ${optIndex+1}`} className="h-16 w-16 object-contain rounded-md bg-gray-800 p-1"/>}
         <span className="flex-1">{option.text}</span>
@@ -86,7 +265,9 @@ const QuizReviewModal: React.FC<QuizReviewModalProps> = ({ isOpen, onClose, quiz
             <p className="text-gray-300 text-xl font-bold">{attempt.achievedMarks} / {quiz.totalMarks}</p>
         </div>
         <div className="max-h-[70vh] overflow-y-auto pr-2 space-y-6">
-            {questions.map((q, index) => (
+            {questions.map((q, index) => {
+                const result = getResult(q.id);
+                return (
                 <div key={q.id} className="bg-gray-800 p-4 rounded-lg">
                     <p className="font-semibold mb-3">
                         <span className="text-gray-400 mr-2">Q{index + 1}. ({q.marks} {q.marks > 1 ? 'marks' : 'mark'})</span> 
@@ -100,8 +281,17 @@ const QuizReviewModal: React.FC<QuizReviewModalProps> = ({ isOpen, onClose, quiz
                     <div className="space-y-2 mt-3">
                         {renderAnswers(q)}
                     </div>
+                    {result && (
+                        <div className="mt-3 p-2 rounded bg-gray-900/60 text-xs flex justify-between items-center gap-4">
+                            <span className="text-gray-400">{describeResult(result, q)}</span>
+                            <span className={`font-bold whitespace-nowrap ${result.status === 'correct' ? 'text-green-400' : result.status === 'partial' ? 'text-yellow-400' : result.status === 'pending' ? 'text-gray-400' : 'text-red-400'}`}>
+                                {result.status === 'pending' ? '?' : result.awardedMarks} / {result.maxMarks}
+                            </span>
+                        </div>
+                    )}
                 </div>
-            ))}
+                );
+            })}
         </div>
     </Modal>
   );
@@ -1,9 +1,14 @@
 import React, { useState } from 'react';
-import { Quiz, User, QuestionType, Question } from '../types';
+import { Quiz, User, QuestionType, SanitizedQuestion, NumericAnswer } from '../types';
 import { useQuizTaker } from '../hooks/useQuizTaker';
 import Button from './common/Button';
 import Spinner from './common/Spinner';
 import Modal from './common/Modal';
+import SequenceInput from './SequenceInput';
+import CodeAnswerInput from './CodeAnswerInput';
+import PracticeFeedbackPanel from './PracticeFeedbackPanel';
+import { splitClozeText } from '../utils/cloze';
+import { orderOptions } from '../utils/optionOrder';
 
 interface QuizTakerProps {
   quiz: Quiz;
@@ -21,8 +26,15 @@ const QuizTaker: React.FC<QuizTakerProps> = ({ quiz, student, onFinish }) => {
     currentQuestion,
     currentQuestionIndex,
     answers,
+    optionOrders,
+    isPractice,
+    feedback,
+    checkingQuestionId,
+    checkAnswer,
     timeLeft,
     tabSwitches,
+    tabSwitchLimit,
+    fullscreenRequired,
     isFinished,
     handleAnswerSelect,
     goToNextQuestion,
@@ -45,12 +57,14 @@ const QuizTaker: React.FC<QuizTakerProps> = ({ quiz, student, onFinish }) => {
     setConfirmModalOpen(false);
   };
   
-  const renderQuestionInputs = (question: Question) => {
+  const renderQuestionInputs = (question: SanitizedQuestion) => {
     const studentAnswer = answers[question.id];
+    // Options appear in this attempt's order but are answered by their canonical index
+    const displayedOptions = orderOptions(question.options, optionOrders[question.id]);
     
     switch(question.type) {
       case QuestionType.SingleCorrect:
-        return question.options.map((option, index) => (
+        return displayedOptions.map(({ option, index }, position) => (
           <button 
             key={index} 
             onClick={() => handleAnswerSelect(question.id, index, question.type)}
@@ -59,14 +73,14 @@ const QuizTaker: React.FC<QuizTakerProps> = ({ quiz, student, onFinish }) => {
                     ? 'bg-indigo-600 border-indigo-500 scale-105 shadow-lg' 
                     : 'bg-gray-700 border-gray-600 hover:bg-gray-600 hover:border-gray-500'}`}
           >
-            <span className={`font-mono px-2 py-1 rounded bg-gray-800`}>{String.fromCharCode(65 + index)}</span>
-            {option.imageUrl && <img src={option.imageUrl} alt={`Option ${index+1}`} className="h-16 w-16 object-contain rounded-md cursor-pointer transition-transform hover:scale-110" onClick={(e) => { e.stopPropagation(); setViewingImageUrl(option.imageUrl!)}} />}
+            <span className={`font-mono px-2 py-1 rounded bg-gray-800`}>{String.fromCharCode(65 + position)}</span>
+            {option.imageUrl && <img src={option.imageUrl} alt={`Option ${position+1}`} className="h-16 w-16 object-contain rounded-md cursor-pointer transition-transform hover:scale-110" onClick={(e) => { e.stopPropagation(); setViewingImageUrl(option.imageUrl!)}} />}
             <span className="flex-1">{option.text}</span>
           </button>
         ));
       
       case QuestionType.MultipleCorrect:
-        return question.options.map((option, index) => (
+        return displayedOptions.map(({ option, index }, position) => (
           <button 
             key={index}
             onClick={() => handleAnswerSelect(question.id, index, question.type)}
@@ -76,7 +90,7 @@ const QuizTaker: React.FC<QuizTakerProps> = ({ quiz, student, onFinish }) => {
                     : 'bg-gray-700 border-gray-600 hover:bg-gray-600 hover:border-gray-500'}`}
           >
              <div className={`w-6 h-6 rounded border-2 flex-shrink-0 ${(studentAnswer as number[] || []).includes(index) ? 'bg-indigo-400 border-indigo-300' : 'border-gray-400'}`} />
-             {option.imageUrl && <img src={option.imageUrl} alt={`Option ${index+1}`} className="h-16 w-16 object-contain rounded-md cursor-pointer transition-transform hover:scale-110" onClick={(e) => { e.stopPropagation(); setViewingImageUrl(option.imageUrl!)}} />}
+             {option.imageUrl && <img src={option.imageUrl} alt={`Option ${position+1}`} className="h-16 w-16 object-contain rounded-md cursor-pointer transition-transform hover:scale-110" onClick={(e) => { e.stopPropagation(); setViewingImageUrl(option.imageUrl!)}} />}
              <span className="flex-1">{option.text}</span>
           </button>
         ));
@@ -91,12 +105,139 @@ const QuizTaker: React.FC<QuizTakerProps> = ({ quiz, student, onFinish }) => {
             placeholder="Type your answer here..."
           />
         );
+
+      case QuestionType.Cloze:
+        return (
+          <p className="text-sm text-gray-400">
+            Fill in each blank in the text above.
+            {question.blankMarks && question.blankMarks.length > 0 && ` Marks per blank: ${question.blankMarks.join(', ')}.`}
+          </p>
+        );
+
+      case QuestionType.Sequence: {
+        const order = studentAnswer as string[] | undefined;
+        return (
+          <SequenceInput
+            items={order && order.length > 0 ? order : question.sequenceOptions || []}
+            isAnswered={!!order && order.length > 0}
+            onChange={(newOrder) => handleAnswerSelect(question.id, newOrder, question.type)}
+          />
+        );
+      }
+
+      case QuestionType.Matching: {
+        const matches = (studentAnswer as string[] | undefined) || [];
+        const prompts = question.matchPrompts || [];
+        const handleMatchChange = (index: number, value: string) => {
+          const updated = prompts.map((_, i) => matches[i] || '');
+          updated[index] = value;
+          handleAnswerSelect(question.id, updated, question.type);
+        };
+        return (
+          <div className="space-y-3">
+            {prompts.map((prompt, index) => (
+              <div key={index} className="flex flex-col sm:flex-row sm:items-center gap-2 p-3 rounded-lg bg-gray-700 border-2 border-gray-600">
+                <span className="flex-1">{prompt}</span>
+                <span className="hidden sm:block text-gray-400">↔</span>
+                <select
+                  value={matches[index] || ''}
+                  onChange={(e) => handleMatchChange(index, e.target.value)}
+                  aria-label={`Match for ${prompt}`}
+                  className={`sm:w-1/2 bg-gray-800 border rounded-md p-2 ${matches[index] ? 'border-indigo-500' : 'border-gray-600'}`}
+                >
+                  <option value="">Select a match...</option>
+                  {(question.matchOptions || []).map(option => <option key={option} value={option}>{option}</option>)}
+                </select>
+              </div>
+            ))}
+          </div>
+        );
+      }
+
+      case QuestionType.Code:
+        return question.codeConfig ? (
+          <CodeAnswerInput
+            config={question.codeConfig}
+            code={studentAnswer === undefined ? question.codeConfig.starterCode : studentAnswer as string}
+            onChange={(code) => handleAnswerSelect(question.id, code, question.type)}
+          />
+        ) : <p>This question has no test configuration.</p>;
+
+      case QuestionType.LongAnswer: {
+        const text = (studentAnswer as string) || '';
+        const wordCount = text.trim() ? text.trim().split(/\s+/).length : 0;
+        return (
+          <div>
+            <textarea
+              value={text}
+              onChange={(e) => handleAnswerSelect(question.id, e.target.value, question.type)}
+              rows={10}
+              className="w-full bg-gray-700 border border-gray-600 rounded-md p-3 text-base"
+              placeholder="Write your answer here..."
+            />
+            <p className="text-xs text-gray-400 text-right mt-1">{wordCount} word{wordCount === 1 ? '' : 's'}</p>
+          </div>
+        );
+      }
+
+      case QuestionType.Numeric: {
+        const numericAnswer = (studentAnswer as NumericAnswer) || { value: null };
+        return (
+          <div className="flex flex-wrap gap-3">
+            <input
+              type="number"
+              step="any"
+              value={numericAnswer.value ?? ''}
+              onChange={(e) => handleAnswerSelect(question.id, { ...numericAnswer, value: e.target.value === '' ? null : Number(e.target.value) }, question.type)}
+              className="flex-grow bg-gray-700 border border-gray-600 rounded-md p-3 text-lg"
+              placeholder="Enter a number..."
+            />
+            {question.requiresUnit && (
+              <input
+                type="text"
+                value={numericAnswer.unit || ''}
+                onChange={(e) => handleAnswerSelect(question.id, { ...numericAnswer, unit: e.target.value }, question.type)}
+                className="w-40 bg-gray-700 border border-gray-600 rounded-md p-3 text-lg"
+                placeholder="Unit"
+              />
+            )}
+          </div>
+        );
+      }
         
       default:
         return <p>Unsupported question type.</p>;
     }
   }
 
+  // Cloze text with an inline input in place of each ___ placeholder
+  const renderClozeText = (question: SanitizedQuestion) => {
+    const blankAnswers = (answers[question.id] as string[]) || [];
+    const parts = splitClozeText(question.text);
+
+    const handleBlankChange = (index: number, value: string) => {
+      const updated = Array.from({ length: parts.length - 1 }, (_, i) => blankAnswers[i] || '');
+      updated[index] = value;
+      handleAnswerSelect(question.id, updated, question.type);
+    };
+
+    return parts.map((part, index) => (
+      <React.Fragment key={index}>
+        {part}
+        {index < parts.length - 1 && (
+          <input
+            type="text"
+            value={blankAnswers[index] || ''}
+            onChange={(e) => handleBlankChange(index, e.target.value)}
+            aria-label={`Blank ${index + 1}`}
+            placeholder={`(${index + 1})`}
+            className="inline-block w-40 mx-1 bg-gray-700 border-b-2 border-indigo-500 rounded-t-md px-2 py-1 text-base font-normal"
+          />
+        )}
+      </React.Fragment>
+    ));
+  };
+
   if (isFinished) {
     return (
       <div className="flex flex-col items-center justify-center min-h-screen bg-gray-900 text-white p-4">
@@ -125,11 +266,15 @@ const QuizTaker: React.FC<QuizTakerProps> = ({ quiz, student, onFinish }) => {
                   <h2 className="text-3xl font-bold text-indigo-400 mb-4">Ready to Start "{quiz.title}"?</h2>
                   <p className="text-gray-300 mb-6">To ensure a fair testing environment, this quiz has the following security measures:</p>
                   <ul className="text-left space-y-3 text-gray-300 list-disc list-inside mb-8 bg-gray-900/50 p-6 rounded-md">
-                      <li>The quiz must be taken in <span className="font-bold text-yellow-400">full-screen mode</span>.</li>
-                      <li>Leaving full-screen will pause the quiz and show a warning.</li>
-                      <li>Leaving full-screen a <span className="font-bold text-red-400">second time</span> will automatically submit your quiz.</li>
+                      {fullscreenRequired && (
+                        <>
+                          <li>The quiz must be taken in <span className="font-bold text-yellow-400">full-screen mode</span>.</li>
+                          <li>Leaving full-screen shows a warning; your time keeps running until you return.</li>
+                          <li>Leaving full-screen a <span className="font-bold text-red-400">second time</span> will automatically submit your quiz.</li>
+                        </>
+                      )}
                       <li><span className="font-bold text-red-400">Copying, pasting, and taking screenshots</span> are disabled.</li>
-                      <li>Switching to other tabs or applications is monitored and limited.</li>
+                      <li>Switching to other tabs or applications is monitored and limited to <span className="font-bold">{tabSwitchLimit}</span>.</li>
                   </ul>
                   <Button onClick={startQuiz} className="text-lg px-6 py-3">I Understand, Start Quiz</Button>
               </div>
@@ -138,28 +283,34 @@ const QuizTaker: React.FC<QuizTakerProps> = ({ quiz, student, onFinish }) => {
   }
   
   return (
-    <div className="flex flex-col min-h-screen p-4 sm:p-6 select-none" style={{ userSelect: 'none' }}>
+    <div className={`flex flex-col min-h-screen p-4 sm:p-6 ${isPractice ? '' : 'select-none'}`} style={isPractice ? undefined : { userSelect: 'none' }}>
       <header className="bg-gray-800 p-4 rounded-lg shadow-md mb-6 flex justify-between items-center">
         <div>
           <h1 className="text-xl sm:text-2xl font-bold text-indigo-400">{quiz.title}</h1>
           <p className="text-xs text-gray-400 mt-1">{currentQuestion.marks} {currentQuestion.marks > 1 ? 'Marks' : 'Mark'}</p>
         </div>
+        {isPractice ? (
+          <span className="text-xs px-2 py-1 rounded-full bg-teal-800 text-teal-200 font-semibold">Practice &bull; Not graded</span>
+        ) : (
         <div className="flex items-center gap-4 text-sm sm:text-base">
           <div className="text-center">
             <div className="font-bold text-lg">{formatTime(timeLeft)}</div>
             <div className="text-xs text-gray-400">Time Left</div>
           </div>
           <div className={`text-center p-2 rounded-md ${tabSwitches > 0 ? 'bg-red-900/50' : ''}`}>
-             <div className={`font-bold text-lg ${tabSwitches >= quiz.tabSwitchThreshold -1 && quiz.tabSwitchThreshold > 0 ? 'text-red-400 animate-pulse' : tabSwitches > 0 ? 'text-red-400' : ''}`}>{tabSwitches}/{quiz.tabSwitchThreshold}</div>
+             <div className={`font-bold text-lg ${tabSwitches >= tabSwitchLimit -1 && tabSwitchLimit > 0 ? 'text-red-400 animate-pulse' : tabSwitches > 0 ? 'text-red-400' : ''}`}>{tabSwitches}/{tabSwitchLimit}</div>
             <div className="text-xs text-gray-400">Tab Switches</div>
           </div>
         </div>
+        )}
       </header>
 
       <main className="flex-grow bg-gray-800 p-6 rounded-lg shadow-md flex flex-col">
         <div className="mb-4">
           <p className="text-gray-400">Question {currentQuestionIndex + 1} of {totalQuestions}</p>
-          <h2 className="text-xl sm:text-2xl font-semibold my-2">{currentQuestion.text}</h2>
+          <h2 className="text-xl sm:text-2xl font-semibold my-2 leading-loose">
+            {currentQuestion.type === QuestionType.Cloze ? renderClozeText(currentQuestion) : currentQuestion.text}
+          </h2>
           {currentQuestion.imageUrl && (
             <div className="my-4 max-w-sm mx-auto">
                 <img src={currentQuestion.imageUrl} alt="Question visual aid" className="max-w-full rounded-lg cursor-pointer transition-transform hover:scale-105" onClick={() => setViewingImageUrl(currentQuestion.imageUrl)} />
@@ -170,6 +321,26 @@ const QuizTaker: React.FC<QuizTakerProps> = ({ quiz, student, onFinish }) => {
         <div className="space-y-4">
             {currentQuestion && renderQuestionInputs(currentQuestion)}
         </div>
+
+        {isPractice && currentQuestion && (
+          feedback[currentQuestion.id] ? (
+            <PracticeFeedbackPanel
+              question={currentQuestion}
+              feedback={feedback[currentQuestion.id]}
+              optionOrder={optionOrders[currentQuestion.id]}
+            />
+          ) : (
+            <div className="mt-4 flex justify-end">
+              <Button
+                onClick={() => checkAnswer(currentQuestion.id)}
+                variant="secondary"
+                disabled={answers[currentQuestion.id] === undefined || checkingQuestionId !== null}
+              >
+                {checkingQuestionId === currentQuestion.id ? 'Checking...' : 'Check Answer'}
+              </Button>
+            </div>
+          )
+        )}
       </main>
 
       <footer className="mt-6 flex justify-between items-center">
@@ -193,7 +364,11 @@ const QuizTaker: React.FC<QuizTakerProps> = ({ quiz, student, onFinish }) => {
         title="Confirm Submission"
       >
         <div className="space-y-6">
-            <p className="text-gray-300">Are you sure you want to submit the quiz? You will not be able to change your answers after this.</p>
+            <p className="text-gray-300">
+              {isPractice
+                ? "Finish this practice attempt? It won't count toward your grade, and you can practice again any time."
+                : 'Are you sure you want to submit the quiz? You will not be able to change your answers after this.'}
+            </p>
             <div className="flex justify-end gap-4">
                 <Button variant="ghost" onClick={() => setConfirmModalOpen(false)}>
                     Cancel
@@ -214,7 +389,7 @@ const QuizTaker: React.FC<QuizTakerProps> = ({ quiz, student, onFinish }) => {
             <div className="mx-auto bg-yellow-900/50 h-16 w-16 rounded-full flex items-center justify-center">
                 <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8 text-yellow-300" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" /></svg>
             </div>
-            <p className="text-gray-300">You have exited full-screen mode. The timer is paused.</p>
+            <p className="text-gray-300">You have exited full-screen mode. Your time is still running — return to full-screen to continue.</p>
             <p className="text-gray-400 text-sm">Please re-enter full-screen to continue the quiz. Exiting again will result in automatic submission.</p>
             <div className="flex justify-center mt-4">
                 <Button onClick={reEnterFullScreen}>
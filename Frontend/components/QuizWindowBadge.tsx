@@ -0,0 +1,28 @@
+import React from 'react';
+import { Quiz, QuizWindowState } from '../types';
+import { getQuizWindowState, msUntilWindowChange, formatCountdown } from '../utils/quizWindow';
+
+interface QuizWindowBadgeProps {
+  quiz: Quiz;
+  now: number;
+  children?: React.ReactNode; // Shown when the quiz has no schedule to count down to
+}
+
+// Countdown to a scheduled quiz opening or closing
+const QuizWindowBadge: React.FC<QuizWindowBadgeProps> = ({ quiz, now, children }) => {
+  const state = getQuizWindowState(quiz, now);
+  const remaining = msUntilWindowChange(quiz, now);
+
+  if (state === QuizWindowState.Upcoming) {
+    return <span className="text-xs px-2 py-1 rounded-full bg-purple-800 text-purple-200 font-semibold">Opens in {formatCountdown(remaining!)}</span>;
+  }
+  if (state === QuizWindowState.Closed) {
+    return <span className="text-xs px-2 py-1 rounded-full bg-gray-600 text-gray-200 font-semibold">Closed</span>;
+  }
+  if (remaining !== null) {
+    return <span className="text-xs px-2 py-1 rounded-full bg-orange-800 text-orange-200 font-semibold">Closes in {formatCountdown(remaining)}</span>;
+  }
+  return <>{children}</>;
+};
+
+export default QuizWindowBadge;
@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import Button from './common/Button';
+
+interface SequenceInputProps {
+  items: string[]; // Current order shown to the student
+  isAnswered: boolean;
+  onChange: (order: string[]) => void;
+}
+
+const moveItem = (items: string[], from: number, to: number): string[] => {
+  const reordered = [...items];
+  const [moved] = reordered.splice(from, 1);
+  reordered.splice(to, 0, moved);
+  return reordered;
+};
+
+// Reorderable list: drag items, use the arrow buttons, or focus an item and press Alt+Up/Down
+const SequenceInput: React.FC<SequenceInputProps> = ({ items, isAnswered, onChange }) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  const move = (from: number, to: number) => {
+    if (to < 0 || to >= items.length || from === to) return;
+    onChange(moveItem(items, from, to));
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLLIElement>, index: number) => {
+    if (!event.altKey) return;
+    if (event.key === 'ArrowUp' || event.key === 'ArrowDown') {
+      event.preventDefault();
+      const target = event.key === 'ArrowUp' ? index - 1 : index + 1;
+      move(index, target);
+      // Keep focus on the moved item so it can be moved again
+      const list = event.currentTarget.parentElement;
+      requestAnimationFrame(() => (list?.children[target] as HTMLElement | undefined)?.focus());
+    }
+  };
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null) move(dragIndex, index);
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  return (
+    <div className="space-y-3">
+      <ol className="space-y-2">
+        {items.map((item, index) => (
+          <li
+            key={item}
+            tabIndex={0}
+            draggable
+            onDragStart={() => setDragIndex(index)}
+            onDragOver={(e) => { e.preventDefault(); setDropIndex(index); }}
+            onDragLeave={() => setDropIndex(null)}
+            onDrop={() => handleDrop(index)}
+            onDragEnd={() => { setDragIndex(null); setDropIndex(null); }}
+            onKeyDown={(e) => handleKeyDown(e, index)}
+            aria-label={`Position ${index + 1}: ${item}. Press Alt and the arrow keys to move.`}
+            className={`flex items-center gap-3 p-3 rounded-lg border-2 cursor-move transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500
+              ${dragIndex === index ? 'opacity-50' : ''}
+              ${dropIndex === index && dragIndex !== index ? 'border-indigo-400 bg-gray-600' : 'border-gray-600 bg-gray-700'}`}
+          >
+            <span className="font-mono px-2 py-1 rounded bg-gray-800">{index + 1}</span>
+            <span className="flex-1">{item}</span>
+            <div className="flex flex-col">
+              <button type="button" onClick={() => move(index, index - 1)} disabled={index === 0} className="text-gray-400 hover:text-white disabled:opacity-30 px-2" aria-label="Move up">▲</button>
+              <button type="button" onClick={() => move(index, index + 1)} disabled={index === items.length - 1} className="text-gray-400 hover:text-white disabled:opacity-30 px-2" aria-label="Move down">▼</button>
+            </div>
+          </li>
+        ))}
+      </ol>
+      {!isAnswered && (
+        <div className="flex items-center gap-3 text-sm text-gray-400">
+          <span>Reorder the items, or keep this order:</span>
+          <Button type="button" variant="secondary" onClick={() => onChange(items)} className="!py-1">Use this order</Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SequenceInput;
@@ -0,0 +1,98 @@
+import React, { useState, useEffect } from 'react';
+import { Quiz, SimilarityReport, SimilarityPair } from '../types';
+import { apiGetSimilarityReport } from '../services/apiService';
+import Modal from './common/Modal';
+import Spinner from './common/Spinner';
+
+interface SimilarityReportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  quiz: Quiz;
+  onViewLog: (attemptId: string, studentName: string) => void;
+}
+
+const scoreStyle = (score: number) =>
+  score >= 50 ? 'bg-red-800 text-red-200' : score >= 35 ? 'bg-yellow-800 text-yellow-200' : 'bg-gray-700 text-gray-300';
+
+const formatTime = (timestamp?: number) => timestamp ? new Date(timestamp).toLocaleTimeString() : 'N/A';
+
+const SimilarityReportModal: React.FC<SimilarityReportModalProps> = ({ isOpen, onClose, quiz, onViewLog }) => {
+  const [report, setReport] = useState<SimilarityReport | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadReport = async () => {
+      if (!isOpen) return;
+      setIsLoading(true);
+      setError(null);
+      try {
+        setReport(await apiGetSimilarityReport(quiz.id));
+      } catch (err: any) {
+        setError(err.message || 'Failed to analyse attempts');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    loadReport();
+  }, [isOpen, quiz.id]);
+
+  // Question numbers follow the quiz's own order; pool questions outside it are just counted
+  const questionLabels = (pair: SimilarityPair) => {
+    const numbers = pair.questionIds
+      .map(id => quiz.questionIds.indexOf(id))
+      .filter(index => index >= 0)
+      .sort((a, b) => a - b)
+      .map(index => `Q${index + 1}`);
+    return numbers.length > 0 ? numbers.join(', ') : `${pair.questionIds.length} question${pair.questionIds.length === 1 ? '' : 's'}`;
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={`Answer Similarity: ${quiz.title}`} size="xl">
+      {isLoading ? (
+        <div className="flex justify-center py-10"><Spinner /></div>
+      ) : error ? (
+        <p className="text-center text-red-300 py-8">{error}</p>
+      ) : report && (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-400">
+            Compared {report.comparedAttempts} submitted attempt{report.comparedAttempts === 1 ? '' : 's'} pairwise. Shared wrong answers count for more the fewer other students gave them. Similarity is a reason to look closer, not proof of collusion.
+          </p>
+          {report.pairs.length > 0 ? (
+            <ul className="max-h-96 overflow-y-auto space-y-2">
+              {report.pairs.map(pair => (
+                <li key={pair.attempts.map(a => a.id).join('-')} className="p-3 rounded-lg bg-gray-900/50 border border-gray-700">
+                  <div className="flex justify-between items-start gap-4">
+                    <div className="space-y-1">
+                      {pair.attempts.map(attempt => (
+                        <p key={attempt.id} className="text-sm">
+                          <button onClick={() => onViewLog(attempt.id, attempt.student.name)} className="font-semibold text-indigo-300 hover:text-indigo-200">
+                            {attempt.student.name}
+                          </button>
+                          <span className="text-gray-400">
+                            {attempt.attemptNumber > 1 && ` (attempt #${attempt.attemptNumber})`}: {attempt.achievedMarks} / {quiz.totalMarks}, {formatTime(attempt.startTime)} – {formatTime(attempt.endTime)}
+                          </span>
+                        </p>
+                      ))}
+                    </div>
+                    <span className={`text-xs px-2 py-1 rounded-full font-semibold whitespace-nowrap ${scoreStyle(pair.score)}`}>
+                      Similarity {pair.score}
+                    </span>
+                  </div>
+                  <ul className="list-disc list-inside text-xs text-gray-300 mt-2 space-y-1">
+                    {pair.reasons.map((reason, i) => <li key={i}>{reason}</li>)}
+                  </ul>
+                  {pair.questionIds.length > 0 && <p className="text-xs text-gray-500 mt-1">Answered alike: {questionLabels(pair)}</p>}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-center text-gray-400 py-8">No suspiciously similar attempts found.</p>
+          )}
+        </div>
+      )}
+    </Modal>
+  );
+};
+
+export default SimilarityReportModal;
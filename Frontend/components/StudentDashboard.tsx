@@ -1,16 +1,22 @@
 
-import React, { useState, useEffect } from 'react';
-import { User, Quiz, QuizAttempt, ClassWithTeacherName } from '../types';
+import React, { useState, useEffect, useRef } from 'react';
+import { User, Quiz, QuizAttempt, ClassWithTeacherName, QuizWindowState, QuizMode, StudentAttempts, ScorePolicy, OutboxChange } from '../types';
 import { 
   apiGetStudentClasses, 
   apiJoinClass, 
   apiGetQuizzesByClass, 
-  apiGetAttemptByQuizAndStudent 
+  apiGetStudentAttempts 
 } from '../services/apiService';
+import { getPendingUploads, watchOutbox } from '../services/attemptOutbox';
 import Button from './common/Button';
 import QuizTaker from './QuizTaker';
 import Modal from './common/Modal';
 import QuizReviewModal from './QuizReviewModal';
+import QuizWindowBadge from './QuizWindowBadge';
+import { quizQuestionCount } from '../utils/questionPool';
+import { getQuizWindowState } from '../utils/quizWindow';
+import { SCORE_POLICY_LABELS } from '../utils/scorePolicy';
+import { useNow } from '../hooks/useNow';
 
 interface StudentDashboardProps {
   student: User;
@@ -24,7 +30,7 @@ const StudentDashboard: React.FC<StudentDashboardProps> = ({ student, onLogout,
   const [activeQuiz, setActiveQuiz] = useState<Quiz | null>(null);
   
   const [classQuizzes, setClassQuizzes] = useState<Quiz[]>([]);
-  const [classAttempts, setClassAttempts] = useState<{ [quizId: string]: QuizAttempt | undefined }>({});
+  const [classAttempts, setClassAttempts] = useState<{ [quizId: string]: StudentAttempts | undefined }>({});
 
   const [isJoinClassModalOpen, setJoinClassModalOpen] = useState(false);
   const [joinCode, setJoinCode] = useState('');
@@ -33,6 +39,11 @@ const StudentDashboard: React.FC<StudentDashboardProps> = ({ student, onLogout,
   
   const [isReviewModalOpen, setReviewModalOpen] = useState(false);
   const [reviewData, setReviewData] = useState<{ quiz: Quiz, attempt: QuizAttempt } | null>(null);
+  // Answer saves and submissions still waiting in this device's outbox
+  const [pendingUploads, setPendingUploads] = useState<OutboxChange[]>([]);
+  const uploadCountRef = useRef(0);
+  // Ticks so scheduled quizzes unlock and lock without a reload
+  const now = useNow();
 
   // Load classes from API
   const loadClasses = async () => {
@@ -48,6 +59,19 @@ const StudentDashboard: React.FC<StudentDashboardProps> = ({ student, onLogout,
     loadClasses();
   }, [student.id]);
 
+  // Every attempt the student has made at each quiz
+  const loadAttemptsFor = async (quizzes: Quiz[]) => {
+    const attemptsForClass: { [quizId: string]: StudentAttempts | undefined } = {};
+    for (const quiz of quizzes) {
+      try {
+        attemptsForClass[quiz.id] = await apiGetStudentAttempts(quiz.id, student.id);
+      } catch (error) {
+        attemptsForClass[quiz.id] = undefined;
+      }
+    }
+    setClassAttempts(attemptsForClass);
+  };
+
   useEffect(() => {
     const loadClassQuizzes = async () => {
       if (selectedClass) {
@@ -57,17 +81,7 @@ const StudentDashboard: React.FC<StudentDashboardProps> = ({ student, onLogout,
           setClassQuizzes(quizzes);
 
           // Load attempts for each quiz
-          const attemptsForClass: { [quizId: string]: QuizAttempt | undefined } = {};
-          for (const quiz of quizzes) {
-            try {
-              const attempt = await apiGetAttemptByQuizAndStudent(quiz.id, student.id);
-              attemptsForClass[quiz.id] = attempt;
-            } catch (error) {
-              // No attempt exists yet for this quiz
-              attemptsForClass[quiz.id] = undefined;
-            }
-          }
-          setClassAttempts(attemptsForClass);
+          await loadAttemptsFor(quizzes);
         } catch (error) {
           console.error('Error loading class quizzes:', error);
           setClassQuizzes([]);
@@ -82,6 +96,26 @@ const StudentDashboard: React.FC<StudentDashboardProps> = ({ student, onLogout,
     loadClassQuizzes();
   }, [selectedClass, student.id]);
 
+  useEffect(() => {
+    const refreshPendingUploads = async () => {
+      try {
+        setPendingUploads(await getPendingUploads(student.id));
+      } catch (error) {
+        console.error('Error reading pending uploads:', error);
+      }
+    };
+    refreshPendingUploads();
+    return watchOutbox(refreshPendingUploads);
+  }, [student.id]);
+
+  // A finished upload changes the student's attempts
+  useEffect(() => {
+    if (pendingUploads.length < uploadCountRef.current && classQuizzes.length > 0) {
+      loadAttemptsFor(classQuizzes);
+    }
+    uploadCountRef.current = pendingUploads.length;
+  }, [pendingUploads.length]);
+
   const handleJoinClass = async () => {
     setJoinClassError('');
     
@@ -125,12 +159,9 @@ const StudentDashboard: React.FC<StudentDashboardProps> = ({ student, onLogout,
     }
   };
   
-  const handleOpenReview = (quiz: Quiz) => {
-    const attempt = classAttempts[quiz.id];
-    if(attempt) {
-        setReviewData({ quiz, attempt });
-        setReviewModalOpen(true);
-    }
+  const handleOpenReview = (quiz: Quiz, attempt: QuizAttempt) => {
+    setReviewData({ quiz, attempt });
+    setReviewModalOpen(true);
   }
 
   if (activeQuiz) {
@@ -143,16 +174,7 @@ const StudentDashboard: React.FC<StudentDashboardProps> = ({ student, onLogout,
             const quizzes = await apiGetQuizzesByClass(selectedClass.id);
             setClassQuizzes(quizzes);
 
-            const attemptsForClass: { [quizId: string]: QuizAttempt | undefined } = {};
-            for (const quiz of quizzes) {
-              try {
-                const attempt = await apiGetAttemptByQuizAndStudent(quiz.id, student.id);
-                attemptsForClass[quiz.id] = attempt;
-              } catch (error) {
-                attemptsForClass[quiz.id] = undefined;
-              }
-            }
-            setClassAttempts(attemptsForClass);
+            await loadAttemptsFor(quizzes);
           } catch (error) {
             console.error('Error reloading quizzes:', error);
           }
@@ -166,7 +188,21 @@ const StudentDashboard: React.FC<StudentDashboardProps> = ({ student, onLogout,
     const getStatusBadge = (quiz: Quiz, isCompleted: boolean) => {
         if(isCompleted) return <span className="text-xs px-2 py-1 rounded-full bg-green-800 text-green-200 font-semibold">Completed</span>;
         if(!quiz.isReleased) return <span className="text-xs px-2 py-1 rounded-full bg-yellow-800 text-yellow-200 font-semibold">Pending</span>;
-        return <span className="text-xs px-2 py-1 rounded-full bg-blue-800 text-blue-200 font-semibold">Ready to Start</span>;
+        return (
+          <QuizWindowBadge quiz={quiz} now={now}>
+            <span className="text-xs px-2 py-1 rounded-full bg-blue-800 text-blue-200 font-semibold">Ready to Start</span>
+          </QuizWindowBadge>
+        );
+    }
+
+    const getStartLabel = (quiz: Quiz, windowState: QuizWindowState, history: StudentAttempts | undefined) => {
+        if (!quiz.isReleased) return 'Not Yet Released';
+        if (windowState === QuizWindowState.Upcoming) return 'Not Open Yet';
+        if (windowState === QuizWindowState.Closed) return 'Quiz Closed';
+        if (history?.attempts.some(a => !a.submitted)) return 'Resume Quiz';
+        if (quiz.mode === QuizMode.Practice) return history?.result ? 'Practice Again' : 'Start Practice';
+        if (history?.result) return `Retake Quiz (${history.attemptsLeft} left)`;
+        return 'Start Quiz';
     }
 
     return (
@@ -184,48 +220,82 @@ const StudentDashboard: React.FC<StudentDashboardProps> = ({ student, onLogout,
         {classQuizzes.length > 0 ? (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
             {classQuizzes.map(quiz => {
-              const attempt = classAttempts[quiz.id];
-              const isCompleted = !!attempt?.submitted;
+              const history = classAttempts[quiz.id];
+              const submittedAttempts = history?.attempts.filter(a => a.submitted) || [];
+              const latestSubmitted = submittedAttempts[submittedAttempts.length - 1];
+              const result = history?.result;
+              const isPractice = quiz.mode === QuizMode.Practice;
+              const attemptsLeft = history?.attemptsLeft ?? (quiz.maxAttempts || 1);
+              const allowsRetakes = isPractice || (quiz.maxAttempts || 1) > 1;
+              const isCompleted = !isPractice && !!latestSubmitted && attemptsLeft === 0;
+              // Time a teacher gave an attempt in progress can run past the quiz's closing time
+              const hasTimeLeft = !!history?.attempts.some(a => !a.submitted && (a.deadline || 0) > now);
+              const windowState = hasTimeLeft ? QuizWindowState.Open : getQuizWindowState(quiz, now);
+              const pendingUpload = pendingUploads.find(change => change.quizId === quiz.id);
 
               return (
                 <div key={quiz.id} className="bg-gray-800 rounded-xl shadow-lg p-6 flex flex-col border border-gray-700 hover:border-indigo-500/50 transition-all">
                   <div className="flex-grow">
                     <div className="flex justify-between items-start mb-2">
                         <p className="text-sm font-semibold text-indigo-400 uppercase tracking-wider">{quiz.subject}</p>
-                        {getStatusBadge(quiz, isCompleted)}
+                        <div className="flex gap-2">
+                            {isPractice && <span className="text-xs px-2 py-1 rounded-full bg-teal-800 text-teal-200 font-semibold">Practice</span>}
+                            {pendingUpload && <span className="text-xs px-2 py-1 rounded-full bg-orange-800 text-orange-200 font-semibold" title="Saved on this device; it will upload when you're back online">Pending upload</span>}
+                            {getStatusBadge(quiz, isCompleted)}
+                        </div>
                     </div>
                     <h3 className="text-2xl font-bold mb-2 text-white">{quiz.title}</h3>
                     <div className="flex items-center text-sm text-gray-400 space-x-4 mb-4">
-                        <span>{quiz.questionIds.length} Questions</span>
+                        <span>{quizQuestionCount(quiz)} Questions</span>
                         <span>&bull;</span>
-                        <span>{quiz.durationMinutes} Mins</span>
+                        <span>{isPractice ? 'Untimed' : `${quiz.durationMinutes} Mins`}</span>
                          <span>&bull;</span>
                         <span>{quiz.totalMarks} Marks</span>
                     </div>
-                    {isCompleted && quiz.answersReleased && (
+                    {result && quiz.answersReleased && (
                         <div className="mb-4 p-3 bg-gray-900/50 rounded-lg text-center border border-gray-700">
                             <p className="text-sm text-gray-300">Your Score</p>
-                            <p className="text-2xl font-bold text-green-400">{attempt.achievedMarks} / {quiz.totalMarks}</p>
+                            <p className="text-2xl font-bold text-green-400">{result.achievedMarks} / {quiz.totalMarks}</p>
+                            {allowsRetakes && <p className="text-xs text-gray-400 mt-1">{SCORE_POLICY_LABELS[quiz.scorePolicy || ScorePolicy.Best]}</p>}
+                            {result.gradingStatus === 'pending' && <p className="text-xs text-yellow-300 mt-1">Some answers are still being graded</p>}
                         </div>
                     )}
+                    {allowsRetakes && submittedAttempts.length > 0 && (
+                        <ul className="mb-4 space-y-1 text-sm">
+                            {submittedAttempts.map(a => (
+                                <li key={a.id} className="flex justify-between items-center px-3 py-1 rounded bg-gray-900/40">
+                                    <span className="text-gray-400">
+                                        Attempt {a.attemptNumber || 1}
+                                        {result?.attemptNumber === (a.attemptNumber || 1) && <span className="ml-1 text-indigo-300" title="This attempt counts">★</span>}
+                                    </span>
+                                    {quiz.answersReleased ? (
+                                        <button onClick={() => handleOpenReview(quiz, a)} className="text-indigo-300 hover:text-indigo-200">{a.achievedMarks} / {quiz.totalMarks} &rarr;</button>
+                                    ) : (
+                                        <span className="text-gray-500">Results pending</span>
+                                    )}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
                   </div>
-                  <div className="mt-auto pt-4">
-                    {isCompleted ? (
+                  <div className="mt-auto pt-4 space-y-2">
+                    {!isCompleted && (
                         <Button 
-                            onClick={() => handleOpenReview(quiz)}
-                            disabled={!quiz.answersReleased}
+                            onClick={() => setActiveQuiz(quiz)} 
                             className="w-full"
-                            variant="secondary"
+                            disabled={!quiz.isReleased || windowState !== QuizWindowState.Open || !!pendingUpload?.submitted}
                         >
-                            {quiz.answersReleased ? 'View Results' : 'Results Pending'}
+                            {pendingUpload?.submitted ? 'Submission Uploading...' : getStartLabel(quiz, windowState, history)}
                         </Button>
-                    ) : (
+                    )}
+                    {latestSubmitted && !allowsRetakes && (
                         <Button 
-                            onClick={() => setActiveQuiz(quiz)} 
+                            onClick={() => handleOpenReview(quiz, latestSubmitted)}
+                            disabled={!quiz.answersReleased}
                             className="w-full"
-                            disabled={!quiz.isReleased}
+                            variant="secondary"
                         >
-                            {quiz.isReleased ? 'Start Quiz' : 'Not Yet Released'}
+                            {quiz.answersReleased ? 'View Results' : 'Results Pending'}
                         </Button>
                     )}
                   </div>
@@ -287,6 +357,12 @@ const StudentDashboard: React.FC<StudentDashboardProps> = ({ student, onLogout,
         </div>
       </header>
 
+      {pendingUploads.length > 0 && (
+        <div className="mb-6 p-3 rounded-lg bg-orange-900/40 border border-orange-700 text-sm text-orange-200">
+          {pendingUploads.length} quiz attempt{pendingUploads.length === 1 ? ' has' : 's have'} changes waiting to upload. Keep this page open; they'll be sent automatically once you're back online.
+        </div>
+      )}
+
       <main>
         {selectedClass ? renderClassDetailView() : renderClassesListView()}
       </main>
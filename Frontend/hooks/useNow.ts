@@ -0,0 +1,13 @@
+import { useState, useEffect } from 'react';
+
+// Current time, refreshed every `intervalMs` so countdowns and window states update on their own
+export const useNow = (intervalMs = 1000): number => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), intervalMs);
+    return () => clearInterval(timer);
+  }, [intervalMs]);
+
+  return now;
+};
@@ -0,0 +1,47 @@
+import { useState, useEffect, useCallback } from 'react';
+import { QuestionSearchFilters, QuestionSearchResult } from '../types';
+import { apiSearchQuestions } from '../services/apiService';
+
+// Searches wait for typing to settle
+const SEARCH_DEBOUNCE_MS = 300;
+
+const EMPTY_RESULT: QuestionSearchResult = { questions: [], total: 0, tags: [], learningOutcomes: [] };
+
+// The teacher's questions matching the filters, searched again whenever they change
+export const useQuestionSearch = (filters: QuestionSearchFilters, enabled = true) => {
+  const [result, setResult] = useState<QuestionSearchResult>(EMPTY_RESULT);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [refreshCount, setRefreshCount] = useState(0);
+  // Compared by value, so callers can pass a new object on every render
+  const filtersKey = JSON.stringify(filters);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let isCurrent = true;
+    setIsLoading(true);
+    const timer = setTimeout(async () => {
+      try {
+        const found = await apiSearchQuestions(JSON.parse(filtersKey));
+        if (isCurrent) {
+          setResult(found);
+          setError(null);
+        }
+      } catch (err: any) {
+        if (isCurrent) setError(err.message || 'Failed to search questions');
+      } finally {
+        if (isCurrent) setIsLoading(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      isCurrent = false;
+      clearTimeout(timer);
+    };
+  }, [filtersKey, enabled, refreshCount]);
+
+  const refresh = useCallback(() => setRefreshCount(prev => prev + 1), []);
+
+  return { ...result, isLoading, error, refresh };
+};
@@ -1,24 +1,29 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { Quiz, Question, User, QuizAttempt, QuestionType } from '../types';
+import { Quiz, QuizMode, SanitizedQuestion, User, QuizAttempt, QuestionType, NumericAnswer, PracticeFeedback, ProctoringEvent, ProctoringEventType, OutboxChange, AnswerChange } from '../types';
 import { 
   apiGetQuestionsByIds, 
   apiGetAttemptByQuizAndStudent, 
   apiSaveAttempt, 
-  apiUpdateAttempt 
+  apiCheckPracticeAnswer,
+  apiLogProctoringEvents,
+  apiGetAttempt
 } from '../services/apiService';
+import { sendChanges, getPendingUploads, watchOutbox } from '../services/attemptOutbox';
 
-const shuffleArray = <T,>(array: T[]): T[] => {
-  const newArray = [...array];
-  for (let i = newArray.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [newArray[i], newArray[j]] = [newArray[j], newArray[i]];
-  }
-  return newArray;
-};
+const EVENT_FLUSH_INTERVAL_MS = 10000;
+// Answers are saved once they have settled for this long, so typing isn't sent per keystroke
+const ANSWER_SAVE_DEBOUNCE_MS = 1500;
+const MAX_EVENT_BATCH = 100;
+// How often a running exam checks for extra time, a forced submission or a reset from the teacher
+const CONTROL_POLL_INTERVAL_MS = 15000;
+// Answer changes are only logged for discrete choices; typed answers change with every keystroke
+const LOGGED_CHANGE_TYPES = [QuestionType.SingleCorrect, QuestionType.MultipleCorrect, QuestionType.Matching];
 
 
 export const useQuizTaker = (quiz: Quiz, student: User, onFinish: () => void) => {
-  const [questions, setQuestions] = useState<Question[]>([]);
+  // Practice quizzes skip the timer and the proctoring listeners
+  const isPractice = quiz.mode === QuizMode.Practice;
+  const [questions, setQuestions] = useState<SanitizedQuestion[]>([]);
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
   const [answers, setAnswers] = useState<{ [questionId: string]: any }>({});
   const [timeLeft, setTimeLeft] = useState(quiz.durationMinutes * 60);
@@ -27,14 +32,32 @@ export const useQuizTaker = (quiz: Quiz, student: User, onFinish: () => void) =>
   const [isLoading, setIsLoading] = useState(true);
   
   // New states for anti-cheating features
-  const [isReadyToStart, setIsReadyToStart] = useState(false);
+  const [isReadyToStart, setIsReadyToStart] = useState(isPractice);
   const [fullScreenExits, setFullScreenExits] = useState(0);
   const [isWarningVisible, setWarningVisible] = useState(false);
+  // The attempt's own limits, which include any accommodation the student has
+  const [tabSwitchLimit, setTabSwitchLimit] = useState(quiz.tabSwitchThreshold);
+  const [fullscreenRequired, setFullscreenRequired] = useState(true);
+
+  // Checked practice answers, keyed by question id; a checked answer can't be changed
+  const [feedback, setFeedback] = useState<{ [questionId: string]: PracticeFeedback }>({});
+  const [checkingQuestionId, setCheckingQuestionId] = useState<string | null>(null);
 
   const attemptRef = useRef<QuizAttempt | null>(null);
+  // The server owns the deadline; the offset corrects for this device's clock
+  const deadlineRef = useRef<number | null>(null);
+  const clockOffsetRef = useRef(0);
   const isFinishedRef = useRef(isFinished);
   const answersRef = useRef(answers);
   const isReadyRef = useRef(isReadyToStart);
+  // Proctoring events waiting to be sent to the attempt's log
+  const pendingEventsRef = useRef<ProctoringEvent[]>([]);
+  // Sequence number of the latest change queued for the server
+  const sequenceRef = useRef(0);
+  // Answers as last queued for the server, to tell which ones changed since
+  const savedAnswersRef = useRef<{ [questionId: string]: any }>({});
+  // Control version of the attempt as last seen, to notice new teacher actions
+  const controlVersionRef = useRef(0);
 
   useEffect(() => { 
     isFinishedRef.current = isFinished;
@@ -48,6 +71,93 @@ export const useQuizTaker = (quiz: Quiz, student: User, onFinish: () => void) =>
     isReadyRef.current = isReadyToStart;
   }, [isReadyToStart]);
 
+  const secondsLeft = useCallback(() => {
+    if (deadlineRef.current === null) return quiz.durationMinutes * 60;
+    return Math.max(0, Math.round((deadlineRef.current - (Date.now() + clockOffsetRef.current)) / 1000));
+  }, [quiz.durationMinutes]);
+
+  const applyAttemptLimits = useCallback((attempt: QuizAttempt) => {
+    setTabSwitchLimit(attempt.tabSwitchThreshold ?? quiz.tabSwitchThreshold);
+    setFullscreenRequired(attempt.fullscreenRequired !== false);
+  }, [quiz.tabSwitchThreshold]);
+
+  // Adopt the deadline and clock of an attempt returned by the server
+  const syncClock = useCallback((attempt: QuizAttempt | null | undefined) => {
+    if (!attempt?.deadline) return;
+    deadlineRef.current = attempt.deadline;
+    if (attempt.serverTime) {
+      clockOffsetRef.current = attempt.serverTime - Date.now();
+    }
+    setTimeLeft(secondsLeft());
+  }, [secondsLeft]);
+
+  // Adopt an attempt returned by the server, along with anything a teacher changed since it was last seen
+  const syncAttempt = useCallback((attempt: QuizAttempt | null | undefined) => {
+    const previous = attemptRef.current;
+    if (!attempt || !previous || attempt.id !== previous.id) return;
+    if ((attempt.controlVersion || 0) <= controlVersionRef.current) {
+      syncClock(attempt);
+      return;
+    }
+    controlVersionRef.current = attempt.controlVersion || 0;
+    attemptRef.current = { ...previous, ...attempt };
+
+    if (attempt.submitted) {
+      if (isFinishedRef.current) return;
+      isFinishedRef.current = true;
+      setIsFinished(true);
+      if (document.fullscreenElement) {
+        document.exitFullscreen().catch(() => {});
+      }
+      localStorage.removeItem(`quiz_progress_${student.id}_${quiz.id}`);
+      alert('Your teacher has submitted this attempt. The answers saved so far have been graded.');
+      setTimeout(() => onFinish(), 3000);
+      return;
+    }
+
+    if (attempt.startTime !== previous.startTime) {
+      savedAnswersRef.current = {};
+      setAnswers({});
+      setTabSwitches(0);
+      setFullScreenExits(0);
+      setCurrentQuestionIndex(0);
+      alert('Your teacher has reset this attempt. Your answers were cleared and your time has restarted.');
+    } else if (attempt.deadline && deadlineRef.current && attempt.deadline > deadlineRef.current) {
+      const minutes = Math.round((attempt.deadline - deadlineRef.current) / 60000);
+      alert(`Your teacher has given you ${minutes} more minute${minutes === 1 ? '' : 's'}.`);
+    }
+    syncClock(attempt);
+  }, [syncClock, onFinish, quiz.id, student.id]);
+
+  const recordEvent = useCallback((type: ProctoringEventType, questionId?: string) => {
+    pendingEventsRef.current.push({ type, questionId, at: Date.now() + clockOffsetRef.current });
+  }, []);
+
+  // Send the next batch of events; a failed batch goes back to the front of the queue
+  const flushEvents = useCallback(async () => {
+    const attemptId = attemptRef.current?.id;
+    if (!attemptId || pendingEventsRef.current.length === 0) return;
+
+    const batch = pendingEventsRef.current.splice(0, MAX_EVENT_BATCH);
+    try {
+      await apiLogProctoringEvents(attemptId, batch);
+    } catch (error) {
+      console.error('Failed to send proctoring events:', error);
+      pendingEventsRef.current.unshift(...batch);
+    }
+  }, []);
+
+  // A change to the attempt for the outbox, numbered after every earlier change
+  const nextChange = useCallback((tabSwitchCount: number, details: Pick<OutboxChange, 'change' | 'submitted' | 'answers'>): OutboxChange => ({
+    attemptId: attemptRef.current!.id,
+    quizId: quiz.id,
+    studentId: student.id,
+    sequence: ++sequenceRef.current,
+    capturedAt: Date.now() + clockOffsetRef.current,
+    tabSwitches: tabSwitchCount,
+    ...details,
+  }), [quiz.id, student.id]);
+
   const submitQuiz = useCallback(async () => {
     if (!attemptRef.current || isFinishedRef.current) return;
     
@@ -58,65 +168,43 @@ export const useQuizTaker = (quiz: Quiz, student: User, onFinish: () => void) =>
     isFinishedRef.current = true;
     setIsFinished(true);
     
-    let achievedMarks = 0;
-    questions.forEach(q => {
-        const studentAnswer = answersRef.current[q.id];
-        let isCorrect = false;
-
-        switch(q.type) {
-            case QuestionType.SingleCorrect:
-                isCorrect = studentAnswer === q.correctAnswerIndex;
-                break;
-            case QuestionType.MultipleCorrect:
-                if (Array.isArray(studentAnswer) && Array.isArray(q.correctAnswerIndices)) {
-                    isCorrect = studentAnswer.length === q.correctAnswerIndices.length && studentAnswer.every(val => q.correctAnswerIndices?.includes(val));
-                }
-                break;
-            case QuestionType.FillInTheBlank:
-                isCorrect = typeof studentAnswer === 'string' && studentAnswer.trim().toLowerCase() === q.correctAnswerText?.trim().toLowerCase();
-                break;
-        }
-        if (isCorrect) {
-            achievedMarks += q.marks;
-        }
-    });
-    
-    const score = quiz.totalMarks > 0 ? Math.round((achievedMarks / quiz.totalMarks) * 100) : 0;
-
-    const finalAttempt: QuizAttempt = {
-      ...attemptRef.current,
-      answers: answersRef.current,
-      score,
-      achievedMarks,
-      endTime: Date.now(),
-      tabSwitches,
-      submitted: true,
-    };
-    
+    // Only the answers are sent; the server grades them and returns the result.
+    // The submission waits in the outbox if the server can't be reached.
     try {
+      let synced: QuizAttempt | null;
       if (attemptRef.current.id) {
-        await apiUpdateAttempt(attemptRef.current.id, finalAttempt);
+        synced = await sendChanges([nextChange(tabSwitches, { submitted: true, answers: answersRef.current })]);
       } else {
-        await apiSaveAttempt(finalAttempt);
+        synced = await apiSaveAttempt({ quizId: quiz.id, studentId: student.id, answers: answersRef.current, tabSwitches, submitted: true });
       }
       localStorage.removeItem(`quiz_progress_${student.id}_${quiz.id}`);
-    } catch (error) {
+      if (!synced) {
+        alert('You appear to be offline. Your submission is saved on this device and will upload automatically once you reconnect.');
+      } else {
+        attemptRef.current = synced;
+        if (synced.uploadedLate) {
+          alert('Your submission arrived after the time limit. Answers saved while you were offline will only count once your teacher accepts them.');
+        } else if (synced.submittedLate) {
+          alert('Your submission arrived after the time limit. Only the answers saved before then were graded.');
+        }
+      }
+    } catch (error: any) {
       console.error('Failed to save quiz submission:', error);
-      // Save to localStorage as backup
-      localStorage.setItem(`quiz_backup_${student.id}_${quiz.id}`, JSON.stringify(finalAttempt));
-      alert('Failed to submit quiz to server. Your answers have been saved locally.');
+      alert(`Failed to submit quiz: ${error.message || 'unknown error'}. Your progress is still saved on this device.`);
     }
     
     setTimeout(() => onFinish(), 3000);
-  }, [onFinish, questions, quiz.id, quiz.totalMarks, student.id, tabSwitches]);
+  }, [onFinish, quiz.id, student.id, tabSwitches, nextChange]);
 
 
   // Effect for Initialization (runs once)
   useEffect(() => {
     const initializeQuiz = async () => {
       try {
-        const existingAttempt = await apiGetAttemptByQuizAndStudent(quiz.id, student.id);
-        if(existingAttempt?.submitted) {
+        // A submission still waiting to upload finishes the attempt on this device
+        const queued = (await getPendingUploads(student.id).catch(() => [])).find(change => change.quizId === quiz.id);
+        if (queued?.submitted) {
+            alert('Your submission for this quiz is still waiting to upload. It will be sent once you are back online.');
             setIsFinished(true);
             isFinishedRef.current = true;
             onFinish();
@@ -124,34 +212,58 @@ export const useQuizTaker = (quiz: Quiz, student: User, onFinish: () => void) =>
             return;
         }
 
+        // The student's latest attempt; once it is submitted, a new one starts if retakes are left
+        const latestAttempt = await apiGetAttemptByQuizAndStudent(quiz.id, student.id);
+        if(!isPractice && latestAttempt?.submitted && (latestAttempt.attemptNumber || 1) >= (quiz.maxAttempts || 1)) {
+            setIsFinished(true);
+            isFinishedRef.current = true;
+            onFinish();
+            setIsLoading(false);
+            return;
+        }
+        const existingAttempt = latestAttempt?.submitted ? null : latestAttempt;
+        savedAnswersRef.current = existingAttempt?.answers || {};
+        controlVersionRef.current = existingAttempt?.controlVersion || 0;
+        // Numbering carries on from whatever the server or the outbox has already seen
+        sequenceRef.current = Math.max(
+            existingAttempt?.syncSequence || 0,
+            queued && queued.attemptId === existingAttempt?.id ? queued.sequence : 0
+        );
+
         const savedProgressRaw = localStorage.getItem(`quiz_progress_${student.id}_${quiz.id}`);
+        const savedProgress = savedProgressRaw ? JSON.parse(savedProgressRaw) : null;
         
-        if (savedProgressRaw) {
-            const savedProgress = JSON.parse(savedProgressRaw);
-            setQuestions(savedProgress.questions as Question[]);
+        // Progress saved for an earlier attempt doesn't carry over to a retake, nor past a teacher's reset
+        const isSavedAttempt = existingAttempt
+            ? savedProgress?.attempt?.id === existingAttempt.id && savedProgress?.attempt?.startTime === existingAttempt.startTime
+            : !latestAttempt;
+        if (savedProgress && isSavedAttempt) {
+            setQuestions(savedProgress.questions as SanitizedQuestion[]);
             setAnswers(savedProgress.answers);
-            setTimeLeft(savedProgress.timeLeft);
             setTabSwitches(savedProgress.tabSwitches);
             setFullScreenExits(savedProgress.fullScreenExits || 0);
+            setFeedback(savedProgress.feedback || {});
             attemptRef.current = savedProgress.attempt;
+            applyAttemptLimits(existingAttempt || savedProgress.attempt);
+            // Time left always comes from the server's copy of the attempt, never from local storage
+            syncClock(existingAttempt || savedProgress.attempt);
         } else {
-            const quizQuestions = await apiGetQuestionsByIds(quiz.questionIds);
-            const shuffledQuestions = shuffleArray(quizQuestions);
-            setQuestions(shuffledQuestions);
-
+            // The server picks the attempt's questions and their order: a shuffle, or a draw from the quiz's pools
+            // An attempt resumed without saved progress, e.g. on another device, keeps the server's answers
             const newAttempt = await apiSaveAttempt({
                 quizId: quiz.id,
                 studentId: student.id,
-                answers: {},
-                score: 0,
-                achievedMarks: 0,
-                startTime: Date.now(),
-                endTime: null,
-                tabSwitches: 0,
+                ...(!existingAttempt && { answers: {}, tabSwitches: 0 }),
                 submitted: false,
-                questionIds: shuffledQuestions.map(q => q.id), // Save shuffled order
             });
+            const quizQuestions: SanitizedQuestion[] = await apiGetQuestionsByIds(newAttempt.questionIds, quiz.id);
+            const questionsById = new Map(quizQuestions.map(q => [q.id, q]));
+            setQuestions(newAttempt.questionIds.map((id: string) => questionsById.get(id)).filter(Boolean));
+            setAnswers(newAttempt.answers || {});
+            setTabSwitches(newAttempt.tabSwitches || 0);
             attemptRef.current = newAttempt;
+            applyAttemptLimits(newAttempt);
+            syncClock(newAttempt);
         }
         setIsLoading(false);
       } catch (error) {
@@ -162,13 +274,18 @@ export const useQuizTaker = (quiz: Quiz, student: User, onFinish: () => void) =>
     };
 
     initializeQuiz();
-  }, [quiz.id, student.id, onFinish, quiz.questionIds]);
+  }, [quiz.id, isPractice, student.id, onFinish, syncClock, applyAttemptLimits]);
   
   const startQuiz = useCallback(() => {
+    // Students exempt from full-screen start straight away
+    if (!fullscreenRequired) {
+        setIsReadyToStart(true);
+        return;
+    }
     document.documentElement.requestFullscreen().catch(err => {
         alert(`Error enabling full-screen mode: ${err.message}. Please allow full-screen to start.`);
     });
-  }, []);
+  }, [fullscreenRequired]);
 
   const reEnterFullScreen = useCallback(() => {
      document.documentElement.requestFullscreen().catch(() => {
@@ -176,44 +293,50 @@ export const useQuizTaker = (quiz: Quiz, student: User, onFinish: () => void) =>
      });
   }, []);
 
-  // Effect for Timer - only runs after full-screen and if quiz is not finished/paused
+  // Effect for Timer - counts down to the server deadline, which keeps running while paused for full-screen
   useEffect(() => {
-    if (isLoading || isFinished || !isReadyToStart || isWarningVisible) return;
+    if (isPractice || isLoading || isFinished) return;
 
     const timer = setInterval(() => {
-      setTimeLeft(prev => {
-        if (prev <= 1) {
-          clearInterval(timer);
-          submitQuiz();
-          return 0;
-        }
-        return prev - 1;
-      });
+      const remaining = secondsLeft();
+      setTimeLeft(remaining);
+      if (remaining <= 0) {
+        clearInterval(timer);
+        submitQuiz();
+      }
     }, 1000);
 
     return () => clearInterval(timer);
-  }, [isLoading, isFinished, submitQuiz, isReadyToStart, isWarningVisible]);
+  }, [isPractice, isLoading, isFinished, submitQuiz, secondsLeft]);
 
   
   // Effect for Event Listeners
   useEffect(() => {
-    if (isLoading || isFinished) return;
+    if (isPractice || isLoading || isFinished) return;
     
     const handleVisibilityChange = () => {
-      if (document.hidden && isReadyRef.current) {
+      if (!isReadyRef.current) return;
+      if (document.hidden) {
         setTabSwitches(prev => prev + 1);
+        recordEvent(ProctoringEventType.TabHidden);
+      } else {
+        recordEvent(ProctoringEventType.TabVisible);
       }
     };
     
     const handleFullScreenChange = () => {
         if (document.fullscreenElement) {
             // User entered/re-entered fullscreen
+            if (isReadyRef.current) {
+                recordEvent(ProctoringEventType.FullscreenEnter);
+            }
             setIsReadyToStart(true);
             setWarningVisible(false);
         } else {
             // User exited fullscreen
-            if (isReadyRef.current && !isFinishedRef.current) {
+            if (fullscreenRequired && isReadyRef.current && !isFinishedRef.current) {
                 setFullScreenExits(prev => prev + 1);
+                recordEvent(ProctoringEventType.FullscreenExit);
             }
         }
     };
@@ -221,11 +344,16 @@ export const useQuizTaker = (quiz: Quiz, student: User, onFinish: () => void) =>
     const handleKeyDown = (e: KeyboardEvent) => {
         if (e.key === 'PrintScreen') {
             e.preventDefault();
+            recordEvent(ProctoringEventType.PrintScreen);
             alert('Screenshots are disabled during this quiz.');
         }
     };
 
-    const preventAction = (e: Event) => e.preventDefault();
+    // copy, cut, paste and contextmenu share their event type names with the log
+    const preventAction = (e: Event) => {
+        e.preventDefault();
+        recordEvent(e.type as ProctoringEventType);
+    };
     
     document.addEventListener('visibilitychange', handleVisibilityChange);
     document.addEventListener('fullscreenchange', handleFullScreenChange);
@@ -244,14 +372,48 @@ export const useQuizTaker = (quiz: Quiz, student: User, onFinish: () => void) =>
       document.removeEventListener('cut', preventAction);
       document.removeEventListener('contextmenu', preventAction);
     };
-  }, [isLoading, isFinished]);
+  }, [isPractice, isLoading, isFinished, fullscreenRequired, recordEvent]);
+
+  // Effect for logging which question is on screen, for time spent per question
+  const currentQuestionId = questions[currentQuestionIndex]?.id;
+  useEffect(() => {
+    if (isPractice || !isReadyToStart || isFinished || !currentQuestionId) return;
+    recordEvent(ProctoringEventType.QuestionView, currentQuestionId);
+  }, [isPractice, isReadyToStart, isFinished, currentQuestionId, recordEvent]);
+
+  // Effect for sending proctoring events in batches; whatever is left goes out when the quiz finishes
+  useEffect(() => {
+    if (isPractice || isLoading || isFinished) return;
+
+    const interval = setInterval(flushEvents, EVENT_FLUSH_INTERVAL_MS);
+    return () => {
+      clearInterval(interval);
+      flushEvents();
+    };
+  }, [isPractice, isLoading, isFinished, flushEvents]);
   
+  // Effect for picking up the teacher's actions on the attempt while the exam runs
+  useEffect(() => {
+    if (isPractice || isLoading || isFinished) return;
+
+    const interval = setInterval(async () => {
+      const attemptId = attemptRef.current?.id;
+      if (!attemptId) return;
+      try {
+        syncAttempt(await apiGetAttempt(attemptId));
+      } catch (error) {
+        console.error('Failed to check the attempt for changes:', error);
+      }
+    }, CONTROL_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isPractice, isLoading, isFinished, syncAttempt]);
+
   // Effect to handle auto-submission
   useEffect(() => {
-     if (isLoading || isFinished) return;
+     if (isPractice || isLoading || isFinished) return;
 
-     if (tabSwitches >= quiz.tabSwitchThreshold) {
-         alert(`You have exceeded the tab switch limit of ${quiz.tabSwitchThreshold}. The quiz will now be submitted.`);
+     if (tabSwitches >= tabSwitchLimit) {
+         alert(`You have exceeded the tab switch limit of ${tabSwitchLimit}. The quiz will now be submitted.`);
          submitQuiz();
          return;
      }
@@ -262,36 +424,47 @@ export const useQuizTaker = (quiz: Quiz, student: User, onFinish: () => void) =>
          alert('You have exited full-screen mode a second time. The quiz will now be submitted.');
          submitQuiz();
      }
-  }, [tabSwitches, fullScreenExits, quiz.tabSwitchThreshold, submitQuiz, isLoading, isFinished]);
+  }, [isPractice, tabSwitches, fullScreenExits, tabSwitchLimit, submitQuiz, isLoading, isFinished]);
 
   // Effect for saving progress to localStorage and server (debounced)
   useEffect(() => {
     if (!isFinished && !isLoading && questions.length > 0 && attemptRef.current) {
-        const progress = { questions, answers, timeLeft, tabSwitches, fullScreenExits, attempt: attemptRef.current };
+        const progress = { questions, answers, tabSwitches, fullScreenExits, feedback, attempt: attemptRef.current };
         localStorage.setItem(`quiz_progress_${student.id}_${quiz.id}`, JSON.stringify(progress));
         
-        // Debounced server-side backup (every 30 seconds)
+        // Each answer that changed goes to the server, through the outbox, once it settles
         const saveToServer = setTimeout(async () => {
-          if (attemptRef.current?.id) {
-            try {
-              await apiUpdateAttempt(attemptRef.current.id, {
-                answers: answersRef.current,
-                tabSwitches,
-                endTime: Date.now(),
-              });
-            } catch (error) {
-              console.error('Failed to auto-save to server:', error);
-              // localStorage already saved, so progress not lost
-            }
+          if (!attemptRef.current?.id) return;
+          const current = answersRef.current;
+          const saved = savedAnswersRef.current;
+          const at = Date.now() + clockOffsetRef.current;
+          const changes: AnswerChange[] = [...new Set<string>([...Object.keys(current), ...Object.keys(saved)])]
+            .filter(questionId => JSON.stringify(current[questionId]) !== JSON.stringify(saved[questionId]))
+            .map(questionId => ({ questionId, answer: current[questionId] ?? null, at }));
+          if (changes.length === 0) return;
+
+          savedAnswersRef.current = current;
+          try {
+            syncAttempt(await sendChanges(changes.map(change => nextChange(tabSwitches, { change }))));
+          } catch (error) {
+            console.error('Failed to auto-save to server:', error);
+            // localStorage already saved, so progress not lost
           }
-        }, 30000); // 30 seconds debounce
+        }, ANSWER_SAVE_DEBOUNCE_MS);
 
         return () => clearTimeout(saveToServer);
     }
-  }, [answers, timeLeft, tabSwitches, isFinished, isLoading, quiz.id, student.id, questions, fullScreenExits]);
+  }, [answers, tabSwitches, isFinished, isLoading, quiz.id, student.id, questions, fullScreenExits, feedback, syncAttempt, nextChange]);
+
+  // Keep retrying queued changes, and send them as soon as the connection comes back
+  useEffect(() => watchOutbox(), []);
 
 
-  const handleAnswerSelect = (questionId: string, value: number | string, type: QuestionType) => {
+  const handleAnswerSelect = (questionId: string, value: number | string | string[] | NumericAnswer, type: QuestionType) => {
+    if (feedback[questionId]) return;
+    if (!isPractice && LOGGED_CHANGE_TYPES.includes(type) && answersRef.current[questionId] !== undefined) {
+        recordEvent(ProctoringEventType.AnswerChange, questionId);
+    }
     if (type === QuestionType.MultipleCorrect) {
         setAnswers(prev => {
             const currentAnswers = (prev[questionId] as number[] || []);
@@ -305,6 +478,21 @@ export const useQuizTaker = (quiz: Quiz, student: User, onFinish: () => void) =>
     }
   };
 
+  // Practice mode: grade the current answer on the server and reveal the correct one
+  const checkAnswer = async (questionId: string) => {
+    if (!isPractice || !attemptRef.current?.id || feedback[questionId] || checkingQuestionId) return;
+
+    setCheckingQuestionId(questionId);
+    try {
+      const checked = await apiCheckPracticeAnswer(attemptRef.current.id, questionId, answersRef.current[questionId]);
+      setFeedback(prev => ({ ...prev, [questionId]: checked }));
+    } catch (error: any) {
+      alert(error.message || 'Failed to check your answer.');
+    } finally {
+      setCheckingQuestionId(null);
+    }
+  };
+
   const goToNextQuestion = () => {
     if (currentQuestionIndex < questions.length - 1) {
       setCurrentQuestionIndex(prev => prev + 1);
@@ -325,8 +513,15 @@ export const useQuizTaker = (quiz: Quiz, student: User, onFinish: () => void) =>
     currentQuestion: questions[currentQuestionIndex],
     currentQuestionIndex,
     answers,
+    optionOrders: attemptRef.current?.optionOrders || {},
+    isPractice,
+    feedback,
+    checkingQuestionId,
+    checkAnswer,
     timeLeft,
     tabSwitches,
+    tabSwitchLimit,
+    fullscreenRequired,
     isFinished,
     handleAnswerSelect,
     goToNextQuestion,
@@ -1,4 +1,4 @@
-import { User, Role } from '../types';
+import { User, Role, Accommodation, AccommodationInput, ScoringPolicy, ScorePolicy, QuizMode, QuestionRule, StudentAttempts, PracticeFeedback, ProctoringEvent, ProctoringTimeline, AttemptActionType, AttemptAuditEntry, SimilarityReport, AnswerChange, LiveMonitorMessage, AnswerValue, NumericAnswerKey, AcceptedAnswer, ClozeBlank, SequenceGrading, MatchPair, GradingQueue, CodeConfig, QuestionSearchFilters, QuestionSearchResult } from '../types';
 
 // API Configuration
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:5000/api';
@@ -46,7 +46,9 @@ const fetchWithConfig = async (url: string, options: RequestInit = {}) => {
     const data = await response.json();
 
     if (!response.ok) {
-      throw new Error(data.message || `HTTP error! status: ${response.status}`);
+      // Validation failures come back as a list of errors; show the first one
+      const message = data.message || data.errors?.[0]?.msg || `HTTP error! status: ${response.status}`;
+      throw Object.assign(new Error(message), { status: response.status });
     }
 
     return data;
@@ -265,6 +267,42 @@ export const apiGetClassMembers = async (classId: string): Promise<any[]> => {
   }
 };
 
+// Accommodation APIs (teachers of the class only)
+export const apiGetClassAccommodations = async (classId: string): Promise<Accommodation[]> => {
+  try {
+    const data = await fetchWithConfig(`/accommodations/class/${classId}`);
+    return data.accommodations || [];
+  } catch (error: any) {
+    console.error('Get accommodations error:', error);
+    throw new Error(handleApiError(error));
+  }
+};
+
+// Creates the student's accommodation for the class or quiz, or replaces the existing one
+export const apiSaveAccommodation = async (accommodation: AccommodationInput): Promise<Accommodation> => {
+  try {
+    const data = await fetchWithConfig('/accommodations', {
+      method: 'PUT',
+      body: JSON.stringify(accommodation),
+    });
+    return data.accommodation;
+  } catch (error: any) {
+    console.error('Save accommodation error:', error);
+    throw new Error(handleApiError(error));
+  }
+};
+
+export const apiDeleteAccommodation = async (accommodationId: string): Promise<void> => {
+  try {
+    await fetchWithConfig(`/accommodations/${accommodationId}`, {
+      method: 'DELETE',
+    });
+  } catch (error: any) {
+    console.error('Delete accommodation error:', error);
+    throw new Error(handleApiError(error));
+  }
+};
+
 // Quiz Management APIs
 export const apiGetQuizzesByClass = async (classId: string): Promise<any[]> => {
   try {
@@ -289,12 +327,20 @@ export const apiGetQuizById = async (quizId: string): Promise<any> => {
 export const apiCreateQuiz = async (quizData: {
   title: string;
   classId: string;
-  questionIds: string[];
+  questionIds?: string[];
+  questionRules?: QuestionRule[];
   durationMinutes: number;
   tabSwitchThreshold: number;
   totalMarks: number;
   subject: string;
   createdBy: string;
+  scoringPolicy?: ScoringPolicy;
+  shuffleOptions?: boolean;
+  mode?: QuizMode;
+  maxAttempts?: number;
+  scorePolicy?: ScorePolicy;
+  opensAt?: string | null;
+  closesAt?: string | null;
 }): Promise<any> => {
   try {
     const data = await fetchWithConfig('/quizzes', {
@@ -423,11 +469,36 @@ export const apiGetQuestionsBySubject = async (
   }
 };
 
-export const apiGetQuestionsByIds = async (questionIds: string[]): Promise<any[]> => {
+// Searches the signed-in teacher's own questions across subjects
+export const apiSearchQuestions = async (filters: QuestionSearchFilters): Promise<QuestionSearchResult> => {
+  try {
+    const params = new URLSearchParams();
+    if (filters.query?.trim()) params.set('q', filters.query.trim());
+    if (filters.subject) params.set('subject', filters.subject);
+    if (filters.difficulty) params.set('difficulty', filters.difficulty);
+    if (filters.type) params.set('type', filters.type);
+    if (filters.marks) params.set('marks', String(filters.marks));
+    if (filters.tags?.length) params.set('tags', filters.tags.join(','));
+    if (filters.learningOutcome) params.set('learningOutcome', filters.learningOutcome);
+    const data = await fetchWithConfig(`/questions/search?${params.toString()}`);
+    return {
+      questions: data.questions || [],
+      total: data.total || 0,
+      tags: data.tags || [],
+      learningOutcomes: data.learningOutcomes || [],
+    };
+  } catch (error: any) {
+    console.error('Search questions error:', error);
+    throw new Error(handleApiError(error));
+  }
+};
+
+// Students must pass the quizId; answer keys are omitted until answers are released
+export const apiGetQuestionsByIds = async (questionIds: string[], quizId?: string): Promise<any[]> => {
   try {
     const data = await fetchWithConfig('/questions/batch', {
       method: 'POST',
-      body: JSON.stringify({ questionIds }),
+      body: JSON.stringify({ questionIds, quizId }),
     });
     return data.questions || [];
   } catch (error: any) {
@@ -437,17 +508,27 @@ export const apiGetQuestionsByIds = async (questionIds: string[]): Promise<any[]
 };
 
 export const apiCreateQuestion = async (questionData: {
-  type: 'single-correct' | 'multiple-correct' | 'fill-in-the-blank';
+  type: 'single-correct' | 'multiple-correct' | 'fill-in-the-blank' | 'numeric' | 'cloze' | 'sequence' | 'matching' | 'long-answer' | 'code';
   text: string;
   imageUrl?: string;
   options?: { text: string; imageUrl?: string }[];
   correctAnswerIndex?: number;
   correctAnswerIndices?: number[];
   correctAnswerText?: string;
+  acceptedAnswers?: AcceptedAnswer[];
+  numericAnswer?: NumericAnswerKey;
+  blanks?: ClozeBlank[];
+  sequenceItems?: string[];
+  sequenceGrading?: SequenceGrading;
+  matchPairs?: MatchPair[];
+  modelAnswer?: string;
+  codeConfig?: CodeConfig;
   difficulty: 'Easy' | 'Medium' | 'Hard';
   authorId: string;
   subject: string;
   marks: number;
+  tags?: string[];
+  learningOutcomes?: string[];
 }): Promise<any> => {
   try {
     const data = await fetchWithConfig('/questions', {
@@ -462,6 +543,23 @@ export const apiCreateQuestion = async (questionData: {
   }
 };
 
+// Labels can be changed at any time; nothing else about a saved question can
+export const apiUpdateQuestionLabels = async (
+  questionId: string,
+  labels: { tags: string[]; learningOutcomes: string[] }
+): Promise<any> => {
+  try {
+    const data = await fetchWithConfig(`/questions/${questionId}/labels`, {
+      method: 'PATCH',
+      body: JSON.stringify(labels),
+    });
+    return data.question;
+  } catch (error: any) {
+    console.error('Update question labels error:', error);
+    throw new Error(handleApiError(error));
+  }
+};
+
 export const apiDeleteQuestion = async (questionId: string): Promise<void> => {
   try {
     await fetchWithConfig(`/questions/${questionId}`, {
@@ -491,6 +589,19 @@ export const apiGetAttemptByQuizAndStudent = async (
   }
 };
 
+export const apiGetStudentAttempts = async (
+  quizId: string,
+  studentId: string
+): Promise<StudentAttempts> => {
+  try {
+    const data = await fetchWithConfig(`/attempts/quiz/${quizId}/student/${studentId}/all`);
+    return { attempts: data.attempts || [], result: data.result, attemptsLeft: data.attemptsLeft };
+  } catch (error: any) {
+    console.error('Get student attempts error:', error);
+    throw new Error(handleApiError(error));
+  }
+};
+
 export const apiGetAttemptsByQuiz = async (quizId: string): Promise<any[]> => {
   try {
     const data = await fetchWithConfig(`/attempts/quiz/${quizId}`);
@@ -504,13 +615,8 @@ export const apiGetAttemptsByQuiz = async (quizId: string): Promise<any[]> => {
 export const apiSaveAttempt = async (attemptData: {
   quizId: string;
   studentId: string;
-  questionIds: string[];
   answers?: Record<string, any>;
   tabSwitches?: number;
-  score?: number;
-  achievedMarks?: number;
-  startTime: number;
-  endTime?: number;
   submitted?: boolean;
 }): Promise<any> => {
   try {
@@ -531,10 +637,9 @@ export const apiUpdateAttempt = async (
   updates: {
     answers?: Record<string, any>;
     tabSwitches?: number;
-    score?: number;
-    achievedMarks?: number;
-    endTime?: number;
     submitted?: boolean;
+    sequence?: number; // Outbox replays only
+    capturedAt?: number;
   }
 ): Promise<any> => {
   try {
@@ -546,6 +651,181 @@ export const apiUpdateAttempt = async (
     return data.attempt;
   } catch (error: any) {
     console.error('Update attempt error:', error);
+    // The status tells the outbox whether a retry can succeed
+    throw Object.assign(new Error(handleApiError(error)), { status: error.status });
+  }
+};
+
+// The attempt's current state, without its questions; polled to pick up teacher actions
+export const apiGetAttempt = async (attemptId: string): Promise<any> => {
+  try {
+    const data = await fetchWithConfig(`/attempts/${attemptId}`);
+    return data.attempt;
+  } catch (error: any) {
+    console.error('Get attempt error:', error);
+    throw new Error(handleApiError(error));
+  }
+};
+
+// Teachers only: minutes are required to extend or reopen an attempt
+export const apiApplyAttemptAction = async (
+  attemptId: string,
+  action: AttemptActionType,
+  options: { minutes?: number; reason?: string } = {}
+): Promise<{ attempt: any; auditEntry: AttemptAuditEntry }> => {
+  try {
+    const data = await fetchWithConfig(`/attempts/${attemptId}/actions`, {
+      method: 'POST',
+      body: JSON.stringify({ action, ...options }),
+    });
+    return { attempt: data.attempt, auditEntry: data.auditEntry };
+  } catch (error: any) {
+    console.error('Apply attempt action error:', error);
+    throw new Error(handleApiError(error));
+  }
+};
+
+// Appends events to the attempt's proctoring log; at most 100 per call
+export const apiLogProctoringEvents = async (attemptId: string, events: ProctoringEvent[]): Promise<void> => {
+  try {
+    await fetchWithConfig(`/attempts/${attemptId}/events`, {
+      method: 'POST',
+      body: JSON.stringify({ events: events.map(({ type, questionId, at }) => ({ type, questionId, at })) }),
+    });
+  } catch (error: any) {
+    console.error('Log proctoring events error:', error);
+    throw new Error(handleApiError(error));
+  }
+};
+
+export const apiGetProctoringTimeline = async (attemptId: string): Promise<ProctoringTimeline> => {
+  try {
+    const data = await fetchWithConfig(`/attempts/${attemptId}/events`);
+    return { attempt: data.attempt, events: data.events || [], answerHistory: data.answerHistory || [], auditTrail: data.auditTrail || [] };
+  } catch (error: any) {
+    console.error('Get proctoring events error:', error);
+    throw new Error(handleApiError(error));
+  }
+};
+
+export const apiGetSimilarityReport = async (quizId: string): Promise<SimilarityReport> => {
+  try {
+    const data = await fetchWithConfig(`/attempts/quiz/${quizId}/similarity`);
+    return { comparedAttempts: data.comparedAttempts || 0, pairs: data.pairs || [] };
+  } catch (error: any) {
+    console.error('Get similarity report error:', error);
+    throw new Error(handleApiError(error));
+  }
+};
+
+// Streams a quiz's live monitor until the stream ends or the signal aborts. fetch is used
+// rather than EventSource so the token can go in the Authorization header.
+export const apiStreamQuizMonitor = async (
+  quizId: string,
+  onMessage: (message: LiveMonitorMessage) => void,
+  signal: AbortSignal
+): Promise<void> => {
+  const token = localStorage.getItem('authToken');
+  const response = await fetch(`${API_BASE_URL}/attempts/quiz/${quizId}/live`, {
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+    credentials: 'include',
+    signal,
+  });
+  if (!response.ok || !response.body) {
+    const data = await response.json().catch(() => null);
+    throw new Error(data?.message || `HTTP error! status: ${response.status}`);
+  }
+
+  // Server-Sent Events: blocks separated by a blank line; lines starting with ':' are heartbeats
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) return;
+    buffer += value;
+    const blocks = buffer.split('\n\n');
+    buffer = blocks.pop() || '';
+    blocks.forEach(block => {
+      let event = 'message';
+      let data = '';
+      block.split('\n').forEach(line => {
+        if (line.startsWith('event:')) event = line.slice(6).trim();
+        else if (line.startsWith('data:')) data += line.slice(5).trim();
+      });
+      if (data) onMessage({ event, data: JSON.parse(data) } as LiveMonitorMessage);
+    });
+  }
+};
+
+// Saves individual answer changes as they happen; the server keeps each in the attempt's history
+export const apiSaveAnswerChanges = async (
+  attemptId: string,
+  updates: {
+    changes: AnswerChange[];
+    tabSwitches?: number;
+    sequence?: number; // Outbox replays only
+  }
+): Promise<any> => {
+  try {
+    const data = await fetchWithConfig(`/attempts/${attemptId}/answers`, {
+      method: 'PATCH',
+      body: JSON.stringify(updates),
+    });
+
+    return data.attempt;
+  } catch (error: any) {
+    console.error('Save answer changes error:', error);
+    // The status tells the outbox whether a retry can succeed
+    throw Object.assign(new Error(handleApiError(error)), { status: error.status });
+  }
+};
+
+// Practice quizzes only: grades one answer, locks it and returns the answer key
+export const apiCheckPracticeAnswer = async (
+  attemptId: string,
+  questionId: string,
+  answer: AnswerValue
+): Promise<PracticeFeedback> => {
+  try {
+    const data = await fetchWithConfig(`/attempts/${attemptId}/check`, {
+      method: 'POST',
+      body: JSON.stringify({ questionId, answer }),
+    });
+
+    return { result: data.result, answerKey: data.answerKey || {} };
+  } catch (error: any) {
+    console.error('Check practice answer error:', error);
+    throw new Error(handleApiError(error));
+  }
+};
+
+export const apiGetGradingQueue = async (quizId: string): Promise<GradingQueue> => {
+  try {
+    const data = await fetchWithConfig(`/attempts/quiz/${quizId}/grading-queue`);
+    return {
+      questions: data.questions || [],
+      responses: data.responses || [],
+      pendingCount: data.pendingCount || 0,
+    };
+  } catch (error: any) {
+    console.error('Get grading queue error:', error);
+    throw new Error(handleApiError(error));
+  }
+};
+
+export const apiGradeAttempt = async (
+  attemptId: string,
+  grades: { questionId: string; awardedMarks: number; feedback?: string }[]
+): Promise<any> => {
+  try {
+    const data = await fetchWithConfig(`/attempts/${attemptId}/grades`, {
+      method: 'PUT',
+      body: JSON.stringify({ grades }),
+    });
+
+    return data.attempt;
+  } catch (error: any) {
+    console.error('Grade attempt error:', error);
     throw new Error(handleApiError(error));
   }
 };
@@ -0,0 +1,171 @@
+import { OutboxChange, QuizAttempt } from '../types';
+import { apiUpdateAttempt, apiSaveAnswerChanges } from './apiService';
+
+// Answer changes and submissions go through a durable outbox in IndexedDB, so a
+// dropped connection never loses them. Changes are retried with backoff until the
+// server accepts or rejects them. Each carries an increasing sequence number: they
+// are sent in order, answer changes in batches, and the server ignores any it has
+// already applied, so replaying is always safe.
+
+const DB_NAME = 'quizdash';
+const STORE_NAME = 'attemptOutbox';
+const BASE_RETRY_MS = 2000;
+const MAX_RETRY_MS = 5 * 60 * 1000;
+const MAX_ANSWER_BATCH = 100;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+const listeners = new Set<() => void>();
+let watchers = 0;
+let flushQueue: Promise<unknown> = Promise.resolve();
+let retryTimer: number | null = null;
+let failedFlushes = 0;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        // Keyed so each attempt's changes sort by sequence
+        request.result.createObjectStore(STORE_NAME, { keyPath: ['attemptId', 'sequence'] });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(mode: IDBTransactionMode, operate: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = operate(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+// Each attempt's queued changes, in sequence order
+const changesByAttempt = async (): Promise<Map<string, OutboxChange[]>> => {
+  const changes = await runRequest<OutboxChange[]>('readonly', store => store.getAll());
+  const byAttempt = new Map<string, OutboxChange[]>();
+  changes.forEach(change => byAttempt.set(change.attemptId, [...(byAttempt.get(change.attemptId) || []), change]));
+  return byAttempt;
+};
+
+const removeThrough = (attemptId: string, sequence: number) =>
+  runRequest('readwrite', store => store.delete(IDBKeyRange.bound([attemptId, 0], [attemptId, sequence])));
+
+const notify = () => listeners.forEach(listener => listener());
+
+// One request: a submission on its own, or a batch of answer changes numbered by its last
+const send = (batch: OutboxChange[]): Promise<QuizAttempt> => {
+  const last = batch[batch.length - 1];
+  if (last.submitted) {
+    const { attemptId, answers, tabSwitches, sequence, capturedAt } = last;
+    return apiUpdateAttempt(attemptId, { answers, tabSwitches, submitted: true, sequence, capturedAt });
+  }
+  return apiSaveAnswerChanges(last.attemptId, {
+    changes: batch.map(change => change.change!),
+    tabSwitches: last.tabSwitches,
+    sequence: last.sequence,
+  });
+};
+
+// Client errors won't go away on a retry; anything else (offline, server down, signed out) might
+const isRejection = (error: any) =>
+  error.status >= 400 && error.status < 500 && ![401, 408, 429].includes(error.status);
+
+// Sends an attempt's queued changes in order; a rejected request is dropped and the rest
+// still go. Returns the outcome of the last request, and throws if one should be retried.
+const sendAttemptChanges = async (changes: OutboxChange[]): Promise<QuizAttempt | Error | undefined> => {
+  let outcome: QuizAttempt | Error | undefined;
+  let remaining = changes;
+  while (remaining.length > 0) {
+    const submissionIndex = remaining.findIndex(change => change.submitted);
+    const batchSize = submissionIndex === 0 ? 1 : Math.min(submissionIndex < 0 ? remaining.length : submissionIndex, MAX_ANSWER_BATCH);
+    const batch = remaining.slice(0, batchSize);
+    try {
+      outcome = await send(batch);
+    } catch (error: any) {
+      if (!isRejection(error)) throw error;
+      console.error('Attempt change rejected by the server:', error);
+      outcome = error;
+    }
+    const last = batch[batch.length - 1];
+    await removeThrough(last.attemptId, last.sequence);
+    remaining = remaining.slice(batchSize);
+  }
+  return outcome;
+};
+
+// Sends every attempt's queued changes. Returns, per attempt that was settled, the
+// server's copy of it or the error its last change was rejected with.
+const sendPending = async (): Promise<Map<string, QuizAttempt | Error>> => {
+  if (retryTimer !== null) {
+    window.clearTimeout(retryTimer);
+    retryTimer = null;
+  }
+
+  const outcomes = new Map<string, QuizAttempt | Error>();
+  let shouldRetry = false;
+  for (const [attemptId, changes] of await changesByAttempt()) {
+    try {
+      const outcome = await sendAttemptChanges(changes);
+      if (outcome) outcomes.set(attemptId, outcome);
+    } catch (error) {
+      shouldRetry = true;
+    }
+  }
+
+  failedFlushes = shouldRetry ? failedFlushes + 1 : 0;
+  if (shouldRetry) {
+    retryTimer = window.setTimeout(flushOutbox, Math.min(BASE_RETRY_MS * 2 ** (failedFlushes - 1), MAX_RETRY_MS));
+  }
+  notify();
+  return outcomes;
+};
+
+// Flushes run one after another, so a change queued during a flush is picked up by the next
+export const flushOutbox = (): Promise<Map<string, QuizAttempt | Error>> => {
+  const flush = flushQueue.then(sendPending);
+  flushQueue = flush.catch(error => console.error('Failed to flush the attempt outbox:', error));
+  return flush;
+};
+
+// Queues changes to one attempt and tries to send them straight away. Resolves with the
+// server's copy of the attempt, or null if they are waiting in the outbox for the connection.
+export const sendChanges = async (changes: OutboxChange[]): Promise<QuizAttempt | null> => {
+  try {
+    await runRequest('readwrite', store => changes.map(change => store.put(change))[changes.length - 1]);
+  } catch (error) {
+    // Without IndexedDB (some private browsing modes) there is nothing to queue into
+    console.error('Attempt outbox unavailable:', error);
+    return send(changes);
+  }
+  notify();
+
+  const outcome = (await flushOutbox()).get(changes[0].attemptId);
+  if (outcome instanceof Error) throw outcome;
+  return outcome || null;
+};
+
+// The newest change of each of a student's attempts with changes waiting to upload
+export const getPendingUploads = async (studentId: string): Promise<OutboxChange[]> =>
+  [...(await changesByAttempt()).values()]
+    .map(changes => changes[changes.length - 1])
+    .filter(change => change.studentId === studentId);
+
+// Keeps the outbox draining while anything watches it: flushes now and whenever the
+// browser comes back online. The listener hears about every change to the queue.
+export const watchOutbox = (listener?: () => void) => {
+  if (listener) listeners.add(listener);
+  if (watchers++ === 0) window.addEventListener('online', flushOutbox);
+  flushOutbox();
+  return () => {
+    if (listener) listeners.delete(listener);
+    if (--watchers === 0) window.removeEventListener('online', flushOutbox);
+  };
+};
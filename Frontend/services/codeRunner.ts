@@ -0,0 +1,68 @@
+import { CodeConfig, CodeTestCase, CodeTestResult } from '../types';
+
+// Lets students run the visible test cases of a code question in their own
+// browser. Each test runs in a throwaway Web Worker that is terminated when it
+// exceeds the time limit. Official marks always come from the server, which
+// runs every test case (including hidden ones) after submission.
+
+const WORKER_SOURCE = `
+const canonical = (value) => JSON.stringify(value, (key, val) =>
+  val && typeof val === 'object' && !Array.isArray(val)
+    ? Object.keys(val).sort().reduce((sorted, k) => ({ ...sorted, [k]: val[k] }), {})
+    : val
+);
+
+self.onmessage = async (event) => {
+  const { code, functionName, input, expectedOutput } = event.data;
+  try {
+    const fn = new Function(code + '\\nreturn ' + functionName + ';')();
+    const result = await fn(...JSON.parse(input));
+    const output = JSON.stringify(result);
+    const actual = output === undefined ? undefined : JSON.parse(output);
+    self.postMessage({
+      passed: canonical(actual) === canonical(JSON.parse(expectedOutput)),
+      output: output === undefined ? 'undefined' : output.slice(0, 1000),
+    });
+  } catch (error) {
+    self.postMessage({ passed: false, error: String((error && error.message) || error).slice(0, 500) });
+  }
+};
+`;
+
+const WORKER_STARTUP_MS = 500;
+
+const runTestCase = (workerUrl: string, code: string, functionName: string, testCase: CodeTestCase, timeLimitMs: number): Promise<CodeTestResult> => {
+  return new Promise(resolve => {
+    const worker = new Worker(workerUrl);
+    const timer = window.setTimeout(() => {
+      worker.terminate();
+      resolve({ passed: false, error: `Time limit of ${timeLimitMs}ms exceeded` });
+    }, timeLimitMs + WORKER_STARTUP_MS);
+
+    worker.onmessage = (event: MessageEvent<CodeTestResult>) => {
+      window.clearTimeout(timer);
+      worker.terminate();
+      resolve(event.data);
+    };
+    worker.onerror = (event) => {
+      window.clearTimeout(timer);
+      worker.terminate();
+      resolve({ passed: false, error: event.message || 'Code failed to run' });
+    };
+
+    worker.postMessage({ code, functionName, input: testCase.input, expectedOutput: testCase.expectedOutput });
+  });
+};
+
+export const runCodeTestsInBrowser = async (code: string, config: Pick<CodeConfig, 'functionName' | 'testCases' | 'timeLimitMs'>): Promise<CodeTestResult[]> => {
+  const workerUrl = URL.createObjectURL(new Blob([WORKER_SOURCE], { type: 'text/javascript' }));
+  try {
+    const results: CodeTestResult[] = [];
+    for (const testCase of config.testCases) {
+      results.push(await runTestCase(workerUrl, code, config.functionName, testCase, config.timeLimitMs));
+    }
+    return results;
+  } finally {
+    URL.revokeObjectURL(workerUrl);
+  }
+};
@@ -1,11 +1,20 @@
 
 import { GoogleGenAI, Type } from '@google/genai';
-import { Difficulty, Question, QuestionType } from '../types';
+import { Difficulty, Question, QuestionType, AnswerMatchMode } from '../types';
+import { countClozeBlanks } from '../utils/cloze';
 
 if (!process.env.API_KEY) {
   console.warn("API_KEY environment variable not set. AI features will be disabled.");
 }
 
+// Question types the generator has a response schema for
+export const AI_SUPPORTED_QUESTION_TYPES: QuestionType[] = [
+  QuestionType.SingleCorrect,
+  QuestionType.MultipleCorrect,
+  QuestionType.FillInTheBlank,
+  QuestionType.Cloze,
+];
+
 const ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
 
 const singleCorrectResponseSchema = {
@@ -70,6 +79,23 @@ const fillInTheBlankResponseSchema = {
     required: ['questionText', 'correctAnswerText'],
 };
 
+const clozeResponseSchema = {
+    type: Type.OBJECT,
+    properties: {
+        questionText: {
+            type: Type.STRING,
+            description: 'A passage or sentence with 2 to 4 blanks. Use underscores `___` to represent each blank.',
+        },
+        blankAnswers: {
+            type: Type.ARRAY,
+            description: 'The correct word or phrase for each blank, in the order the blanks appear in the text.',
+            items: {
+                type: Type.STRING,
+            },
+        },
+    },
+    required: ['questionText', 'blankAnswers'],
+};
 
 export const generateQuestionWithAI = async (topic: string, difficulty: Difficulty, questionType: QuestionType): Promise<Partial<Question> | null> => {
    if (!process.env.API_KEY) {
@@ -90,6 +116,10 @@ export const generateQuestionWithAI = async (topic: string, difficulty: Difficul
             prompt = `Generate a new, unique, ${difficulty}-level fill-in-the-blank question about "${topic}". The question should have a clear, single correct answer. Use underscores '___' to indicate the blank part of the question.`;
             schema = fillInTheBlankResponseSchema;
             break;
+        case QuestionType.Cloze:
+            prompt = `Generate a new, unique, ${difficulty}-level cloze question about "${topic}": a short passage with 2 to 4 key words or phrases removed. Use underscores '___' for each removed part, and give the answers in the order the blanks appear.`;
+            schema = clozeResponseSchema;
+            break;
         case QuestionType.SingleCorrect:
         default:
             prompt = `Generate a new, unique, ${difficulty}-level multiple-choice question about "${topic}". The question must have exactly 4 possible options. Ensure one option is clearly correct.`;
@@ -129,6 +159,14 @@ export const generateQuestionWithAI = async (topic: string, difficulty: Difficul
         baseReturn.correctAnswerIndices = parsed.correctAnswerIndices;
     } else if (questionType === QuestionType.FillInTheBlank) {
         baseReturn.correctAnswerText = parsed.correctAnswerText;
+    } else if (questionType === QuestionType.Cloze) {
+        if (countClozeBlanks(parsed.questionText) !== parsed.blankAnswers.length) {
+            throw new Error("AI did not generate one answer per blank.");
+        }
+        baseReturn.blanks = parsed.blankAnswers.map((answer: string) => ({
+            acceptedAnswers: [{ text: answer, mode: AnswerMatchMode.Exact }],
+            marks: 1,
+        }));
     }
 
     return baseReturn;
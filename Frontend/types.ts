@@ -24,6 +24,22 @@ export interface ClassWithTeacherName extends Class {
   teacherName: string;
 }
 
+// Approved adjustments for one student, class-wide (quizId null) or for a single quiz.
+// A quiz-specific accommodation replaces the class-wide one.
+export interface Accommodation {
+  id: string;
+  classId: string;
+  studentId: string;
+  quizId: string | null;
+  timeMultiplier: number; // Applied to the quiz duration before extraMinutes are added
+  extraMinutes: number;
+  fullscreenExempt: boolean;
+  tabSwitchThreshold: number | null; // Replaces the quiz's limit when set
+  note: string;
+}
+
+export type AccommodationInput = Omit<Accommodation, 'id'>;
+
 export interface Subject {
   id: string;
   name: string;
@@ -40,6 +56,86 @@ export enum QuestionType {
   SingleCorrect = 'single-correct',
   MultipleCorrect = 'multiple-correct',
   FillInTheBlank = 'fill-in-the-blank',
+  Numeric = 'numeric',
+  Cloze = 'cloze',
+  Sequence = 'sequence',
+  Matching = 'matching',
+  LongAnswer = 'long-answer',
+  Code = 'code',
+}
+
+export enum SequenceGrading {
+  Exact = 'exact', // Marks only for the full order
+  AdjacentPairs = 'adjacent-pairs', // Partial credit per correctly placed neighbouring pair
+}
+
+export enum AnswerMatchMode {
+  Exact = 'exact', // Ignores case and surrounding whitespace
+  CaseSensitive = 'case-sensitive',
+  Regex = 'regex', // Pattern must match the whole answer
+  Fuzzy = 'fuzzy', // Allows up to maxDistance typos
+}
+
+export interface AcceptedAnswer {
+  text: string;
+  mode: AnswerMatchMode;
+  maxDistance?: number; // For Fuzzy
+}
+
+// One `___` placeholder of a cloze question, in the order it appears in the text
+export interface ClozeBlank {
+  acceptedAnswers: AcceptedAnswer[];
+  marks: number;
+}
+
+// One correct pairing of a matching question
+export interface MatchPair {
+  left: string;
+  right: string;
+}
+
+// Input is a JSON array of arguments, expectedOutput the JSON return value
+export interface CodeTestCase {
+  input: string;
+  expectedOutput: string;
+  marks: number;
+  hidden: boolean; // Hidden tests only run on submission
+}
+
+export interface CodeConfig {
+  functionName: string;
+  starterCode: string;
+  testCases: CodeTestCase[];
+  timeLimitMs: number; // Per test case
+}
+
+// Student-facing code config: only the visible tests
+export interface SanitizedCodeConfig extends CodeConfig {
+  hiddenTestCount: number;
+}
+
+export interface CodeTestResult {
+  passed: boolean;
+  output?: string; // JSON of the returned value
+  error?: string;
+}
+
+export enum ToleranceType {
+  Absolute = 'absolute', // In the answer's units
+  Relative = 'relative', // Percentage of the correct value
+}
+
+export interface NumericAnswerKey {
+  value: number;
+  tolerance: number;
+  toleranceType: ToleranceType;
+  units: string[]; // Accepted unit spellings; empty means the unit is not checked
+}
+
+// A student's answer to a Numeric question
+export interface NumericAnswer {
+  value: number | null;
+  unit?: string;
 }
 
 export interface QuestionOption {
@@ -55,19 +151,94 @@ export interface Question {
   options: QuestionOption[];
   correctAnswerIndex?: number; // For SingleCorrect
   correctAnswerIndices?: number[]; // For MultipleCorrect
-  correctAnswerText?: string; // For FillInTheBlank
+  correctAnswerText?: string; // For FillInTheBlank (primary answer)
+  acceptedAnswers?: AcceptedAnswer[]; // For FillInTheBlank; correctAnswerText alone is used when empty
+  numericAnswer?: NumericAnswerKey; // For Numeric
+  blanks?: ClozeBlank[]; // For Cloze; marks is the sum of the blank marks
+  sequenceItems?: string[]; // For Sequence, in their correct order
+  sequenceGrading?: SequenceGrading;
+  matchPairs?: MatchPair[]; // For Matching
+  modelAnswer?: string; // For LongAnswer; guidance for graders
+  codeConfig?: CodeConfig; // For Code; marks is the sum of the test case marks
   difficulty: Difficulty;
   authorId: string; // teacher's ID
   subject: string;
   marks: number;
+  tags?: string[]; // Lower-case keywords for searching the bank
+  learningOutcomes?: string[];
+}
+
+// Filters for searching a teacher's question bank; unset filters match everything
+export interface QuestionSearchFilters {
+  query?: string; // Full-text search on the question text
+  subject?: string;
+  difficulty?: Difficulty;
+  type?: QuestionType;
+  marks?: number;
+  tags?: string[]; // Questions must carry all of them
+  learningOutcome?: string;
+}
+
+export interface QuestionSearchResult {
+  questions: Question[]; // Best matches first when searching text, otherwise newest first
+  total: number; // Matches in all, of which at most 200 are returned
+  tags: string[]; // Every tag and learning outcome in the bank, to filter by
+  learningOutcomes: string[];
+}
+
+// Fields of a Question that give away its answer
+export type AnswerKeyField = 'correctAnswerIndex' | 'correctAnswerIndices' | 'correctAnswerText' | 'acceptedAnswers' | 'numericAnswer' | 'blanks' | 'sequenceItems' | 'matchPairs' | 'modelAnswer' | 'codeConfig';
+
+// Student-facing question served while a quiz is being taken (no answer keys)
+export type SanitizedQuestion = Omit<Question, AnswerKeyField> & {
+  requiresUnit?: boolean; // Numeric questions whose answer key checks units
+  blankMarks?: number[]; // Cloze marks per blank, in placeholder order
+  sequenceOptions?: string[]; // Sequence items in shuffled order
+  matchPrompts?: string[]; // Matching left-hand items, in order
+  matchOptions?: string[]; // Matching right-hand choices, shuffled
+  codeConfig?: SanitizedCodeConfig;
+};
+
+export type AnswerValue = number | number[] | string | string[] | NumericAnswer;
+
+export enum MultipleCorrectScoring {
+  AllOrNothing = 'all-or-nothing',
+  Proportional = 'proportional', // Credit for each correct option chosen
+  ZeroOnWrong = 'zero-on-wrong', // Proportional, but any wrong option zeroes the question
+}
+
+export interface ScoringPolicy {
+  multipleCorrect: MultipleCorrectScoring;
+  negativeMarkPerWrong: number; // Deducted per wrong option (single- and multiple-correct)
+}
+
+// Draws `count` questions of one subject, difficulty and mark value from the teacher's bank
+export interface QuestionRule {
+  subject: string;
+  difficulty: Difficulty;
+  count: number;
+  marks: number;
 }
 
+// Which of a student's attempts counts when a quiz allows retakes
+export enum ScorePolicy {
+  Best = 'best',
+  Latest = 'latest',
+  Average = 'average',
+}
+
+// Exams are timed and proctored; practice quizzes reveal each answer once it is checked
+export enum QuizMode {
+  Exam = 'exam',
+  Practice = 'practice',
+}
 
 export interface Quiz {
   id: string;
   title: string;
   classId: string;
-  questionIds: string[];
+  questionIds: string[]; // Empty for pool quizzes
+  questionRules?: QuestionRule[]; // Pool quizzes: each attempt gets its own draw
   durationMinutes: number; // Duration in minutes
   tabSwitchThreshold: number;
   totalMarks: number;
@@ -75,18 +246,253 @@ export interface Quiz {
   subject: string;
   isReleased: boolean;
   answersReleased: boolean;
+  scoringPolicy?: ScoringPolicy;
+  shuffleOptions?: boolean; // Each student sees single- and multiple-correct options in their own order
+  opensAt?: string | null; // ISO date; attempts can only start and be submitted inside the window
+  closesAt?: string | null;
+  mode?: QuizMode; // Defaults to Exam
+  maxAttempts?: number; // Defaults to 1; practice quizzes can be retried without limit
+  scorePolicy?: ScorePolicy;
+}
+
+export enum QuizWindowState {
+  Upcoming = 'upcoming',
+  Open = 'open',
+  Closed = 'closed',
+}
+
+// 'pending' long answers are waiting for a teacher to grade them
+export type QuestionResultStatus = 'correct' | 'partial' | 'incorrect' | 'unanswered' | 'pending';
+
+export type GradingStatus = 'complete' | 'pending';
+
+// How the marks for one question were awarded, computed by the server on submission
+export interface QuestionResult {
+  questionId: string;
+  status: QuestionResultStatus;
+  awardedMarks: number;
+  maxMarks: number;
+  credit: number;
+  penalty: number;
+  correctSelected?: number; // MultipleCorrect only
+  wrongSelected?: number;
+  totalCorrect?: number;
+  blankResults?: boolean[]; // Cloze only, per blank
+  correctPairs?: number; // Sequence only
+  totalPairs?: number;
+  pairResults?: boolean[]; // Matching only, per left-hand item
+  testResults?: (CodeTestResult & { hidden: boolean; marks: number })[]; // Code only, per test case
+  feedback?: string; // LongAnswer only, from the teacher
+  gradedAt?: string;
+}
+
+export enum ProctoringEventType {
+  TabHidden = 'tab-hidden',
+  TabVisible = 'tab-visible',
+  FullscreenExit = 'fullscreen-exit',
+  FullscreenEnter = 'fullscreen-enter',
+  Copy = 'copy',
+  Cut = 'cut',
+  Paste = 'paste',
+  ContextMenu = 'contextmenu',
+  PrintScreen = 'printscreen',
+  QuestionView = 'question-view',
+  AnswerChange = 'answer-change', // Single-correct, multiple-correct and matching questions only
+}
+
+// One entry of an attempt's append-only proctoring log
+export interface ProctoringEvent {
+  type: ProctoringEventType;
+  questionId?: string; // QuestionView and AnswerChange only
+  at: number; // Timestamp on the server clock
+  receivedAt?: number; // When the server got it; events are sent in batches
 }
 
 export interface QuizAttempt {
   id: string;
   quizId: string;
   studentId: string;
-  answers: { [questionId: string]: number | number[] | string }; // questionId -> selectedOptionIndex(es) or text
+  attemptNumber?: number; // 1 for the first attempt, 2 for the first retake, ...
+  practice?: boolean; // Taken in practice mode; left out of class statistics
+  checkedQuestionIds?: string[]; // Practice questions whose answers have been checked and locked
+  answers: { [questionId: string]: AnswerValue }; // questionId -> selectedOptionIndex(es), text or code, per-blank texts, ordered items or numeric answer
   score: number; // Percentage
   achievedMarks: number;
-  startTime: number; // timestamp
+  startTime: number; // timestamp, set by the server
   endTime: number | null; // timestamp or null if in progress
+  deadline?: number; // Server timestamp when time runs out
+  durationMinutes?: number; // The student's time, with any accommodation; set by the server
+  tabSwitchThreshold?: number; // Falls back to the quiz's limit for older attempts
+  fullscreenRequired?: boolean;
+  serverTime?: number; // Server clock when the attempt was sent, for syncing the countdown
   tabSwitches: number;
+  proctoringEventCount?: number; // Teacher results only; the log is loaded per attempt
+  integrity?: IntegrityAssessment | null; // Teacher results only; null for practice attempts
   submitted: boolean;
-  questionIds: string[];
+  submittedLate?: boolean; // Arrived after the deadline; only answers saved in time were graded
+  uploadedLate?: boolean; // Queued offline and uploaded after the deadline, claiming to be captured before it
+  lateAnswers?: { [questionId: string]: any }; // Held out of grading until a teacher accepts them
+  lateAnswersStatus?: LateAnswersStatus | null;
+  syncSequence?: number; // Latest outbox change the server has applied
+  controlVersion?: number; // Bumped by every teacher action on the attempt
+  questionIds: string[]; // Chosen by the server when the attempt starts
+  optionOrders?: { [questionId: string]: number[] }; // Canonical option indices in display order
+  questionResults?: QuestionResult[];
+  gradingStatus?: GradingStatus; // Score only counts graded questions while pending
+}
+
+// One saved change to an answer; cleared answers are null
+export interface AnswerChange {
+  questionId: string;
+  answer: AnswerValue | null;
+  at: number; // Server-clock time the change was made
+}
+
+// A change to an attempt waiting in the device's outbox: one answer, or the submission
+// with the full set of answers
+export interface OutboxChange {
+  attemptId: string;
+  quizId: string;
+  studentId: string;
+  sequence: number; // Increases with every change to the attempt
+  capturedAt: number; // Server-clock time the change was made
+  tabSwitches: number;
+  change?: AnswerChange; // Answer changes only
+  submitted?: boolean;
+  answers?: { [questionId: string]: AnswerValue }; // Submissions only
+}
+
+export type IntegrityLevel = 'low' | 'medium' | 'high';
+
+// Computed by the server from the proctoring log, time per question and the class's durations
+export interface IntegrityAssessment {
+  riskScore: number; // 0 (nothing unusual) to 100
+  level: IntegrityLevel;
+  reasons: string[];
+}
+
+// What a teacher can do to a student's exam attempt
+export enum AttemptActionType {
+  ExtendTime = 'extend-time',
+  ForceSubmit = 'force-submit',
+  Reopen = 'reopen', // Submitted attempts only; keeps the answers
+  Reset = 'reset', // Clears the answers and restarts the time
+  AcceptLateAnswers = 'accept-late-answers', // Grades answers uploaded late as if they were in time
+  RejectLateAnswers = 'reject-late-answers',
+}
+
+export type LateAnswersStatus = 'pending' | 'accepted' | 'rejected';
+
+// One entry of an attempt's audit trail of teacher actions
+export interface AttemptAuditEntry {
+  action: AttemptActionType;
+  by: { id: string; name: string } | null;
+  at: number;
+  minutes?: number; // ExtendTime and Reopen only
+  reason?: string;
+  previousDeadline?: number;
+  deadline?: number;
+}
+
+export interface ProctoringTimeline {
+  attempt: Pick<QuizAttempt, 'id' | 'attemptNumber' | 'startTime' | 'endTime' | 'deadline' | 'tabSwitches' | 'submitted' | 'submittedLate' | 'questionIds'> & {
+    student: { id: string; name: string; email?: string } | null;
+  };
+  events: ProctoringEvent[]; // Oldest first
+  answerHistory: AnswerChange[]; // Oldest first
+  auditTrail: AttemptAuditEntry[]; // Oldest first
+}
+
+// An exam attempt as shown on a teacher's live monitor
+export interface LiveAttempt {
+  attemptId: string;
+  studentId: string;
+  attemptNumber: number;
+  startTime: number;
+  deadline?: number;
+  answered: number;
+  totalQuestions: number;
+  tabSwitches: number;
+  submitted: boolean;
+  endTime: number | null;
+  submittedLate: boolean;
+  violations?: number; // Left out when the update didn't come from the proctoring log
+  currentQuestion?: number | null; // 1-based
+}
+
+export interface LiveViolation {
+  attemptId: string;
+  studentId: string;
+  type: ProctoringEventType;
+  at: number;
+}
+
+// Messages on a quiz's live stream; each carries the server clock
+export type LiveMonitorMessage =
+  | { event: 'snapshot'; data: { students: { id: string; name: string; email?: string }[]; attempts: LiveAttempt[]; serverTime: number } }
+  | { event: 'attempt'; data: LiveAttempt & { serverTime: number } }
+  | { event: 'activity'; data: { attemptId: string; studentId: string; violations: Omit<LiveViolation, 'attemptId' | 'studentId'>[]; currentQuestion?: number | null; serverTime: number } };
+
+// Two attempts by different students whose answers or timing are suspiciously alike
+export interface SimilarityPair {
+  attempts: {
+    id: string;
+    attemptNumber: number;
+    student: { id: string; name: string; email?: string };
+    achievedMarks: number;
+    startTime: number;
+    endTime?: number;
+  }[];
+  score: number; // 0 to 100
+  sharedWrongAnswers: number;
+  identicalTextAnswers: number;
+  startGapMs: number;
+  endGapMs: number | null;
+  questionIds: string[]; // The questions answered alike
+  reasons: string[];
+}
+
+export interface SimilarityReport {
+  comparedAttempts: number;
+  pairs: SimilarityPair[]; // Most similar first
+}
+
+// A student's result across their submitted attempts under the quiz's score policy
+export interface PolicyResult {
+  achievedMarks: number;
+  score: number;
+  attemptNumber: number | null; // The attempt that counts; null for Average
+  attemptCount: number;
+  gradingStatus: GradingStatus;
+}
+
+export interface StudentAttempts {
+  attempts: QuizAttempt[]; // Oldest first
+  result: PolicyResult | null; // null until an attempt is submitted
+  attemptsLeft: number | null; // null for practice quizzes, which have no limit
+}
+
+// How a checked practice answer was graded, with the answer key it was graded against
+export interface PracticeFeedback {
+  result: QuestionResult;
+  answerKey: Partial<Pick<Question, AnswerKeyField>>;
+}
+
+// One long-answer response waiting for (or already given) a manual grade
+export interface GradingQueueResponse {
+  attemptId: string;
+  student: { id: string; name: string; email?: string };
+  questionId: string;
+  answer: string;
+  status: QuestionResultStatus;
+  awardedMarks: number;
+  maxMarks: number;
+  feedback: string;
+  gradedAt: string | null;
+}
+
+export interface GradingQueue {
+  questions: Pick<Question, 'id' | 'text' | 'imageUrl' | 'marks' | 'modelAnswer'>[];
+  responses: GradingQueueResponse[];
+  pendingCount: number;
 }
\ No newline at end of file
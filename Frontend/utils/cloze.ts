@@ -0,0 +1,7 @@
+// Cloze questions mark each blank in their text with three or more underscores
+const CLOZE_PLACEHOLDER = /_{3,}/;
+
+// Splits cloze text around its placeholders; blank i sits between parts i and i + 1
+export const splitClozeText = (text: string): string[] => text.split(CLOZE_PLACEHOLDER);
+
+export const countClozeBlanks = (text: string): number => splitClozeText(text).length - 1;
@@ -0,0 +1,7 @@
+import { QuestionOption } from '../types';
+
+// Options in the order a student saw them, each with its canonical index (the value answers store)
+export const orderOptions = <T extends QuestionOption>(options: T[], order?: number[]): { option: T; index: number }[] => {
+  const indices = order && order.length === options.length ? order : options.map((_, index) => index);
+  return indices.map(index => ({ option: options[index], index }));
+};
@@ -0,0 +1,13 @@
+import { QuestionSearchFilters } from '../types';
+
+// Tags are typed comma-separated and kept lower-case, like the server stores them
+export const parseTags = (text: string): string[] =>
+  [...new Set<string>(text.split(',').map(tag => tag.trim().toLowerCase()).filter(tag => tag !== ''))];
+
+// Learning outcomes are typed one per line
+export const parseOutcomes = (text: string): string[] =>
+  [...new Set<string>(text.split('\n').map(outcome => outcome.trim()).filter(outcome => outcome !== ''))];
+
+// Whether any filter besides the subject narrows a search
+export const hasActiveFilters = (filters: QuestionSearchFilters): boolean =>
+  !!(filters.query?.trim() || filters.difficulty || filters.type || filters.marks || filters.tags?.length || filters.learningOutcome);
@@ -0,0 +1,18 @@
+import { Quiz, Question, QuestionRule } from '../types';
+
+// Pool quizzes draw each student's questions from rules instead of a fixed list
+export const isPoolQuiz = (quiz: Quiz): boolean => (quiz.questionRules || []).length > 0;
+
+export const matchesRule = (question: Question, rule: QuestionRule): boolean =>
+  question.subject === rule.subject && question.difficulty === rule.difficulty && question.marks === rule.marks;
+
+export const quizQuestionCount = (quiz: Quiz): number =>
+  isPoolQuiz(quiz)
+    ? quiz.questionRules!.reduce((sum, rule) => sum + rule.count, 0)
+    : quiz.questionIds.length;
+
+// Whether a question can appear in some attempt of the quiz
+export const quizMayInclude = (quiz: Quiz, question: Question): boolean =>
+  isPoolQuiz(quiz)
+    ? quiz.questionRules!.some(rule => matchesRule(question, rule))
+    : quiz.questionIds.includes(question.id);
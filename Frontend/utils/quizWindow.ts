@@ -0,0 +1,27 @@
+import { Quiz, QuizWindowState } from '../types';
+
+export const getQuizWindowState = (quiz: Quiz, now: number): QuizWindowState => {
+  if (quiz.opensAt && now < new Date(quiz.opensAt).getTime()) return QuizWindowState.Upcoming;
+  if (quiz.closesAt && now >= new Date(quiz.closesAt).getTime()) return QuizWindowState.Closed;
+  return QuizWindowState.Open;
+};
+
+// Milliseconds until the next window change (opening or closing), or null if none is scheduled
+export const msUntilWindowChange = (quiz: Quiz, now: number): number | null => {
+  const state = getQuizWindowState(quiz, now);
+  if (state === QuizWindowState.Upcoming) return new Date(quiz.opensAt!).getTime() - now;
+  if (state === QuizWindowState.Open && quiz.closesAt) return new Date(quiz.closesAt).getTime() - now;
+  return null;
+};
+
+// "2d 4h", "3h 12m", "04:59"
+export const formatCountdown = (ms: number): string => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+};
@@ -0,0 +1,7 @@
+import { ScorePolicy } from '../types';
+
+export const SCORE_POLICY_LABELS: Record<ScorePolicy, string> = {
+  [ScorePolicy.Best]: 'Best attempt',
+  [ScorePolicy.Latest]: 'Latest attempt',
+  [ScorePolicy.Average]: 'Average of attempts',
+};